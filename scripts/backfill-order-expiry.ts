@@ -0,0 +1,67 @@
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import path from "path";
+import Transaction from "../src/models/Transaction";
+import { getDefaultExpiryMinutes } from "../src/utils/orderExpiry";
+
+// Load env from root
+dotenv.config({ path: path.resolve(__dirname, "../.env") });
+
+const MONGODB_URI = process.env.MONGODB_URI;
+
+if (!MONGODB_URI) {
+    console.error("❌ MONGODB_URI is not defined in .env");
+    process.exit(1);
+}
+
+const DRY_RUN = process.argv.includes("--dry-run");
+
+/**
+ * One-off: give every pending order from before expiry tracking an
+ * `expiresAt` (createdAt + ORDER_EXPIRY_MINUTES) so the sweeper can expire it.
+ * Orders are marked `notes.expiry_backfilled`, so the sweeper sends no
+ * `payment.expired` merchant callback for them.
+ *
+ * Safe to re-run — only pending orders without an expiresAt are touched.
+ *
+ * Usage: npx ts-node scripts/backfill-order-expiry.ts [--dry-run]
+ */
+async function backfillOrderExpiry() {
+    try {
+        console.log("🔄 Connecting to MongoDB...");
+        await mongoose.connect(MONGODB_URI as string);
+        console.log(`✅ Connected.${DRY_RUN ? " (dry run — nothing will be written)" : ""}`);
+
+        const expiryMs = getDefaultExpiryMinutes() * 60000;
+        const orders = await Transaction.find({ status: "pending", expiresAt: null }).select("_id orderId createdAt notes").lean();
+        console.log(`Found ${orders.length} pending orders without an expiry.`);
+
+        let updated = 0;
+        for (const order of orders as any[]) {
+            const expiresAt = new Date(new Date(order.createdAt || Date.now()).getTime() + expiryMs);
+            // notes may be unset on old orders — a dotted $set needs an object to write into
+            const marker =
+                order.notes && typeof order.notes === "object"
+                    ? { "notes.expiry_backfilled": true }
+                    : { notes: { expiry_backfilled: true } };
+
+            if (!DRY_RUN) {
+                const res = await Transaction.updateOne(
+                    { _id: order._id, status: "pending", expiresAt: null },
+                    { $set: { expiresAt, ...marker } }
+                );
+                if (res.modifiedCount === 0) continue;
+            }
+            updated++;
+            console.log(`✅ ${order.orderId} expires at ${expiresAt.toISOString()}`);
+        }
+
+        console.log(`🎉 Expiry backfill complete! ${updated} orders updated.`);
+        process.exit(0);
+    } catch (error) {
+        console.error("❌ Error backfilling order expiry:", error);
+        process.exit(1);
+    }
+}
+
+backfillOrderExpiry();
@@ -0,0 +1,64 @@
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import path from "path";
+import User from "../src/models/User";
+import { postJournal } from "../src/services/ledger";
+
+// Load env from root
+dotenv.config({ path: path.resolve(__dirname, "../.env") });
+
+const MONGODB_URI = process.env.MONGODB_URI;
+
+if (!MONGODB_URI) {
+    console.error("❌ MONGODB_URI is not defined in .env");
+    process.exit(1);
+}
+
+/**
+ * One-off: post an opening-balance journal for every merchant whose
+ * walletBalance pre-dates the ledger, so the ledger explains today's balance.
+ * Safe to re-run — each merchant's journal key is "opening:<userId>".
+ *
+ * Usage: npx ts-node scripts/ledger-opening-balances.ts
+ */
+async function postOpeningBalances() {
+    try {
+        console.log("🔄 Connecting to MongoDB...");
+        await mongoose.connect(MONGODB_URI as string);
+        console.log("✅ Connected.");
+
+        const users = await User.find({ walletBalance: { $ne: 0 } }).select("_id email walletBalance");
+        console.log(`Found ${users.length} merchants with a non-zero wallet balance.`);
+
+        for (const user of users) {
+            const amount = Math.abs(user.walletBalance);
+            const credit = user.walletBalance > 0;
+
+            const result = await postJournal({
+                key: `opening:${user._id}`,
+                // The cached balance already holds this amount
+                skipBalanceCache: true,
+                reference: { type: "adjustment", id: user._id, ref: "opening_balance" },
+                memo: "Opening balance (pre-ledger wallet)",
+                lines: [
+                    { account: "adjustments", direction: credit ? "debit" : "credit", amount },
+                    { account: "merchant_available", userId: user._id, direction: credit ? "credit" : "debit", amount },
+                ],
+            });
+
+            if (result.posted) {
+                console.log(`✅ Opening balance ${user.walletBalance} posted for ${user.email}`);
+            } else {
+                console.log(`ℹ️ Skipped ${user.email} (${result.reason})`);
+            }
+        }
+
+        console.log("🎉 Opening balances complete!");
+        process.exit(0);
+    } catch (error) {
+        console.error("❌ Error posting opening balances:", error);
+        process.exit(1);
+    }
+}
+
+postOpeningBalances();
@@ -0,0 +1,221 @@
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import path from "path";
+import crypto from "crypto";
+import Payout from "../src/models/Payout";
+import LedgerEntry from "../src/models/LedgerEntry";
+import User from "../src/models/User";
+import { postJournal, recordPayoutRequested } from "../src/services/ledger";
+
+// Load env from root
+dotenv.config({ path: path.resolve(__dirname, "../.env") });
+
+const MONGODB_URI = process.env.MONGODB_URI;
+
+if (!MONGODB_URI) {
+    console.error("❌ MONGODB_URI is not defined in .env");
+    process.exit(1);
+}
+
+const DRY_RUN = process.argv.includes("--dry-run");
+
+// Old Payout status → unified status
+const LEGACY_PAYOUT_STATUS: Record<string, string> = {
+    pending: "pending",
+    approved: "approved",
+    rejected: "rejected",
+    completed: "success",
+};
+
+function legacyOrderId(createdAt: Date | undefined): string {
+    const ts = (createdAt ? new Date(createdAt) : new Date()).getTime().toString();
+    return `POUT${ts}${crypto.randomBytes(2).toString("hex").toUpperCase()}`;
+}
+
+/**
+ * One-off: move both payout systems onto the unified `payouts` collection.
+ *
+ *  1. Old Payout records (same collection): `details` → `beneficiary`,
+ *     "completed" → "success", and an `orderid`. `walletHeld` is set when the
+ *     ledger has the payout's hold journal and no reversal yet, so a later
+ *     rejection refunds it exactly once. Pending/approved payouts from before
+ *     the ledger were debited straight from walletBalance (and that debit is
+ *     part of the opening balance), so they get a backfilled hold journal and
+ *     count as held too.
+ *  2. GatewayPayout records (`gateway_payouts`) are copied in with their _id.
+ *     They never held wallet funds: pending ones take their hold now and are
+ *     copied as `rejected` if the wallet can't cover it, so nothing is
+ *     dispatched unfunded. Others keep `walletHeld` false.
+ *
+ * Safe to re-run — migrated records carry `legacy` and are skipped. The
+ * `gateway_payouts` collection is left in place; drop it once verified.
+ * Run after ledger-opening-balances.ts, and before starting the new server so
+ * the unique `orderid` index can build.
+ *
+ * Usage: npx ts-node scripts/migrate-unified-payouts.ts [--dry-run]
+ */
+async function migratePayouts() {
+    try {
+        console.log("🔄 Connecting to MongoDB...");
+        await mongoose.connect(MONGODB_URI as string);
+        console.log(`✅ Connected.${DRY_RUN ? " (dry run — nothing will be written)" : ""}`);
+
+        const payouts = mongoose.connection.collection("payouts");
+        const gatewayPayouts = mongoose.connection.collection("gateway_payouts");
+        const now = new Date();
+
+        // ── 1. Old Payout records ────────────────────────────────────────────
+        const oldPayouts = await payouts.find({ legacy: null, orderid: { $exists: false } }).toArray();
+        console.log(`Found ${oldPayouts.length} old Payout records.`);
+
+        for (const old of oldPayouts) {
+            const status = LEGACY_PAYOUT_STATUS[old.status] || "pending";
+            const hasHold = await LedgerEntry.exists({ journalKey: `payout:${old._id}:request` });
+            // A rejected payout whose hold was already given back has nothing left to reverse
+            let held = !!hasHold && !(await LedgerEntry.exists({ journalKey: `payout:${old._id}:reversal` }));
+            let backfilled = false;
+
+            if (!hasHold && (status === "pending" || status === "approved")) {
+                // Pre-ledger payout: walletBalance was already debited, so the
+                // opening balance excludes it — book the hold against adjustments
+                if (!DRY_RUN) {
+                    await postJournal({
+                        key: `payout:${old._id}:request`,
+                        // The cached balance was debited when the payout was requested
+                        skipBalanceCache: true,
+                        reference: { type: "payout", id: old._id, ref: String(old._id) },
+                        memo: "Payout requested (pre-ledger hold, backfilled)",
+                        createdBy: old.userId,
+                        lines: [
+                            { account: "adjustments", direction: "debit", amount: old.amount },
+                            { account: "payout_clearing", direction: "credit", amount: old.amount },
+                        ],
+                    });
+                }
+                held = true;
+                backfilled = true;
+            }
+            const details = old.details || {};
+
+            const update = {
+                $set: {
+                    orderid: legacyOrderId(old.createdAt),
+                    status,
+                    provider: status === "success" ? "manual" : null,
+                    walletHeld: held,
+                    beneficiary: {
+                        fullName: details.accountHolderName || "",
+                        mobile: "",
+                        accountNumber: details.accountNumber || "",
+                        ifsc: (details.ifscCode || "").toUpperCase(),
+                        bank: details.bankName || "",
+                        upiId: details.upiId || "",
+                    },
+                    retryCount: 0,
+                    statusHistory: [{ from: "", to: status, source: "migration", at: now, rawRef: "", note: `Legacy Payout status '${old.status}'` }],
+                    legacy: { model: "Payout", status: old.status, migratedAt: now },
+                },
+                $unset: { details: "" },
+            };
+
+            if (!DRY_RUN) await payouts.updateOne({ _id: old._id }, update);
+            const holdNote = backfilled ? " (hold backfilled)" : held ? "" : " (no wallet hold in ledger)";
+            console.log(`✅ Payout ${old._id}: ${old.status} → ${status}${holdNote}`);
+        }
+
+        // ── 2. GatewayPayout records ─────────────────────────────────────────
+        const gatewayRecords = await gatewayPayouts.find({}).toArray();
+        console.log(`Found ${gatewayRecords.length} GatewayPayout records.`);
+
+        let copied = 0;
+        let rejected = 0;
+        for (const gp of gatewayRecords) {
+            const exists = await payouts.findOne({ $or: [{ _id: gp._id }, { orderid: gp.orderid }] }, { projection: { _id: 1 } });
+            if (exists) {
+                console.log(`ℹ️ Skipped ${gp.orderid} (already migrated)`);
+                continue;
+            }
+
+            // A pending payout can still be dispatched, so it must hold its amount first
+            let status = gp.status;
+            let walletHeld = false;
+            let note = "Copied from GatewayPayout";
+            if (gp.status === "pending") {
+                let funded: boolean;
+                if (DRY_RUN) {
+                    const user = await User.findById(gp.userId).select("walletBalance").lean();
+                    funded = !!user && (user as any).walletBalance >= gp.amount;
+                } else {
+                    funded = (await recordPayoutRequested({ _id: gp._id, userId: gp.userId, amount: gp.amount })).posted;
+                }
+                if (funded) {
+                    walletHeld = true;
+                    note = "Copied from GatewayPayout — wallet hold taken at migration";
+                } else {
+                    status = "rejected";
+                    note = "Copied from GatewayPayout — rejected at migration, wallet balance could not cover the hold";
+                    rejected++;
+                }
+            }
+
+            const doc = {
+                _id: gp._id,
+                userId: gp.userId,
+                orderid: gp.orderid,
+                amount: gp.amount,
+                method: "bank_transfer",
+                provider: gp.status === "pending" ? null : "rezopay",
+                beneficiary: {
+                    fullName: gp.fullName || "",
+                    mobile: gp.mobile || "",
+                    accountNumber: gp.accountNumber || "",
+                    ifsc: gp.ifsc || "",
+                    bank: gp.bank || "",
+                    upiId: "",
+                },
+                status,
+                walletHeld,
+                adminComment: status === "rejected" ? "Rejected at migration: insufficient wallet balance" : "",
+                approvedBy: gp.approvedBy || null,
+                approvedAt: gp.approvedAt || null,
+                processedAt: ["success", "failed", "returned"].includes(gp.status)
+                    ? gp.gatewayUpdatedAt || gp.updatedAt
+                    : status === "rejected" ? now : null,
+                utr: gp.utr || "",
+                gatewayMessage: gp.gatewayMessage || "",
+                gatewayUpdatedAt: gp.gatewayUpdatedAt || null,
+                initiatedAt: gp.initiatedAt || null,
+                retryCount: gp.retryCount || 0,
+                callbackPayload: gp.callbackPayload ?? null,
+                lastStatusCheck: gp.lastStatusCheck ?? null,
+                lastStatusCheckedAt: gp.lastStatusCheckedAt || null,
+                escalatedAt: gp.escalatedAt || null,
+                escalationReason: gp.escalationReason || "",
+                statusHistory: [
+                    ...(gp.statusHistory || []),
+                    { from: gp.status, to: status, source: "migration", at: now, rawRef: "", note },
+                ],
+                legacy: { model: "GatewayPayout", status: gp.status, migratedAt: now },
+                createdAt: gp.createdAt,
+                updatedAt: gp.updatedAt,
+            };
+
+            if (!DRY_RUN) await payouts.insertOne(doc);
+            copied++;
+            console.log(`✅ GatewayPayout ${gp.orderid} (${gp.status}${status !== gp.status ? ` → ${status}, insufficient funds` : ""}) copied`);
+        }
+
+        if (!DRY_RUN) {
+            await Payout.createIndexes();
+            console.log("✅ Payout indexes built.");
+        }
+
+        console.log(`🎉 Migration complete! ${oldPayouts.length} Payout records updated, ${copied} GatewayPayout records copied (${rejected} rejected for insufficient funds).`);
+        process.exit(0);
+    } catch (error) {
+        console.error("❌ Error migrating payouts:", error);
+        process.exit(1);
+    }
+}
+
+migratePayouts();
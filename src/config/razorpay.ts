@@ -21,11 +21,17 @@ if (keyId && keySecret) {
       create: async () => {
         throw new Error("Razorpay keys not configured: cannot create order")
       },
+      fetch: async () => {
+        throw new Error("Razorpay keys not configured: cannot fetch order")
+      },
     },
     payments: {
       fetch: async () => {
         throw new Error("Razorpay keys not configured: cannot fetch payment")
       },
+      refund: async () => {
+        throw new Error("Razorpay keys not configured: cannot refund payment")
+      },
     },
     refunds: {
       create: async () => {
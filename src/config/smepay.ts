@@ -3,6 +3,8 @@ import axios from "axios"
 export const SMEPAY_BASE_URL = process.env.SMEPAY_BASE_URL || "https://extranet.smepay.in/api"
 export const SMEPAY_CLIENT_ID = process.env.SMEPAY_CLIENT_ID || ""
 export const SMEPAY_CLIENT_SECRET = process.env.SMEPAY_CLIENT_SECRET || ""
+// Shared secret for callback signatures — leave empty if SMEPay does not sign for this account
+export const SMEPAY_WEBHOOK_SECRET = process.env.SMEPAY_WEBHOOK_SECRET || ""
 
 export const smepayAuthClient = axios.create({
   baseURL: SMEPAY_BASE_URL,
@@ -1,9 +1,7 @@
 
 import { Request, Response } from "express"
 import crypto from "crypto"
-import Transaction from "../models/Transaction"
-import { sseManager } from "../utils/sse"
-import { fireMerchantCallback, getMerchantCallbackUrl } from "../utils/merchantCallback"
+import { ingestProviderEvent } from "../services/providerEvents"
 
 export const razorpayWebhookHandler = async (req: Request, res: Response) => {
     try {
@@ -55,118 +53,29 @@ export const razorpayWebhookHandler = async (req: Request, res: Response) => {
         }
 
         // ──────────────────────────────────────────
-        // Parse Event
+        // Parse Event → store, dedupe, process
         // ──────────────────────────────────────────
-        const event = JSON.parse(req.body.toString())
+        const rawBody = req.body.toString()
+        const event = JSON.parse(rawBody)
 
         console.log("🔥 [Razorpay Webhook] Event received:", event.event)
         console.log("[Razorpay Webhook] Full payload:", JSON.stringify(event.payload, null, 2))
 
-        // ──────────────────────────────────────────
-        // Handle: payment.captured OR order.paid
-        // ──────────────────────────────────────────
-        if (event.event === "payment.captured" || event.event === "order.paid") {
-            const payment = event.payload.payment?.entity
-            if (!payment) {
-                console.error("[Razorpay Webhook] ❌ Missing payment entity in payload")
-                return res.status(200).json({ status: "ok", message: "No payment entity" })
-            }
-
-            const orderId = payment.order_id
-            const paymentId = payment.id
-            const amount = payment.amount   // in paise
-            const method = payment.method
-
-            console.log(`[Razorpay Webhook] Processing payment: orderId=${orderId}, paymentId=${paymentId}, method=${method}`)
-
-            const transaction = await Transaction.findOneAndUpdate(
-                { orderId: orderId, status: { $ne: "completed" } },
-                {
-                    $set: {
-                        status: "completed",
-                        paymentId: paymentId,
-                        updatedAt: new Date(),
-                        "notes.razorpay_webhook_event": event.event,
-                        "notes.razorpay_payment_method": method,
-                        "notes.completed_via": "razorpay_webhook",
-                    },
-                },
-                { new: true }
-            )
-
-            if (transaction) {
-                console.log(`✅ [Razorpay Webhook] Transaction ${orderId} → completed (paymentId: ${paymentId})`)
-
-                // Notify frontend via SSE
-                sseManager.broadcast(orderId, {
-                    type: "payment_success",
-                    orderId: orderId,
-                    status: "completed",
-                    paymentId: paymentId,
-                    source: "razorpay_webhook",
-                })
-                console.log(`📡 [Razorpay Webhook] SSE broadcast sent for ${orderId}`)
-
-                // 🔔 Fire merchant callback (async — non-blocking)
-                const callbackUrl = await getMerchantCallbackUrl(orderId)
-                fireMerchantCallback(callbackUrl, {
-                    event: "payment.success",
-                    orderId,
-                    paymentId,
-                    amount: Math.round(amount / 100), // Convert paise → INR
-                    currency: "INR",
-                    status: "completed",
-                    message: "Payment captured successfully",
-                    timestamp: new Date().toISOString(),
-                    gatewayId: paymentId,
-                }).catch(() => { }) // already logged inside utility
-
-            } else {
-                const existing = await Transaction.findOne({ orderId })
-                if (!existing) {
-                    console.error(`❌ [Razorpay Webhook] Transaction NOT FOUND for orderId: ${orderId}`)
-                    console.error("👉 Hint: Check that the orderId in Razorpay matches the 'orderId' field in MongoDB")
-                } else {
-                    console.log(`ℹ️ [Razorpay Webhook] Transaction ${orderId} already has status=${existing.status}. Idempotency skip.`)
-                }
-            }
-        } else if (event.event === "payment.failed") {
-            const payment = event.payload.payment?.entity
-            if (payment) {
-                const orderId = payment.order_id
-                const updated = await Transaction.findOneAndUpdate(
-                    { orderId: orderId, status: "pending" },
-                    {
-                        $set: {
-                            status: "failed",
-                            updatedAt: new Date(),
-                            "notes.razorpay_failure_reason": payment.error_description,
-                            "notes.razorpay_failure_code": payment.error_code,
-                        }
-                    },
-                    { new: true }
-                )
-                console.log(`[Razorpay Webhook] Payment failed for orderId: ${orderId}. Reason: ${payment.error_description}`)
-
-                // 🔔 Fire merchant callback on failure
-                if (updated) {
-                    const callbackUrl = await getMerchantCallbackUrl(orderId)
-                    fireMerchantCallback(callbackUrl, {
-                        event: "payment.failed",
-                        orderId,
-                        paymentId: payment.id || "",
-                        amount: Math.round((payment.amount || 0) / 100),
-                        currency: "INR",
-                        status: "failed",
-                        message: payment.error_description || "Payment failed",
-                        timestamp: new Date().toISOString(),
-                    }).catch(() => { })
-                }
-            }
-        } else {
-            console.log(`[Razorpay Webhook] ℹ️ Unhandled event: ${event.event} — returning 200 OK`)
+        const result = await ingestProviderEvent({
+            provider: "razorpay",
+            source: "razorpay_webhook",
+            eventId: (req.headers["x-razorpay-event-id"] as string) || "",
+            eventType: event.event,
+            orderId: event.payload?.payment?.entity?.order_id || "",
+            headers: req.headers,
+            payload: event,
+            rawBody,
+        })
+
+        if (result.error) {
+            // 5xx makes Razorpay redeliver; the failed event is processed again then
+            return res.status(500).json({ status: "error", message: result.error })
         }
-
         return res.status(200).json({ status: "ok" })
 
     } catch (error: any) {
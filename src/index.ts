@@ -38,6 +38,11 @@ import userRoutes from './routes/user'
 import adminRoutes from './routes/admin'
 import { razorpayWebhookHandler } from './controllers/webhookController'
 import { startPaymentPolling } from './utils/paymentPoller'
+import { startPayoutPolling } from './utils/payoutPoller'
+import { startOrderExpirySweeper } from './utils/orderExpiry'
+import { startSettlementReleaseJob } from './services/walletCredit'
+import { startSettlementJob } from './services/settlements'
+import { startWebhookDeliveryWorker } from './services/webhookDelivery'
 import unpayRoutes from './routes/unpay'
 import rezoPayoutRoutes from './routes/rezopay-payout'
 
@@ -46,8 +51,12 @@ const PORT = Number(process.env.PORT || process.env.SERVER_PORT) || 5000
 
 /* =========================================================
    TRUST PROXY (IMPORTANT)
+   req.ip must be the address our own proxy saw, not a client-sent
+   X-Forwarded-For — the RezoPay callback IP allowlist relies on it.
+   TRUST_PROXY: proxy hop count (default 1), or a list of proxy IPs/subnets
 ========================================================= */
-app.set('trust proxy', true)
+const trustProxy = (process.env.TRUST_PROXY || '1').trim()
+app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy.split(',').map((p) => p.trim()))
 
 /* =========================================================
    CORS CONFIG (BULLETPROOF)
@@ -89,7 +98,8 @@ const corsOptions = {
     'Accept',
     'Origin',
     'Access-Control-Request-Method',
-    'Access-Control-Request-Headers'
+    'Access-Control-Request-Headers',
+    'Idempotency-Key'
   ],
   preflightContinue: false,
   optionsSuccessStatus: 204
@@ -128,10 +138,14 @@ app.post("/api/payments/webhook/unpay", express.json(), (req, res, next) => {
 })
 
 // RezoPay Payout Callback — Public webhook (registered in RezoPay merchant panel)
-// MUST be before express.json() body parser so body is available for future HMAC use
+// MUST be before express.json() body parser so the raw body is kept for HMAC verification
 app.post(
   "/api/gateway-payouts/callback",
-  express.json(),
+  express.json({
+    verify: (req, _res, buf) => {
+      (req as any).rawBody = buf.toString("utf8")
+    }
+  }),
   (req, res, next) => {
     console.log("[RezoPay Payout Callback] POST Hit")
     req.url = '/callback'
@@ -139,6 +153,21 @@ app.post(
   }
 )
 
+// SMEPay callbacks - keep the raw body for signature verification (both paths)
+app.post(
+  ["/api/payments/webhook/smepay", "/api/smepay/callback"],
+  express.json({
+    verify: (req, _res, buf) => {
+      (req as any).rawBody = buf.toString("utf8")
+    }
+  })
+)
+
+// Provider reconciliation reports can exceed the default 100kb JSON limit
+app.post("/api/admin/reconciliation/runs", express.json({ limit: "20mb" }))
+// So can bulk payout uploads
+app.post("/api/payout-batches", express.json({ limit: "5mb" }))
+
 /* =========================================================
    MIDDLEWARES
 ========================================================= */
@@ -160,6 +189,16 @@ connectDB(mongoUri)
     console.log('MongoDB connected')
     // Start background payment status polling (safety net for missed webhooks)
     startPaymentPolling()
+    // Move unpaid orders past their expiresAt to "expired"
+    startOrderExpirySweeper()
+    // Release captured funds to merchants' available balance after T+N
+    startSettlementReleaseJob()
+    // Reserve and queue settlement batches for merchants on auto-settlement
+    startSettlementJob()
+    // Retry merchant callbacks that have not been delivered yet
+    startWebhookDeliveryWorker()
+    // Check RezoPay payouts stuck in processing and escalate them to admins
+    startPayoutPolling()
   })
   .catch((err) => {
     console.error('MongoDB connection failed:', err)
@@ -187,19 +226,36 @@ app.use('/api/admin', adminRoutes)
 app.use('/api/unpay', unpayRoutes)
 import payoutRoutes from './routes/payouts'
 app.use('/api/payouts', payoutRoutes)
+import beneficiaryRoutes from './routes/beneficiaries'
+app.use('/api/beneficiaries', beneficiaryRoutes)
+import payoutBatchRoutes from './routes/payout_batches'
+app.use('/api/payout-batches', payoutBatchRoutes)
+import adminPayoutBatchRoutes from './routes/admin_payout_batches'
+app.use('/api/admin/payout-batches', adminPayoutBatchRoutes)
 import adminPayoutRoutes from './routes/admin_payouts'
 app.use('/api/admin/payouts', adminPayoutRoutes)
+import adminRoutingRuleRoutes from './routes/admin_routing_rules'
+app.use('/api/admin/routing-rules', adminRoutingRuleRoutes)
+import adminPricingPlanRoutes from './routes/admin_pricing_plans'
+app.use('/api/admin/pricing-plans', adminPricingPlanRoutes)
+import adminSettlementRoutes from './routes/admin_settlements'
+app.use('/api/admin/settlements', adminSettlementRoutes)
+import adminReconciliationRoutes from './routes/admin_reconciliation'
+app.use('/api/admin/reconciliation', adminReconciliationRoutes)
+import adminProviderEventRoutes from './routes/admin_provider_events'
+app.use('/api/admin/provider-events', adminProviderEventRoutes)
+import webhookEndpointRoutes from './routes/webhook_endpoints'
+app.use('/api/webhooks/endpoints', webhookEndpointRoutes)
+import webhookDeliveryRoutes from './routes/webhook_deliveries'
+app.use('/api/webhooks/deliveries', webhookDeliveryRoutes)
+
 // RezoPay Gateway Payout routes
 app.use('/api/gateway-payouts', rezoPayoutRoutes)
 
 // Legacy SMEPay callback path used by provider: /api/smepay/callback
 // Rewrite to existing /api/payments/webhook/smepay handler without changing router structure
 app.post('/api/smepay/callback', (req: Request, res: Response, next: NextFunction) => {
-  // TODO: If SMEPay webhook logic is moved to webhookController, update this too.
-  // For now, redirecting to paymentRoutes which extracts body. 
-  // NOTE: If SMEPay needs raw body, this will fail because express.json() is now global above.
-  // Assuming SMEPay sends standard JSON and doesn't require raw body signature verification
-  // or that verif happens on parsed body.
+  // Body (and req.rawBody for the signature check) was parsed by the SMEPay parser above
   req.url = '/webhook/smepay'
     ; (paymentRoutes as any).handle(req, res, next)
 })
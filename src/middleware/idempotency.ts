@@ -0,0 +1,174 @@
+/**
+ * Idempotency-Key Middleware
+ * ==========================
+ * Lets merchants safely retry POSTs (e.g. /create-order after a network
+ * timeout) without creating duplicate gateway orders or Transactions.
+ *
+ *   Idempotency-Key: <unique string, max 255 chars>
+ *
+ * - First request with a key runs normally; its response is stored.
+ * - Same key + same body → stored response is replayed (header Idempotent-Replayed: true).
+ * - Same key + different body → 422.
+ * - Same key while the first request is still running → 409. If it has held
+ *   the key longer than IDEMPOTENCY_LOCK_SECONDS (default 120) the process is
+ *   assumed to have died and the retry takes the key over.
+ * - 5xx responses are not stored, so the merchant can retry with the same key.
+ *
+ * Keys are scoped per API key (per user for JWT calls) and expire after
+ * IDEMPOTENCY_KEY_TTL_HOURS (default 24).
+ *
+ * Must run AFTER apiKeyAuth so req.apiKeyId / req.user are populated.
+ * Requests without the header pass through untouched.
+ */
+
+import { Request, Response, NextFunction } from "express"
+import crypto from "crypto"
+import IdempotencyKey from "../models/IdempotencyKey"
+
+const MAX_KEY_LENGTH = 255
+
+function getTtlMs(): number {
+    const hours = Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS) || 24
+    return hours * 60 * 60 * 1000
+}
+
+function getLockMs(): number {
+    return (Number(process.env.IDEMPOTENCY_LOCK_SECONDS) || 120) * 1000
+}
+
+/**
+ * Take over a key whose request stopped running without storing a response.
+ * Resolves with the re-locked record, or null if the lock is still live.
+ */
+function takeOverStaleLock(existing: any): Promise<any> {
+    const staleBefore = new Date(Date.now() - getLockMs())
+    return IdempotencyKey.findOneAndUpdate(
+        {
+            _id: existing._id,
+            status: "processing",
+            $or: [{ lockedAt: { $lt: staleBefore } }, { lockedAt: null, createdAt: { $lt: staleBefore } }],
+        },
+        { $set: { lockedAt: new Date() } },
+        { new: true }
+    )
+}
+
+/**
+ * JSON.stringify with sorted object keys so logically equal bodies hash equally.
+ */
+function canonicalJson(value: any): string {
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`
+    if (value && typeof value === "object") {
+        const keys = Object.keys(value).sort()
+        return `{${keys.map((k) => `${JSON.stringify(k)}:${canonicalJson(value[k])}`).join(",")}}`
+    }
+    return JSON.stringify(value ?? null)
+}
+
+function hashRequest(req: Request): string {
+    return crypto
+        .createHash("sha256")
+        .update(`${req.method}\n${req.baseUrl}${req.path}\n${canonicalJson(req.body)}`)
+        .digest("hex")
+}
+
+export default async function idempotency(req: Request, res: Response, next: NextFunction) {
+    const key = (req.headers["idempotency-key"] as string | undefined)?.trim()
+    if (!key) return next()
+
+    if (key.length > MAX_KEY_LENGTH) {
+        return res.status(400).json({
+            success: false,
+            message: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+        })
+    }
+
+    const apiKeyId = (req as any).apiKeyId
+    const userId = (req as any).user?.id
+    const scope = apiKeyId ? `apikey:${apiKeyId}` : userId ? `user:${userId}` : null
+    if (!scope) return next()
+
+    const requestHash = hashRequest(req)
+
+    try {
+        let record: any
+        try {
+            record = await IdempotencyKey.create({
+                scope,
+                key,
+                requestHash,
+                method: req.method,
+                path: `${req.baseUrl}${req.path}`,
+                status: "processing",
+                lockedAt: new Date(),
+                expiresAt: new Date(Date.now() + getTtlMs()),
+            })
+        } catch (err: any) {
+            if (err?.code !== 11000) throw err
+
+            const existing: any = await IdempotencyKey.findOne({ scope, key })
+
+            // TTL monitor runs ~once a minute — treat an expired record as gone
+            if (existing && existing.expiresAt < new Date()) {
+                await IdempotencyKey.deleteOne({ _id: existing._id })
+                return idempotency(req, res, next)
+            }
+            if (!existing) return idempotency(req, res, next)
+
+            if (existing.requestHash !== requestHash) {
+                console.warn(`[Idempotency] Key reused with different body: scope=${scope} key=${key}`)
+                return res.status(422).json({
+                    success: false,
+                    message: "Idempotency-Key has already been used with a different request body",
+                })
+            }
+
+            if (existing.status !== "processing") {
+                console.log(`[Idempotency] Replaying stored response: scope=${scope} key=${key}`)
+                res.setHeader("Idempotent-Replayed", "true")
+                return res.status(existing.responseStatus || 200).json(existing.responseBody)
+            }
+
+            record = await takeOverStaleLock(existing)
+            if (!record) {
+                return res.status(409).json({
+                    success: false,
+                    message: "A request with this Idempotency-Key is still being processed. Retry shortly.",
+                })
+            }
+            console.warn(`[Idempotency] Took over stale lock: scope=${scope} key=${key}`)
+        }
+
+        // Only the current lock holder may store or release the key
+        const owned = { _id: record._id, lockedAt: record.lockedAt }
+
+        // Capture the response body so it can be replayed
+        let captured = false
+        const originalJson = res.json.bind(res)
+        res.json = (body: any) => {
+            captured = true
+            const status = res.statusCode
+            const persist =
+                status >= 500
+                    ? IdempotencyKey.deleteOne(owned)
+                    : IdempotencyKey.updateOne(
+                        owned,
+                        { $set: { status: "completed", responseStatus: status, responseBody: body } }
+                    )
+            persist.exec().catch((e: any) => console.error("[Idempotency] Failed to store response:", e.message))
+            return originalJson(body)
+        }
+
+        // Non-JSON response or aborted request — release the key so a retry can run
+        res.on("close", () => {
+            if (!captured) {
+                IdempotencyKey.deleteOne(owned).exec().catch(() => { })
+            }
+        })
+
+        return next()
+    } catch (error: any) {
+        console.error("[Idempotency] Error:", error.message)
+        return res.status(500).json({ success: false, message: "Idempotency check failed" })
+    }
+}
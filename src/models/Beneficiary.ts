@@ -0,0 +1,77 @@
+import mongoose from "mongoose"
+
+/**
+ * Beneficiary — a bank account or UPI VPA a merchant has saved for payouts.
+ * Payouts reference one by id and keep a snapshot of its details
+ * (Payout.beneficiary) as they were when the payout was requested.
+ *
+ * A new beneficiary can receive payouts once:
+ *   - its name check passed or was skipped (services/beneficiaryVerification.ts), and
+ *   - its cooling-off period (coolingOffUntil) is over.
+ *
+ * Status:
+ *   pending_verification → the name check could not run yet (retry with /verify)
+ *   active               → verified or check skipped
+ *   rejected             → name mismatch or the account/VPA does not exist
+ *   disabled             → removed by the merchant (kept for payout history)
+ */
+const beneficiarySchema = new mongoose.Schema(
+    {
+        userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true, index: true },
+
+        // Merchant's own name for it, e.g. "Office rent"
+        label: { type: String, trim: true, default: "" },
+
+        method: { type: String, enum: ["bank_transfer", "upi"], required: true },
+
+        fullName: { type: String, trim: true, required: true },
+        mobile: { type: String, trim: true, default: "" },
+        accountNumber: { type: String, trim: true, default: "" },
+        ifsc: { type: String, trim: true, uppercase: true, default: "" },
+        bank: { type: String, trim: true, default: "" },
+        upiId: { type: String, trim: true, lowercase: true, default: "" },
+
+        // "bank:<account>:<ifsc>" or "upi:<vpa>" — one beneficiary per destination per merchant
+        fingerprint: { type: String, required: true },
+
+        status: {
+            type: String,
+            enum: ["pending_verification", "active", "rejected", "disabled"],
+            default: "pending_verification",
+            index: true,
+        },
+
+        // Payouts are refused before this time
+        coolingOffUntil: { type: Date, required: true },
+
+        // Latest name check (penny drop or VPA lookup)
+        verification: {
+            _id: false,
+            verifier: { type: String, default: "" },
+            status: {
+                type: String,
+                enum: ["unverified", "verified", "skipped", "name_mismatch", "invalid", "error"],
+                default: "unverified",
+            },
+            // Account holder name reported by the bank / PSP
+            registeredName: { type: String, default: "" },
+            // 0–1 similarity between fullName and registeredName
+            nameMatchScore: { type: Number, default: null },
+            reference: { type: String, default: "" },
+            message: { type: String, default: "" },
+            attempts: { type: Number, default: 0 },
+            attemptedAt: { type: Date, default: null },
+            verifiedAt: { type: Date, default: null },
+        },
+
+        disabledAt: { type: Date, default: null },
+    },
+    {
+        timestamps: true,
+        collection: "beneficiaries",
+    }
+)
+
+beneficiarySchema.index({ userId: 1, fingerprint: 1 }, { unique: true })
+
+export default mongoose.models.Beneficiary || mongoose.model("Beneficiary", beneficiarySchema)
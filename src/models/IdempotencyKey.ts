@@ -0,0 +1,47 @@
+import mongoose from "mongoose"
+
+/**
+ * IdempotencyKey — Stored responses for merchant requests sent with an
+ * `Idempotency-Key` header. Keys are scoped per API key (or per user for
+ * dashboard JWT calls) and removed by MongoDB's TTL monitor after `expiresAt`.
+ *
+ * processing → request is running, concurrent retries get 409 until the lock
+ *              lease (lockedAt) runs out, then a retry takes it over
+ * completed  → response stored, retries with the same body get it replayed
+ */
+const idempotencyKeySchema = new mongoose.Schema(
+    {
+        // "apikey:<ApiKey._id>" or "user:<User._id>"
+        scope: { type: String, required: true },
+        key: { type: String, required: true },
+
+        // SHA-256 of method + path + canonical JSON body
+        requestHash: { type: String, required: true },
+        method: { type: String, required: true },
+        path: { type: String, required: true },
+
+        status: {
+            type: String,
+            enum: ["processing", "completed"],
+            default: "processing",
+        },
+
+        // When the running request took the key; a stale lock means it died
+        lockedAt: { type: Date, default: null },
+
+        responseStatus: { type: Number, default: null },
+        responseBody: { type: mongoose.Schema.Types.Mixed, default: null },
+
+        expiresAt: { type: Date, required: true },
+    },
+    {
+        timestamps: true,
+        collection: "idempotency_keys",
+    }
+)
+
+idempotencyKeySchema.index({ scope: 1, key: 1 }, { unique: true })
+idempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+
+export default mongoose.models.IdempotencyKey ||
+    mongoose.model("IdempotencyKey", idempotencyKeySchema)
@@ -0,0 +1,68 @@
+import mongoose from "mongoose"
+
+/**
+ * LedgerEntry — One line of a double-entry journal.
+ *
+ * Every money movement is posted as a journal of two or more lines that share
+ * a `journalKey`; total debits always equal total credits. Merchant balances
+ * (User.walletBalance / User.pendingBalance) are caches of these lines and can
+ * be rebuilt from them at any time (see services/ledger.ts).
+ *
+ * Accounts:
+ *   merchant_available → merchant money that can be paid out        (liability)
+ *   merchant_pending   → captured but not yet released to available  (liability)
+ *   platform_fees      → our fee income                              (income)
+ *   payout_clearing    → payouts requested but not yet sent          (liability)
+ *   provider_clearing  → money held at pay-in / payout gateways      (asset)
+ *   adjustments        → manual admin corrections                    (equity)
+ *
+ * `journalKey` is deterministic per business event (e.g. "payout:<id>:request"),
+ * so the same event can never be posted twice.
+ */
+export const LEDGER_ACCOUNTS = [
+    "merchant_available",
+    "merchant_pending",
+    "platform_fees",
+    "payout_clearing",
+    "provider_clearing",
+    "adjustments",
+] as const
+
+export const LEDGER_REFERENCE_TYPES = ["transaction", "payout", "refund", "adjustment"] as const
+
+const ledgerEntrySchema = new mongoose.Schema(
+    {
+        journalKey: { type: String, required: true },
+        // Position of this line inside its journal
+        line: { type: Number, required: true },
+
+        account: { type: String, enum: LEDGER_ACCOUNTS, required: true },
+        // Merchant the line belongs to (null for platform accounts)
+        userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+
+        direction: { type: String, enum: ["debit", "credit"], required: true },
+        amount: { type: Number, required: true, min: 0.01 },
+        currency: { type: String, default: "INR" },
+
+        // What caused the movement
+        reference: {
+            type: { type: String, enum: LEDGER_REFERENCE_TYPES, required: true },
+            id: { type: mongoose.Schema.Types.ObjectId, default: null },
+            // Human-readable id — orderId, refundId, payout id, ...
+            ref: { type: String, default: "" },
+        },
+
+        memo: { type: String, default: "" },
+        createdBy: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+        collection: "ledger_entries",
+    }
+)
+
+ledgerEntrySchema.index({ journalKey: 1, line: 1 }, { unique: true })
+ledgerEntrySchema.index({ userId: 1, account: 1, createdAt: -1 })
+ledgerEntrySchema.index({ "reference.type": 1, "reference.id": 1 })
+
+export default mongoose.models.LedgerEntry || mongoose.model("LedgerEntry", ledgerEntrySchema)
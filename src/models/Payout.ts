@@ -1,44 +1,176 @@
-import mongoose from "mongoose";
+import mongoose from "mongoose"
 
+/**
+ * Payout — every merchant payout, manual or through a gateway (RezoPay).
+ *
+ * One lifecycle (utils/payoutState.ts, services/payouts.ts):
+ *
+ *   request  → pending     wallet amount held (ledger: merchant_available → payout_clearing)
+ *   approval → approved    or rejected (hold released)
+ *   dispatch → processing  sent to the gateway
+ *   provider → success     hold finalized (payout_clearing → provider_clearing)
+ *            | failed | returned   amount credited back, once, via a PayoutReversal
+ *
+ * Manual payouts (UPI, or an admin paying outside the gateway) go
+ * approved → success when the admin marks them completed.
+ *
+ * Replaces the old separate GatewayPayout model (scripts/migrate-unified-payouts.ts).
+ */
 const payoutSchema = new mongoose.Schema(
     {
         userId: {
             type: mongoose.Schema.Types.ObjectId,
             ref: "User",
             required: true,
+            index: true,
         },
+
+        // Our unique reference — sent as `orderid` to RezoPay
+        // Format: POUT{timestamp}{random4hex}
+        orderid: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+
         amount: {
             type: Number,
             required: true,
             min: 1, // Minimum payout amount
         },
-        status: {
-            type: String,
-            enum: ["pending", "approved", "rejected", "completed"],
-            default: "pending",
-        },
+
         method: {
             type: String,
             enum: ["bank_transfer", "upi"],
             required: true,
         },
-        details: {
-            accountHolderName: String,
-            bankName: String,
-            accountNumber: String,
-            ifscCode: String,
-            upiId: String,
+
+        // Who moves the money: "rezopay" once dispatched to the gateway, "manual" when an admin pays it
+        provider: {
+            type: String,
+            enum: ["rezopay", "manual", null],
+            default: null,
+        },
+
+        // Saved beneficiary the payout goes to (models/Beneficiary.ts); null on migrated records
+        beneficiaryId: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: "Beneficiary",
+            default: null,
+        },
+
+        // Bulk upload this payout came from (models/PayoutBatch.ts)
+        batchId: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: "PayoutBatch",
+            default: null,
+            index: true,
         },
-        adminComment: {
+
+        // Beneficiary details as they were when the payout was requested — what gets dispatched
+        beneficiary: {
+            _id: false,
+            fullName: { type: String, trim: true, default: "" },
+            mobile: { type: String, trim: true, default: "" },
+            accountNumber: { type: String, trim: true, default: "" },
+            ifsc: { type: String, trim: true, uppercase: true, default: "" },
+            bank: { type: String, trim: true, default: "" },
+            upiId: { type: String, trim: true, default: "" },
+        },
+
+        // pending    → requested, waiting for admin approval
+        // approved   → approved, waiting for dispatch (or manual completion)
+        // rejected   → admin rejected before any money left
+        // processing → dispatched to the gateway, pending bank settlement
+        // success    → bank confirmed (callback / status check) or admin completed manually
+        // failed     → gateway/bank rejection
+        // returned   → returned by bank after initial credit
+        status: {
             type: String,
-            default: "",
+            enum: ["pending", "approved", "rejected", "processing", "success", "failed", "returned"],
+            default: "pending",
+            index: true,
+        },
+
+        // True when the amount was taken from the wallet at request time, so a
+        // rejection/failure gives it back and a success finalizes it. Payouts migrated
+        // from the old gateway flow never held funds.
+        walletHeld: { type: Boolean, default: false },
+
+        // Wallet credit for a rejected/failed/returned payout (models/PayoutReversal.ts)
+        reversalId: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: "PayoutReversal",
+            default: null,
+        },
+
+        adminComment: { type: String, default: "" },
+
+        // Admin who approved this payout (for audit trail)
+        approvedBy: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: "User",
+            default: null,
         },
-        processedAt: {
-            type: Date,
+        approvedAt: { type: Date, default: null },
+
+        // When the payout reached a final status
+        processedAt: { type: Date, default: null },
+
+        // UTR from the bank network (available on success)
+        utr: { type: String, default: "" },
+
+        // Gateway's latest message (dispatch response, callback, status check)
+        gatewayMessage: { type: String, default: "" },
+        gatewayUpdatedAt: { type: Date, default: null },
+
+        // Dispatch and status-poll tracking
+        initiatedAt: { type: Date, default: null },
+        retryCount: { type: Number, default: 0, min: 0 },
+
+        // Full raw callback body for audit
+        callbackPayload: { type: mongoose.Schema.Types.Mixed, default: null },
+
+        // Status check result from last poll
+        lastStatusCheck: { type: mongoose.Schema.Types.Mixed, default: null },
+        lastStatusCheckedAt: { type: Date, default: null },
+
+        // Set once the payout poller hands a stuck payout over to admins
+        escalatedAt: { type: Date, default: null },
+        escalationReason: { type: String, default: "" },
+
+        // Every status change (utils/payoutState.ts)
+        statusHistory: [
+            {
+                _id: false,
+                from: String,
+                to: String,
+                source: String,
+                at: { type: Date, default: Date.now },
+                rawRef: String,
+                note: String,
+            },
+        ],
+
+        // Where a migrated record came from
+        legacy: {
+            type: {
+                _id: false,
+                model: { type: String, enum: ["Payout", "GatewayPayout"] },
+                status: String,
+                migratedAt: Date,
+            },
             default: null,
         },
     },
-    { timestamps: true }
-);
+    {
+        timestamps: true, // createdAt, updatedAt
+        collection: "payouts",
+    }
+)
+
+// Admin queue and status polling
+payoutSchema.index({ status: 1, createdAt: -1 })
+payoutSchema.index({ userId: 1, createdAt: -1 })
 
-export default mongoose.models.Payout || mongoose.model("Payout", payoutSchema);
+export default mongoose.models.Payout || mongoose.model("Payout", payoutSchema)
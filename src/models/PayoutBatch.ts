@@ -0,0 +1,86 @@
+import mongoose from "mongoose"
+
+/**
+ * PayoutBatch — a merchant's bulk payout upload (CSV or JSON), one row per
+ * payout (see services/payoutBatches.ts).
+ *
+ * Every row is checked before anything is held: a batch with a bad row, or a
+ * total above the wallet balance, is saved as `invalid` with per-row errors
+ * and creates no payouts. Otherwise each row becomes a pending Payout
+ * (Payout.batchId) and the batch goes through admin review as a whole:
+ *
+ *   pending → approved → dispatching → dispatched
+ *           ↘ rejected (every payout rejected, holds released)
+ *
+ * Rows keep the uploaded values; the payouts' live status is joined in when
+ * results are downloaded.
+ */
+const payoutBatchRowSchema = new mongoose.Schema(
+    {
+        // 1-based line in the upload (excluding the CSV header)
+        row: { type: Number, required: true },
+        reference: { type: String, default: "" },
+        amount: { type: Number, default: null },
+        beneficiaryId: { type: mongoose.Schema.Types.ObjectId, ref: "Beneficiary", default: null },
+        // Uploaded values as given, for the results file
+        input: { type: mongoose.Schema.Types.Mixed, default: null },
+
+        // invalid → failed validation; valid → passed, payout not created yet
+        // created → payout created; failed → payout could not be created
+        status: { type: String, enum: ["invalid", "valid", "created", "failed"], required: true },
+        validationErrors: { type: [String], default: [] },
+
+        payoutId: { type: mongoose.Schema.Types.ObjectId, ref: "Payout", default: null },
+        orderid: { type: String, default: "" },
+        // Why the admin dispatch did not send this row (e.g. UPI rows are completed manually)
+        dispatchError: { type: String, default: "" },
+    },
+    { _id: false }
+)
+
+const payoutBatchSchema = new mongoose.Schema(
+    {
+        // Public id — "pbt_<timestamp><random>"
+        batchId: { type: String, required: true, unique: true, index: true },
+        userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true, index: true },
+        fileName: { type: String, default: "" },
+        format: { type: String, enum: ["csv", "json"], required: true },
+
+        status: {
+            type: String,
+            enum: ["invalid", "pending", "approved", "dispatching", "dispatched", "rejected"],
+            required: true,
+            index: true,
+        },
+        // Batch-level problems (e.g. total above wallet balance)
+        validationErrors: { type: [String], default: [] },
+
+        totals: {
+            rows: { type: Number, default: 0 },
+            valid: { type: Number, default: 0 },
+            invalid: { type: Number, default: 0 },
+            created: { type: Number, default: 0 },
+            failed: { type: Number, default: 0 },
+            amount: { type: Number, default: 0 },
+        },
+
+        rows: { type: [payoutBatchRowSchema], default: [] },
+
+        adminComment: { type: String, default: "" },
+        reviewedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+        reviewedAt: { type: Date, default: null },
+        dispatchedAt: { type: Date, default: null },
+        // Background dispatch lease: the running dispatch renews dispatchLeaseAt
+        // after every row; a lease gone stale means the run died and may be resumed
+        dispatchRunId: { type: String, default: "" },
+        dispatchLeaseAt: { type: Date, default: null },
+    },
+    {
+        timestamps: true,
+        collection: "payout_batches",
+    }
+)
+
+payoutBatchSchema.index({ userId: 1, createdAt: -1 })
+
+export default mongoose.models.PayoutBatch || mongoose.model("PayoutBatch", payoutBatchSchema)
@@ -0,0 +1,43 @@
+import mongoose from "mongoose"
+
+/**
+ * PayoutReversal — the wallet credit that gives a payout's held amount back
+ * when the payout ends rejected, failed or returned (services/payoutReversals.ts).
+ *
+ * At most one per payout (unique payoutId), linked from Payout.reversalId.
+ *   release — the hold is released before money left (payout_clearing → merchant_available)
+ *   return  — the bank sent a settled payout back (provider_clearing → merchant_available)
+ */
+const payoutReversalSchema = new mongoose.Schema(
+    {
+        reversalId: { type: String, required: true, unique: true },
+        payoutId: { type: mongoose.Schema.Types.ObjectId, ref: "Payout", required: true, unique: true },
+        userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true, index: true },
+        orderid: { type: String, required: true },
+        amount: { type: Number, required: true },
+        currency: { type: String, default: "INR" },
+
+        // Payout status that triggered the reversal
+        reason: { type: String, enum: ["rejected", "failed", "returned"], required: true },
+        kind: { type: String, enum: ["release", "return"], required: true },
+        // Who moved the payout there, e.g. "admin_review", "rezopay_callback", "payout_poller"
+        source: { type: String, default: "" },
+        note: { type: String, default: "" },
+
+        // pending until the ledger journal is posted; the payout poller retries pending ones
+        status: { type: String, enum: ["pending", "posted"], default: "pending", index: true },
+        journalKey: { type: String, required: true },
+        postedAt: { type: Date, default: null },
+        attempts: { type: Number, default: 0 },
+        lastError: { type: String, default: "" },
+
+        // User emailed about the credit
+        notifiedAt: { type: Date, default: null },
+    },
+    {
+        timestamps: true,
+        collection: "payout_reversals",
+    }
+)
+
+export default mongoose.models.PayoutReversal || mongoose.model("PayoutReversal", payoutReversalSchema)
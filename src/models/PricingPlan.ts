@@ -0,0 +1,72 @@
+import mongoose from "mongoose"
+
+/**
+ * PricingPlan — What the platform charges a merchant per completed pay-in.
+ *
+ * fee = amount × feePercent / 100 + flatFee   (clamped to minFee / maxFee)
+ * tax = fee × gstPercent / 100
+ * net = amount − fee − tax                    (credited to the merchant)
+ *
+ * Resolution for a transaction (services/fees.ts):
+ *   1. the most specific enabled override — provider + method, then provider,
+ *      then method — replaces the base feePercent / flatFee / slabs
+ *   2. inside the chosen rule, the first slab whose amount range contains the
+ *      transaction amount replaces feePercent / flatFee
+ *
+ * Merchants get a plan through User.pricingPlanId; otherwise the plan marked
+ * `isDefault` applies; with neither, PAYIN_FEE_PERCENT / PAYIN_FEE_GST_PERCENT.
+ *
+ * Example: 1.8% + ₹0, UPI 0% below ₹2,000, cards via Razorpay 2.2%
+ *   { feePercent: 1.8,
+ *     overrides: [
+ *       { method: "upi", slabs: [{ minAmount: 0, maxAmount: 2000, feePercent: 0 }], feePercent: 1.8 },
+ *       { provider: "razorpay", method: "card", feePercent: 2.2 } ] }
+ */
+const slabSchema = new mongoose.Schema(
+    {
+        minAmount: { type: Number, default: 0 },     // inclusive, INR
+        maxAmount: { type: Number, default: null },  // inclusive, INR (null = no upper bound)
+        feePercent: { type: Number, default: 0, min: 0 },
+        flatFee: { type: Number, default: 0, min: 0 },
+    },
+    { _id: false }
+)
+
+const overrideSchema = new mongoose.Schema(
+    {
+        provider: { type: String, default: null },   // "smepay" | "unpay" | "razorpay"
+        method: { type: String, default: null },     // "upi" | "card" | "netbanking" | "wallet" ...
+        feePercent: { type: Number, default: 0, min: 0 },
+        flatFee: { type: Number, default: 0, min: 0 },
+        slabs: { type: [slabSchema], default: [] },
+    },
+    { _id: false }
+)
+
+const pricingPlanSchema = new mongoose.Schema(
+    {
+        name: { type: String, required: true, trim: true },
+        description: { type: String, default: "" },
+        active: { type: Boolean, default: true },
+        // Applies to merchants without their own plan (only one plan should be default)
+        isDefault: { type: Boolean, default: false, index: true },
+
+        feePercent: { type: Number, default: 0, min: 0 },
+        flatFee: { type: Number, default: 0, min: 0 },
+        minFee: { type: Number, default: null },
+        maxFee: { type: Number, default: null },
+        gstPercent: { type: Number, default: 18, min: 0 },
+
+        slabs: { type: [slabSchema], default: [] },
+        overrides: { type: [overrideSchema], default: [] },
+
+        createdBy: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+        updatedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+    },
+    {
+        timestamps: true,
+        collection: "pricing_plans",
+    }
+)
+
+export default mongoose.models.PricingPlan || mongoose.model("PricingPlan", pricingPlanSchema)
@@ -0,0 +1,53 @@
+import mongoose from "mongoose"
+
+/**
+ * ProviderEvent — Every inbound provider webhook/callback, stored raw before
+ * it is processed (see services/providerEvents.ts).
+ *
+ * dedupeKey is "<source>:<provider event id>" when the provider sends one,
+ * else "<source>:sha256(<payload>)"; a repeat of a processed event is counted
+ * and skipped.
+ *
+ * processing → being applied
+ * processed  → applied; `outcome` says what happened
+ * failed     → processing threw; `error` holds why (retried on redelivery)
+ */
+const providerEventSchema = new mongoose.Schema(
+    {
+        provider: { type: String, required: true, index: true },
+        // Which inbound handler received it, e.g. "razorpay_webhook", "unpay_get_webhook"
+        source: { type: String, required: true },
+        dedupeKey: { type: String, required: true, unique: true },
+        eventId: { type: String, default: "" },
+        eventType: { type: String, default: "" },
+        orderId: { type: String, default: "", index: true },
+
+        headers: { type: mongoose.Schema.Types.Mixed, default: {} },
+        payload: { type: mongoose.Schema.Types.Mixed, default: null },
+        rawBody: { type: String, default: "" },
+        receivedAt: { type: Date, default: Date.now, index: true },
+
+        status: {
+            type: String,
+            enum: ["processing", "processed", "failed"],
+            default: "processing",
+            index: true,
+        },
+        outcome: { type: String, default: "" },
+        error: { type: String, default: "" },
+        processedAt: { type: Date, default: null },
+        processCount: { type: Number, default: 0 },
+
+        duplicateCount: { type: Number, default: 0 },
+        lastDuplicateAt: { type: Date, default: null },
+
+        reprocessedAt: { type: Date, default: null },
+        reprocessedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+    },
+    {
+        timestamps: true,
+        collection: "provider_events",
+    }
+)
+
+export default mongoose.models.ProviderEvent || mongoose.model("ProviderEvent", providerEventSchema)
@@ -0,0 +1,54 @@
+import mongoose from "mongoose"
+
+export const DISCREPANCY_TYPES = ["missing_internal", "missing_provider", "amount_mismatch", "status_mismatch"] as const
+
+export const RESOLUTION_ACTIONS = ["accept_provider", "flag_for_review", "link", "adjust_balance", "ignore"] as const
+
+/**
+ * ReconciliationItem — One discrepancy found by a ReconciliationRun.
+ *
+ * missing_internal → the provider reports a payment we have no transaction for
+ * missing_provider → a completed transaction the provider did not report
+ * amount_mismatch  → amounts differ between the report and the transaction
+ * status_mismatch  → the provider's outcome differs from the transaction status
+ */
+const reconciliationItemSchema = new mongoose.Schema(
+    {
+        runId: { type: mongoose.Schema.Types.ObjectId, ref: "ReconciliationRun", required: true, index: true },
+        type: { type: String, enum: DISCREPANCY_TYPES, required: true },
+
+        // 1-based line in the report (data rows only); null for missing_provider
+        rowNumber: { type: Number, default: null },
+        row: { type: mongoose.Schema.Types.Mixed, default: null },
+
+        transactionId: { type: mongoose.Schema.Types.ObjectId, ref: "Transaction", default: null },
+        orderId: { type: String, default: "" },
+        paymentId: { type: String, default: "" },
+        utr: { type: String, default: "" },
+
+        providerAmount: { type: Number, default: null },
+        internalAmount: { type: Number, default: null },
+        providerStatus: { type: String, default: "" },
+        internalStatus: { type: String, default: "" },
+
+        status: { type: String, enum: ["open", "resolved"], default: "open", index: true },
+        resolution: {
+            type: {
+                _id: false,
+                action: { type: String, enum: RESOLUTION_ACTIONS },
+                note: String,
+                resolvedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+                resolvedAt: Date,
+            },
+            default: null,
+        },
+    },
+    {
+        timestamps: true,
+        collection: "reconciliation_items",
+    }
+)
+
+reconciliationItemSchema.index({ runId: 1, type: 1, status: 1 })
+
+export default mongoose.models.ReconciliationItem || mongoose.model("ReconciliationItem", reconciliationItemSchema)
@@ -0,0 +1,39 @@
+import mongoose from "mongoose"
+
+/**
+ * ReconciliationRun — One uploaded provider report matched against our
+ * transactions (see services/reconciliation.ts). The discrepancies it found
+ * are ReconciliationItem documents.
+ */
+const reconciliationRunSchema = new mongoose.Schema(
+    {
+        // Public id — "rec_<timestamp><random>"
+        runId: { type: String, required: true, unique: true, index: true },
+        provider: { type: String, required: true, index: true },
+        fileName: { type: String, default: "" },
+        format: { type: String, enum: ["csv", "json"], required: true },
+
+        // Window checked for transactions the provider did not report
+        periodFrom: { type: Date, default: null },
+        periodTo: { type: Date, default: null },
+
+        totals: {
+            rows: { type: Number, default: 0 },
+            matched: { type: Number, default: 0 },
+            discrepancies: { type: Number, default: 0 },
+            open: { type: Number, default: 0 },
+            missingInternal: { type: Number, default: 0 },
+            missingProvider: { type: Number, default: 0 },
+            amountMismatch: { type: Number, default: 0 },
+            statusMismatch: { type: Number, default: 0 },
+        },
+
+        uploadedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+    },
+    {
+        timestamps: true,
+        collection: "reconciliation_runs",
+    }
+)
+
+export default mongoose.models.ReconciliationRun || mongoose.model("ReconciliationRun", reconciliationRunSchema)
@@ -0,0 +1,68 @@
+import mongoose from "mongoose"
+
+/**
+ * Refund — One record per refund against a completed pay-in Transaction.
+ *
+ * A transaction may have several partial refunds; each has its own lifecycle:
+ * pending → processed | failed
+ *
+ * pending   → created; sent to the gateway (api) or waiting for an admin (manual)
+ * processed → money returned to the payer
+ * failed    → gateway/admin rejected it; the reserved amount is released
+ */
+const refundSchema = new mongoose.Schema(
+    {
+        // Our public refund id — "rfnd_<timestamp><random>"
+        refundId: { type: String, required: true, unique: true, index: true },
+
+        transactionId: { type: mongoose.Schema.Types.ObjectId, ref: "Transaction", required: true, index: true },
+        orderId: { type: String, required: true, index: true },
+
+        // Merchant who owns the transaction
+        userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null, index: true },
+
+        amount: { type: Number, required: true, min: 0.01 },
+        currency: { type: String, default: "INR" },
+        reason: { type: String, default: "" },
+
+        status: {
+            type: String,
+            enum: ["pending", "processed", "failed"],
+            default: "pending",
+            index: true,
+        },
+
+        // api    → refunded through the provider's API
+        // manual → provider has no refund API; an admin processes it in the provider panel
+        mode: { type: String, enum: ["api", "manual"], required: true },
+
+        provider: { type: String, required: true },
+        providerRefundId: { type: String, default: "" },
+        providerResponse: { type: mongoose.Schema.Types.Mixed, default: null },
+        failureReason: { type: String, default: "" },
+
+        // Who asked for it
+        requestedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+        requestedVia: { type: String, enum: ["api_key", "jwt", "admin"], required: true },
+
+        processedAt: { type: Date, default: null },
+
+        // Lifecycle audit trail
+        history: [
+            {
+                _id: false,
+                status: String,
+                at: { type: Date, default: Date.now },
+                note: String,
+            },
+        ],
+    },
+    {
+        timestamps: true,
+        collection: "refunds",
+    }
+)
+
+refundSchema.index({ provider: 1, providerRefundId: 1 })
+
+export default mongoose.models.Refund || mongoose.model("Refund", refundSchema)
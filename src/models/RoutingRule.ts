@@ -0,0 +1,60 @@
+import mongoose from "mongoose"
+
+/**
+ * RoutingRule — Admin-managed pay-in routing table.
+ *
+ * Evaluated by /create-order when the merchant does not name a `provider`.
+ * Rules are checked in ascending `priority`; the first enabled rule whose
+ * conditions match picks a provider from `targets` (weighted random among the
+ * targets that are currently available). The picked provider heads the
+ * failover chain.
+ *
+ * Examples:
+ *   amount > ₹50,000 → Razorpay        { conditions: { minAmount: 50000.01 }, targets: [{ provider: "razorpay", weight: 1 }] }
+ *   70/30 UnPay/SMEPay split           { targets: [{ provider: "unpay", weight: 70 }, { provider: "smepay", weight: 30 }] }
+ *   merchant X always uses SMEPay      { conditions: { merchantIds: [X] }, targets: [{ provider: "smepay", weight: 1 }] }
+ */
+const routingRuleSchema = new mongoose.Schema(
+    {
+        name: { type: String, required: true, trim: true },
+        description: { type: String, default: "" },
+        enabled: { type: Boolean, default: true, index: true },
+
+        // Lower runs first
+        priority: { type: Number, default: 100 },
+
+        // All set conditions must match (unset = matches anything)
+        conditions: {
+            minAmount: { type: Number, default: null },   // inclusive, INR
+            maxAmount: { type: Number, default: null },   // inclusive, INR
+            merchantIds: [{ type: mongoose.Schema.Types.ObjectId, ref: "User" }],
+        },
+
+        targets: {
+            type: [
+                {
+                    _id: false,
+                    provider: { type: String, required: true, lowercase: true, trim: true },
+                    weight: { type: Number, required: true, min: 0 },
+                },
+            ],
+            validate: {
+                validator: (v: unknown[]) => Array.isArray(v) && v.length > 0,
+                message: "At least one target provider is required",
+            },
+        },
+
+        // Audit trail
+        createdBy: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+        updatedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+    },
+    {
+        timestamps: true,
+        collection: "routing_rules",
+    }
+)
+
+routingRuleSchema.index({ enabled: 1, priority: 1 })
+
+export default mongoose.models.RoutingRule ||
+    mongoose.model("RoutingRule", routingRuleSchema)
@@ -0,0 +1,76 @@
+import mongoose from "mongoose"
+
+/**
+ * Settlement — A batch of a merchant's completed, fee-deducted pay-ins that is
+ * paid out to the merchant's bank account together.
+ *
+ * Transactions join the batch for their release date (T+N, see
+ * services/walletCredit.ts) when they are captured. Lifecycle:
+ *
+ * scheduled  → collecting transactions; funds still on hold. A due batch the
+ *              available balance can't cover stays here and is retried at
+ *              nextAttemptAt
+ * processing → release date reached; the batch net is reserved from the
+ *              merchant's available balance and waits for the bank transfer
+ * paid       → an admin recorded the bank transfer (UTR)
+ * failed     → bank transfer failed; reserved funds are returned to the
+ *              merchant's available balance
+ */
+const settlementSchema = new mongoose.Schema(
+    {
+        // Public id — "stl_<timestamp><random>"
+        settlementId: { type: String, required: true, unique: true, index: true },
+        userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true, index: true },
+
+        // Day the batch's funds are released (start of day, server time)
+        cycleDate: { type: Date, required: true },
+
+        status: {
+            type: String,
+            enum: ["scheduled", "processing", "paid", "failed"],
+            default: "scheduled",
+            index: true,
+        },
+
+        transactionIds: [{ type: mongoose.Schema.Types.ObjectId, ref: "Transaction" }],
+        transactionCount: { type: Number, default: 0 },
+
+        // Totals of the batch's transactions (Transaction.pricing)
+        gross: { type: Number, default: 0 },
+        fee: { type: Number, default: 0 },
+        tax: { type: Number, default: 0 },
+        net: { type: Number, default: 0 },
+        currency: { type: String, default: "INR" },
+
+        // Bank transfer reference, set when paid
+        utr: { type: String, default: "" },
+        paidAt: { type: Date, default: null },
+        failureReason: { type: String, default: "" },
+
+        // Reservation retries while the available balance is short
+        reserveAttempts: { type: Number, default: 0 },
+        nextAttemptAt: { type: Date, default: null },
+        processedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+
+        history: [
+            {
+                _id: false,
+                status: String,
+                at: { type: Date, default: Date.now },
+                note: String,
+            },
+        ],
+    },
+    {
+        timestamps: true,
+        collection: "settlements",
+    }
+)
+
+// One open batch per merchant per cycle
+settlementSchema.index(
+    { userId: 1, cycleDate: 1 },
+    { unique: true, partialFilterExpression: { status: "scheduled" } }
+)
+
+export default mongoose.models.Settlement || mongoose.model("Settlement", settlementSchema)
@@ -26,7 +26,7 @@ const transactionSchema = new mongoose.Schema(
     },
     status: {
       type: String,
-      enum: ["pending", "completed", "failed", "refunded"],
+      enum: ["pending", "completed", "failed", "refunded", "expired"],
       default: "pending",
     },
     type: {
@@ -42,6 +42,110 @@ const transactionSchema = new mongoose.Schema(
     description: String,
     notes: mongoose.Schema.Types.Mixed,
     paymentMethod: String,
+    // Pay-in gateway that actually served this order (after failover)
+    provider: {
+      type: String,
+      default: null,
+    },
+    // Every provider tried for this order, in order, and why it was skipped
+    providerAttempts: [
+      {
+        _id: false,
+        provider: String,
+        outcome: { type: String, enum: ["success", "failed", "skipped", "timed_out"] },
+        reason: String,
+        latencyMs: Number,
+        attemptedAt: Date,
+      },
+    ],
+    // Admin routing rule that picked the lead provider (null = no rule matched / explicit provider)
+    routingRule: {
+      type: {
+        _id: false,
+        ruleId: { type: mongoose.Schema.Types.ObjectId, ref: "RoutingRule" },
+        name: String,
+        provider: String,
+      },
+      default: null,
+    },
+    // API key the order was created with (signs its merchant callbacks; null = JWT/dashboard)
+    apiKeyId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "ApiKey",
+      default: null,
+    },
+    // Unpaid orders move to "expired" after this (see utils/orderExpiry.ts)
+    expiresAt: {
+      type: Date,
+      default: null,
+      index: true,
+    },
+    expiredAt: {
+      type: Date,
+      default: null,
+    },
+    // Set when something needs an admin decision, e.g. a success that arrived after expiry
+    review: {
+      type: {
+        _id: false,
+        required: { type: Boolean, default: false },
+        reason: String,
+        source: String,
+        paymentId: String,
+        utr: String,
+        amount: Number,
+        payload: mongoose.Schema.Types.Mixed,
+        flaggedAt: Date,
+        resolvedAt: Date,
+        resolvedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+        resolution: { type: String, enum: ["accepted", "rejected", null] },
+        note: String,
+      },
+      default: null,
+    },
+    // Every status change, in order (written by utils/transactionState.ts)
+    statusHistory: [
+      {
+        _id: false,
+        from: String,
+        to: String,
+        source: String,
+        at: { type: Date, default: Date.now },
+        rawRef: String,
+        note: String,
+      },
+    ],
+    // Fee breakdown under the merchant's PricingPlan, set when the payment completes
+    // (gross = amount, net = gross − fee − tax)
+    pricing: {
+      type: {
+        _id: false,
+        gross: Number,
+        fee: Number,
+        tax: Number,
+        net: Number,
+        planId: { type: mongoose.Schema.Types.ObjectId, ref: "PricingPlan" },
+        planName: String,
+        rule: String,
+        calculatedAt: Date,
+      },
+      default: null,
+    },
+    // Merchant credit for this payment (services/walletCredit.ts) — null until captured
+    walletCredit: {
+      type: {
+        _id: false,
+        status: { type: String, enum: ["held", "releasing", "released"] },
+        net: Number,
+        delayDays: Number,
+        creditedAt: Date,
+        releaseAt: { type: Date, index: true },
+        releasedAt: Date,
+        // Settlement batch the payment is paid out in (models/Settlement.ts)
+        settlementId: { type: mongoose.Schema.Types.ObjectId, ref: "Settlement", default: null },
+      },
+      default: null,
+    },
     refundId: String,
     refundAmount: Number,
   },
@@ -63,7 +63,19 @@ const userSchema = new mongoose.Schema(
     city: { type: String, default: "" },
     state: { type: String, default: "" },
     pincode: { type: String, default: "" },
+    // Cached ledger balances (merchant_available / merchant_pending) — change only via services/ledger.ts
     walletBalance: { type: Number, default: 0 },
+    pendingBalance: { type: Number, default: 0 },
+    // T+N business days before captured funds become available. null = SETTLEMENT_DELAY_DAYS
+    settlementDelayDays: { type: Number, default: null },
+    // Pay released funds to the bank in settlement batches. Off = merchant withdraws through payouts
+    autoSettlement: { type: Boolean, default: false },
+    // Fees charged on pay-ins. null = default PricingPlan / PAYIN_FEE_PERCENT
+    pricingPlanId: { type: mongoose.Schema.Types.ObjectId, ref: "PricingPlan", default: null },
+    // Ordered pay-in failover chain, e.g. ["unpay", "smepay"]. Empty = platform default.
+    payinProviderChain: { type: [String], default: [] },
+    // Minutes before an unpaid order expires. null = platform default (ORDER_EXPIRY_MINUTES)
+    orderExpiryMinutes: { type: Number, default: null },
   },
   { timestamps: true }
 );
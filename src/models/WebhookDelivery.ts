@@ -0,0 +1,67 @@
+import mongoose from "mongoose"
+
+/**
+ * WebhookDelivery — One merchant callback (event + payload + URL) and every
+ * attempt made to deliver it (see services/webhookDelivery.ts).
+ *
+ * pending   → waiting for its next attempt at nextAttemptAt
+ * succeeded → the merchant answered 2xx
+ * dead      → retries ran out; the merchant was notified by email
+ */
+const webhookDeliverySchema = new mongoose.Schema(
+    {
+        // Public id — "whd_<timestamp><random>"
+        deliveryId: { type: String, required: true, unique: true, index: true },
+        userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null, index: true },
+        transactionId: { type: mongoose.Schema.Types.ObjectId, ref: "Transaction", default: null },
+        orderId: { type: String, default: "", index: true },
+        // Registered endpoint the delivery is for; null = per-order callbackUrl
+        endpointId: { type: mongoose.Schema.Types.ObjectId, ref: "WebhookEndpoint", default: null, index: true },
+        // Key whose secret signs a per-order callback (X-VersaiPay-Signature)
+        apiKeyId: { type: mongoose.Schema.Types.ObjectId, ref: "ApiKey", default: null },
+
+        event: { type: String, required: true },
+        url: { type: String, required: true },
+        payload: { type: mongoose.Schema.Types.Mixed, required: true },
+        // Set on manual replays: the delivery this one re-sends
+        replayOf: { type: mongoose.Schema.Types.ObjectId, ref: "WebhookDelivery", default: null },
+
+        status: {
+            type: String,
+            enum: ["pending", "succeeded", "dead"],
+            default: "pending",
+            index: true,
+        },
+        attemptCount: { type: Number, default: 0 },
+        maxAttempts: { type: Number, required: true },
+        // Also the worker's lease: claiming a delivery pushes this forward
+        nextAttemptAt: { type: Date, default: Date.now, index: true },
+        lastAttemptAt: { type: Date, default: null },
+        lastError: { type: String, default: "" },
+        deliveredAt: { type: Date, default: null },
+        deadAt: { type: Date, default: null },
+        merchantNotifiedAt: { type: Date, default: null },
+
+        attempts: [
+            {
+                _id: false,
+                number: Number,
+                at: Date,
+                requestHeaders: mongoose.Schema.Types.Mixed,
+                httpStatus: { type: Number, default: null },
+                latencyMs: Number,
+                responseHeaders: mongoose.Schema.Types.Mixed,
+                responseSnippet: String,
+                error: String,
+            },
+        ],
+    },
+    {
+        timestamps: true,
+        collection: "webhook_deliveries",
+    }
+)
+
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 })
+
+export default mongoose.models.WebhookDelivery || mongoose.model("WebhookDelivery", webhookDeliverySchema)
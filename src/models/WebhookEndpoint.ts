@@ -0,0 +1,27 @@
+import mongoose from "mongoose"
+
+/**
+ * WebhookEndpoint — A merchant-registered URL that receives the callback
+ * events it subscribes to (see utils/merchantCallback.ts).
+ *
+ * `events` holds event names or wildcards: "payment.success", "refund.*", "*".
+ * Deliveries are signed with the endpoint's own secret. A per-order
+ * `callbackUrl` overrides the merchant's endpoints for that order.
+ */
+const webhookEndpointSchema = new mongoose.Schema(
+    {
+        userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true, index: true },
+        url: { type: String, required: true },
+        description: { type: String, default: "" },
+        events: { type: [String], default: ["*"] },
+        // "whsec_<hex>" — signs X-VersaiPay-Signature for this endpoint
+        secret: { type: String, required: true },
+        enabled: { type: Boolean, default: true },
+    },
+    {
+        timestamps: true,
+        collection: "webhook_endpoints",
+    }
+)
+
+export default mongoose.models.WebhookEndpoint || mongoose.model("WebhookEndpoint", webhookEndpointSchema)
@@ -0,0 +1,145 @@
+/**
+ * Pay-in Provider Failover
+ * ========================
+ * Walks an ordered chain of providers and returns the first one that creates
+ * a payable order. A provider that errors, times out or is unavailable is
+ * skipped and the next one is tried. Every step is recorded so the Transaction
+ * can show who served it and why earlier gateways were passed over.
+ *
+ * Each call gets PAYIN_PROVIDER_TIMEOUT_MS (default 20s) through its abort
+ * signal; the adapters drop their own client timeouts when given one, so this
+ * is the only deadline. A call that hits it — or a client-side timeout from
+ * an adapter that has no signal — is recorded as "timed_out". Aborting only
+ * closes our connection: the gateway may still create its order, but the
+ * payer never receives that link or QR, only the next provider's.
+ */
+
+import type { PaymentProvider, ProviderOrderInput, ProviderOrderResult } from "./types"
+import { DEFAULT_PROVIDER_ORDER, getProvider, getUnavailableReason } from "./index"
+
+export interface ProviderAttempt {
+    provider: string
+    outcome: "success" | "failed" | "skipped" | "timed_out"
+    reason?: string
+    latencyMs?: number
+    attemptedAt: Date
+}
+
+export interface FailoverResult {
+    served: PaymentProvider | null
+    result: ProviderOrderResult | null
+    attempts: ProviderAttempt[]
+}
+
+function getProviderTimeoutMs(): number {
+    return Number(process.env.PAYIN_PROVIDER_TIMEOUT_MS) || 20000
+}
+
+/**
+ * Build the ordered chain for an order:
+ *   explicit provider (if any) → merchant's configured chain → default order.
+ * Unknown names are dropped, duplicates keep their first position.
+ */
+export function resolveProviderChain(
+    explicit: PaymentProvider | null,
+    merchantChain?: string[] | null
+): PaymentProvider[] {
+    const names = [
+        ...(explicit ? [explicit.name] : []),
+        ...(merchantChain && merchantChain.length > 0 ? merchantChain : DEFAULT_PROVIDER_ORDER),
+    ]
+
+    const chain: PaymentProvider[] = []
+    for (const name of names) {
+        const provider = getProvider(name)
+        if (provider && !chain.includes(provider)) chain.push(provider)
+    }
+    return chain
+}
+
+class ProviderTimeoutError extends Error {}
+
+const TIMEOUT_ERROR_CODES = ["ECONNABORTED", "ETIMEDOUT", "ERR_CANCELED"]
+
+/**
+ * Our deadline, or an HTTP client timeout (adapters wrap those as `cause`).
+ */
+function isTimeout(err: any): boolean {
+    if (err instanceof ProviderTimeoutError) return true
+    return TIMEOUT_ERROR_CODES.includes(err?.code) || TIMEOUT_ERROR_CODES.includes(err?.cause?.code)
+}
+
+/**
+ * Run a provider call with an AbortSignal that fires after `ms`. The race
+ * guards against adapters that ignore the signal.
+ */
+function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, ms: number, label: string): Promise<T> {
+    const controller = new AbortController()
+    let timer: NodeJS.Timeout
+    const timeout = new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => {
+            controller.abort()
+            reject(new ProviderTimeoutError(`${label} timed out after ${ms}ms`))
+        }, ms)
+    })
+    return Promise.race([run(controller.signal), timeout]).finally(() => clearTimeout(timer))
+}
+
+/**
+ * Try each provider in order until one returns a payable order
+ * (a payment link, or a checkout-based order).
+ */
+export async function createOrderWithFailover(
+    chain: PaymentProvider[],
+    input: ProviderOrderInput
+): Promise<FailoverResult> {
+    const attempts: ProviderAttempt[] = []
+    const timeoutMs = getProviderTimeoutMs()
+
+    for (const provider of chain) {
+        const unavailableReason = getUnavailableReason(provider)
+        if (unavailableReason) {
+            attempts.push({ provider: provider.name, outcome: "skipped", reason: unavailableReason, attemptedAt: new Date() })
+            continue
+        }
+
+        const startedAt = Date.now()
+        try {
+            const result = await withTimeout((signal) => provider.createOrder(input, { signal }), timeoutMs, provider.label)
+            const latencyMs = Date.now() - startedAt
+
+            if (!result.paymentLink && !result.checkout) {
+                console.warn(`[Failover] ${provider.label} returned no payment link for ${input.orderId} — trying next provider`)
+                attempts.push({ provider: provider.name, outcome: "failed", reason: "No payment link returned", latencyMs, attemptedAt: new Date() })
+                continue
+            }
+
+            attempts.push({ provider: provider.name, outcome: "success", latencyMs, attemptedAt: new Date() })
+            return { served: provider, result, attempts }
+        } catch (err: any) {
+            if (isTimeout(err)) {
+                console.warn(`[Failover] ${provider.label} timed out for ${input.orderId} — call aborted, trying next provider`)
+                attempts.push({
+                    provider: provider.name,
+                    outcome: "timed_out",
+                    reason: `${err.message} — abandoned; the gateway may still have created an order the payer never sees`,
+                    latencyMs: Date.now() - startedAt,
+                    attemptedAt: new Date(),
+                })
+                continue
+            }
+
+            const detail = err?.response?.data ? ": " + JSON.stringify(err.response.data) : ""
+            console.warn(`[Failover] ${provider.label} failed for ${input.orderId}: ${err.message}${detail} — trying next provider`)
+            attempts.push({
+                provider: provider.name,
+                outcome: "failed",
+                reason: err.message + detail,
+                latencyMs: Date.now() - startedAt,
+                attemptedAt: new Date(),
+            })
+        }
+    }
+
+    return { served: null, result: null, attempts }
+}
@@ -0,0 +1,85 @@
+/**
+ * Payment Provider Registry
+ * =========================
+ * Single place where pay-in gateways are registered. `/create-order` resolves
+ * the merchant's `provider` against this registry, so adding a gateway means
+ * writing an adapter and registering it here — the route stays untouched.
+ *
+ * A registered provider can be switched off without a deploy by listing it in
+ * PAYIN_PROVIDERS_DISABLED (comma-separated, e.g. "unpay,razorpay").
+ */
+
+import type { PaymentProvider, ProviderName, ProviderTransactionRef } from "./types"
+import { smepayProvider } from "./smepay"
+import { unpayProvider } from "./unpay"
+import { razorpayProvider } from "./razorpay"
+
+export * from "./types"
+export { createRazorpayOrder } from "./razorpay"
+
+const providers = new Map<string, PaymentProvider>()
+
+export function registerProvider(provider: PaymentProvider): void {
+    providers.set(provider.name, provider)
+}
+
+registerProvider(smepayProvider)
+registerProvider(unpayProvider)
+registerProvider(razorpayProvider)
+
+/**
+ * Order in which providers are tried when the merchant does not pick one.
+ */
+export const DEFAULT_PROVIDER_ORDER: ProviderName[] = ["smepay", "unpay", "razorpay"]
+
+/**
+ * Look up a provider by name (case-insensitive — frontends send "SMEPay", "UnPay", ...).
+ */
+export function getProvider(name: string | null | undefined): PaymentProvider | null {
+    if (!name) return null
+    return providers.get(name.toLowerCase()) || null
+}
+
+export function listProviders(): PaymentProvider[] {
+    return Array.from(providers.values())
+}
+
+function disabledByEnv(): Set<string> {
+    return new Set(
+        (process.env.PAYIN_PROVIDERS_DISABLED || "")
+            .split(",")
+            .map((p) => p.trim().toLowerCase())
+            .filter(Boolean)
+    )
+}
+
+/**
+ * Returns why a provider cannot take traffic right now, or null if it can.
+ */
+export function getUnavailableReason(provider: PaymentProvider): string | null {
+    if (disabledByEnv().has(provider.name)) {
+        return `${provider.label} is disabled (PAYIN_PROVIDERS_DISABLED)`
+    }
+    return provider.checkConfig()
+}
+
+export function isProviderAvailable(provider: PaymentProvider): boolean {
+    return getUnavailableReason(provider) === null
+}
+
+/**
+ * Work out which provider collected a stored Transaction.
+ * Uses Transaction.provider when set; older records (created before failover
+ * tracking) are inferred from the webhook/poll traces left in notes.
+ */
+export function getTransactionProvider(txn: ProviderTransactionRef & { provider?: string | null }): PaymentProvider | null {
+    if (txn.provider) return getProvider(txn.provider)
+
+    const notes = txn.notes || {}
+    if (notes.completed_via === "razorpay_webhook" || notes.razorpay_webhook_event) return getProvider("razorpay")
+    if (notes.smepay_webhook) return getProvider("smepay")
+    if (notes.webhook_response || notes.utr) return getProvider("unpay")
+    if (notes.smepay) return getProvider("smepay")
+    if (notes.unpay) return getProvider("unpay")
+    return getProvider("razorpay")
+}
@@ -0,0 +1,90 @@
+import razorpay from "../config/razorpay"
+import type { PaymentProvider } from "./types"
+
+/**
+ * Create the Razorpay order that doubles as our internal orderId.
+ *
+ * Every pay-in starts here regardless of which gateway collects the money:
+ * the order id is shared with SMEPay (metadata.razorpay_order_id) and UnPay
+ * (apitxnid), and the Razorpay poller/webhook key off it.
+ */
+export async function createRazorpayOrder(payload: {
+    amount: number
+    currency: string
+    receipt?: string
+    description?: string
+    notes?: Record<string, any>
+}): Promise<{ id: string; amount: number; currency: string }> {
+    return (razorpay as any).orders.create({
+        amount: Math.round(payload.amount * 100), // Convert to paise
+        currency: payload.currency,
+        receipt: payload.receipt || `receipt_${Date.now()}`,
+        description: payload.description,
+        notes: payload.notes,
+    })
+}
+
+export const razorpayProvider: PaymentProvider = {
+    name: "razorpay",
+    label: "Razorpay",
+    supportsRefunds: true,
+
+    checkConfig() {
+        if (!process.env.RAZORPAY_KEY_ID || !process.env.RAZORPAY_KEY_SECRET) {
+            return "Razorpay keys are missing — set RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET in .env"
+        }
+        return null
+    },
+
+    // NOTE: Razorpay should NOT use payment links or QR - only order + checkout.
+    // The order already exists (createRazorpayOrder); the client opens checkout
+    // with order_id + key_id from the create-order response.
+    async createOrder() {
+        return { paymentLink: null, raw: null, checkout: true }
+    },
+
+    async fetchStatus(txn) {
+        const order: any = await (razorpay as any).orders.fetch(txn.orderId)
+
+        // Razorpay order statuses: "created" | "attempted" | "paid"
+        return {
+            status: order?.status === "paid" ? "completed" : "pending",
+            amount: order?.amount_paid !== undefined ? order.amount_paid / 100 : undefined,
+            raw: order,
+        }
+    },
+
+    parseWebhook(event) {
+        const payment = event?.payload?.payment?.entity
+        if (!payment?.order_id) return null
+
+        let status: "pending" | "completed" | "failed" = "pending"
+        if (event.event === "payment.captured" || event.event === "order.paid") {
+            status = "completed"
+        } else if (event.event === "payment.failed") {
+            status = "failed"
+        }
+
+        return {
+            orderId: payment.order_id,
+            status,
+            paymentId: payment.id || "",
+            amount: (payment.amount || 0) / 100, // paise → INR
+            message: payment.error_description || undefined,
+            raw: event,
+        }
+    },
+
+    async refund(input) {
+        const refund: any = await (razorpay as any).payments.refund(input.paymentId, {
+            amount: Math.round(input.amount * 100), // Convert to paise
+            notes: { ...(input.notes || {}), order_id: input.orderId },
+        })
+
+        return {
+            refundId: refund.id,
+            status: refund.status === "processed" ? "processed" : refund.status === "failed" ? "failed" : "pending",
+            raw: refund,
+        }
+    },
+}
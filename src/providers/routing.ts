@@ -0,0 +1,80 @@
+/**
+ * Pay-in Routing Rules
+ * ====================
+ * Evaluates the admin-managed RoutingRule table for an order and picks the
+ * provider that should head the failover chain. Only used when the merchant
+ * did not name a provider explicitly.
+ */
+
+import RoutingRule from "../models/RoutingRule"
+import type { PaymentProvider } from "./types"
+import { getProvider, isProviderAvailable } from "./index"
+
+export interface RoutingContext {
+    amount: number
+    userId?: string | null
+}
+
+export interface RoutingDecision {
+    ruleId: string
+    ruleName: string
+    provider: PaymentProvider
+}
+
+function ruleMatches(rule: any, ctx: RoutingContext): boolean {
+    const { minAmount, maxAmount, merchantIds } = rule.conditions || {}
+
+    if (minAmount !== null && minAmount !== undefined && ctx.amount < minAmount) return false
+    if (maxAmount !== null && maxAmount !== undefined && ctx.amount > maxAmount) return false
+
+    if (Array.isArray(merchantIds) && merchantIds.length > 0) {
+        if (!ctx.userId) return false
+        if (!merchantIds.some((id: any) => String(id) === String(ctx.userId))) return false
+    }
+
+    return true
+}
+
+/**
+ * Weighted random pick among targets whose provider is registered and available.
+ */
+function pickTarget(targets: { provider: string; weight: number }[]): PaymentProvider | null {
+    const candidates = targets
+        .map((t) => ({ provider: getProvider(t.provider), weight: t.weight }))
+        .filter((c): c is { provider: PaymentProvider; weight: number } =>
+            !!c.provider && c.weight > 0 && isProviderAvailable(c.provider)
+        )
+
+    const total = candidates.reduce((sum, c) => sum + c.weight, 0)
+    if (total <= 0) return null
+
+    let roll = Math.random() * total
+    for (const c of candidates) {
+        roll -= c.weight
+        if (roll < 0) return c.provider
+    }
+    return candidates[candidates.length - 1].provider
+}
+
+/**
+ * Returns the first matching rule's pick, or null when no rule applies
+ * (the caller then falls back to the merchant chain / default order).
+ */
+export async function evaluateRoutingRules(ctx: RoutingContext): Promise<RoutingDecision | null> {
+    const rules = await RoutingRule.find({ enabled: true }).sort({ priority: 1, createdAt: 1 }).lean() as any[]
+
+    for (const rule of rules) {
+        if (!ruleMatches(rule, ctx)) continue
+
+        const provider = pickTarget(rule.targets || [])
+        if (!provider) {
+            console.warn(`[Routing] Rule '${rule.name}' matched but none of its targets are available — checking next rule`)
+            continue
+        }
+
+        console.log(`[Routing] Rule '${rule.name}' (${rule._id}) → ${provider.name} for amount=${ctx.amount}`)
+        return { ruleId: String(rule._id), ruleName: rule.name, provider }
+    }
+
+    return null
+}
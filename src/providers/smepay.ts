@@ -0,0 +1,98 @@
+import crypto from "crypto"
+import { SMEPAY_CLIENT_ID, SMEPAY_CLIENT_SECRET, SMEPAY_WEBHOOK_SECRET } from "../config/smepay"
+import { createSmepayTransaction, checkSmepayOrderStatus } from "../services/smepay"
+import type { PaymentProvider, ProviderPaymentStatus } from "./types"
+
+/**
+ * Map SMEPay's payment_status / status strings to our internal status.
+ * Observed values: "SUCCESS", "COMPLETED", "PAID", "FAILED", "CREATED", "PENDING".
+ */
+export function mapSmepayStatus(raw: string | undefined | null): ProviderPaymentStatus {
+    const statusUpper = String(raw || "").toUpperCase()
+    if (statusUpper === "SUCCESS" || statusUpper === "COMPLETED" || statusUpper === "PAID") return "completed"
+    if (statusUpper === "FAILED") return "failed"
+    return "pending"
+}
+
+/**
+ * Check an SMEPay callback signature: hex HMAC-SHA256 of the raw body with
+ * SMEPAY_WEBHOOK_SECRET, optionally prefixed "sha256=".
+ *
+ *   "unsigned" — no secret configured, so there is nothing to check
+ *   "missing"  — a secret is configured but the callback carries no signature
+ */
+export function verifySmepaySignature(rawBody: string, signature: string | undefined): "valid" | "invalid" | "missing" | "unsigned" {
+    if (!SMEPAY_WEBHOOK_SECRET) return "unsigned"
+    if (!signature) return "missing"
+
+    const expected = crypto.createHmac("sha256", SMEPAY_WEBHOOK_SECRET).update(rawBody).digest("hex")
+    const received = signature.trim().replace(/^sha256=/i, "").toLowerCase()
+    if (received.length !== expected.length) return "invalid"
+    return crypto.timingSafeEqual(Buffer.from(received), Buffer.from(expected)) ? "valid" : "invalid"
+}
+
+export const smepayProvider: PaymentProvider = {
+    name: "smepay",
+    label: "SMEPay",
+    supportsRefunds: false,
+
+    checkConfig() {
+        if (!SMEPAY_CLIENT_ID || !SMEPAY_CLIENT_SECRET) {
+            return "SMEPay credentials are missing — set SMEPAY_CLIENT_ID, SMEPAY_CLIENT_SECRET in .env"
+        }
+        return null
+    },
+
+    async createOrder(input, options) {
+        const smepayResp = await createSmepayTransaction({
+            amount: input.amount,
+            currency: input.currency,
+            description: input.description,
+            customer: input.customer,
+            metadata: { razorpay_order_id: input.orderId },
+        }, { signal: options?.signal })
+
+        // SMEPay: use ONLY payment_url — the official gateway link
+        const paymentUrl = smepayResp?.payment_url
+        return {
+            paymentLink: paymentUrl && typeof paymentUrl === "string" ? paymentUrl : null,
+            raw: smepayResp,
+        }
+    },
+
+    async fetchStatus(txn) {
+        const slug = txn.notes?.smepay?.order_slug || txn.notes?.smepay?.slug
+        if (!slug) {
+            throw new Error(`No SMEPay order slug stored for ${txn.orderId}`)
+        }
+
+        const result = await checkSmepayOrderStatus({ slug, amount: txn.amount })
+        return {
+            status: mapSmepayStatus(result.payment_status),
+            paymentId: result.order_id || undefined,
+            utr: result.utr || undefined,
+            raw: result.raw,
+        }
+    },
+
+    parseWebhook(payload) {
+        // ref_id is our internal orderId ("order_..."), order_id is SMEPay's own id ("THF...")
+        const { order_id, ref_id, status, payment_status, amount } = payload
+        const orderId = ref_id || payload.metadata?.razorpay_order_id
+        if (!orderId) return null
+
+        return {
+            orderId,
+            status: mapSmepayStatus(status || payment_status),
+            paymentId: order_id || "",
+            utr: payload.utr || undefined,
+            amount: amount !== undefined ? Number(amount) : undefined,
+            message: payload.message,
+            raw: payload,
+        }
+    },
+
+    async refund() {
+        throw new Error("SMEPay does not support API refunds — process the refund in the SMEPay dashboard")
+    },
+}
@@ -0,0 +1,101 @@
+/**
+ * Payment Provider Contract
+ * =========================
+ * Every pay-in gateway (SMEPay, UnPay, Razorpay, ...) is wrapped in an adapter
+ * that implements `PaymentProvider`. Routes and background jobs only talk to
+ * this interface — provider quirks (response shapes, status codes, slugs)
+ * stay inside the adapter.
+ */
+
+export type ProviderName = "smepay" | "unpay" | "razorpay"
+
+// Normalized payment status — matches Transaction.status values
+export type ProviderPaymentStatus = "pending" | "completed" | "failed"
+
+export interface ProviderOrderInput {
+    orderId: string        // Our internal orderId (the Razorpay order id)
+    amount: number         // Amount in INR
+    currency: string
+    description?: string
+    customer: { name?: string; email?: string; phone?: string }
+    notes?: Record<string, any>
+}
+
+export interface ProviderOrderResult {
+    paymentLink: string | null   // UPI intent or official hosted gateway link (never a frontend URL)
+    raw: any                     // Provider response — persisted as notes.<provider>, null to skip
+    checkout?: boolean           // Payable via the gateway's own checkout (no link needed)
+}
+
+export interface ProviderCallOptions {
+    signal?: AbortSignal   // Aborted when the caller gives up (failover timeout)
+}
+
+export interface ProviderStatusResult {
+    status: ProviderPaymentStatus
+    paymentId?: string
+    utr?: string
+    amount?: number
+    raw: any
+}
+
+export interface ProviderWebhookEvent {
+    orderId: string
+    status: ProviderPaymentStatus
+    paymentId: string
+    utr?: string
+    amount?: number
+    message?: string
+    raw: any
+}
+
+export interface ProviderRefundInput {
+    orderId: string
+    paymentId: string
+    amount: number         // Amount in INR
+    notes?: Record<string, any>
+}
+
+export interface ProviderRefundResult {
+    refundId: string
+    status: "pending" | "processed" | "failed"
+    raw: any
+}
+
+/**
+ * Minimal view of a stored Transaction that adapters need for lookups.
+ */
+export interface ProviderTransactionRef {
+    orderId: string
+    amount: number
+    paymentId?: string
+    notes?: Record<string, any>
+}
+
+export interface PaymentProvider {
+    readonly name: ProviderName
+    readonly label: string   // Human-readable name used in error messages
+    readonly supportsRefunds: boolean  // false → refunds are processed manually in the provider panel
+
+    /**
+     * Returns a message describing missing configuration, or null when the
+     * provider has everything it needs to take traffic.
+     */
+    checkConfig(): string | null
+
+    /**
+     * Must pass `options.signal` to its HTTP call, and let it replace any
+     * fixed client timeout, so the failover deadline is the only one that
+     * applies. Aborting only closes our side of the request.
+     */
+    createOrder(input: ProviderOrderInput, options?: ProviderCallOptions): Promise<ProviderOrderResult>
+    fetchStatus(txn: ProviderTransactionRef): Promise<ProviderStatusResult>
+
+    /**
+     * Normalize an inbound webhook/callback payload (already decoded/decrypted).
+     * Returns null when the payload cannot be matched to an order.
+     */
+    parseWebhook(payload: Record<string, any>): ProviderWebhookEvent | null
+
+    refund(input: ProviderRefundInput): Promise<ProviderRefundResult>
+}
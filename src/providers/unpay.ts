@@ -0,0 +1,87 @@
+import { createUnpayDynamicQR, checkUnpayOrderStatus } from "../services/unpay"
+import type { PaymentProvider, ProviderPaymentStatus } from "./types"
+
+// UnPay statuscodes that mean the payment will never succeed
+const UNPAY_FAILURE_CODES = ["ERR", "FAL", "REF", "FAIL", "TXF"]
+
+/**
+ * Map an UnPay statuscode (+ optional inner status) to our internal status.
+ * "TXN" = success unless the inner status explicitly says otherwise.
+ */
+export function mapUnpayStatus(statuscode: string | undefined, status?: string): ProviderPaymentStatus {
+    if (statuscode === "TXN") {
+        if (status && status.toLowerCase() === "failed") return "failed"
+        if (!status || status.toLowerCase() === "success") return "completed"
+        return "pending"
+    }
+    if (statuscode && UNPAY_FAILURE_CODES.includes(statuscode)) return "failed"
+    return "pending"
+}
+
+export const unpayProvider: PaymentProvider = {
+    name: "unpay",
+    label: "UnPay",
+    supportsRefunds: false,
+
+    // Enable UnPay if credentials are present (don't depend on NODE_ENV)
+    checkConfig() {
+        const hasUnpayCredentials = !!(process.env.UNPAY_PARTNER_ID && process.env.UNPAY_API_KEY && process.env.UNPAY_AES_KEY)
+        const forceEnableUnpay = process.env.UNPAY_ENABLED === "true"
+        if (!hasUnpayCredentials && !forceEnableUnpay) {
+            return "UnPay credentials are missing — set UNPAY_PARTNER_ID, UNPAY_API_KEY, UNPAY_AES_KEY in .env"
+        }
+        return null
+    },
+
+    async createOrder(input, options) {
+        const unpayResp = await createUnpayDynamicQR({
+            amount: input.amount,
+            apitxnid: input.orderId,
+            webhook: process.env.UNPAY_WEBHOOK_URL,
+        }, { signal: options?.signal })
+
+        // Dynamic QR: qrString may be nested under .data
+        const qrString = unpayResp?.data?.qrString || unpayResp?.qrString || null
+        return {
+            paymentLink: qrString && typeof qrString === "string" ? qrString : null,
+            raw: unpayResp,
+        }
+    },
+
+    async fetchStatus(txn) {
+        const result = await checkUnpayOrderStatus(txn.orderId)
+        if (result.statuscode === "PERMISSION_DENIED") {
+            throw new Error("UnPay order status API returned Permission Not Allowed")
+        }
+
+        // Only trust "TXN" here — other codes on the status API describe the
+        // query itself (e.g. order not visible yet), not the payment.
+        return {
+            status: result.statuscode === "TXN" ? mapUnpayStatus("TXN", result.status) : "pending",
+            paymentId: result.txnid || undefined,
+            utr: result.utr || undefined,
+            amount: result.amount !== undefined ? Number(result.amount) : undefined,
+            raw: result,
+        }
+    },
+
+    parseWebhook(payload) {
+        // apitxnid = our orderId (set when creating the QR), txnid = UnPay's id
+        const orderId = payload.apitxnid
+        if (!orderId) return null
+
+        return {
+            orderId,
+            status: mapUnpayStatus(payload.statuscode),
+            paymentId: payload.txnid || orderId,
+            utr: payload.utr || "",
+            amount: payload.amount !== undefined ? Number(payload.amount) : undefined,
+            message: payload.message || "",
+            raw: payload,
+        }
+    },
+
+    async refund() {
+        throw new Error("UnPay does not support API refunds — process the refund in the UnPay panel")
+    },
+}
@@ -1,8 +1,19 @@
 import express, { Request, Response } from "express"
+import mongoose from "mongoose"
 import authMiddleware from "../middleware/authMiddleware"
 import isAdmin from "../middleware/isAdmin"
 import User from "../models/User"
 import Transaction from "../models/Transaction"
+import Refund from "../models/Refund"
+import LedgerEntry from "../models/LedgerEntry"
+import { applyRefundStatus } from "../services/refunds"
+import { rebuildCachedBalances, recordAdjustment } from "../services/ledger"
+import { MAX_SETTLEMENT_DELAY_DAYS, isValidSettlementDelay } from "../services/walletCredit"
+import { getProvider, listProviders } from "../providers"
+import { isValidExpiryMinutes } from "../utils/orderExpiry"
+import { transitionTransaction } from "../utils/transactionState"
+import { sseManager } from "../utils/sse"
+import { fireMerchantCallback, getMerchantCallbackUrl } from "../utils/merchantCallback"
 
 const router = express.Router()
 
@@ -37,7 +48,7 @@ router.get("/users", authMiddleware, isAdmin, async (req: Request, res: Response
 // GET transactions (admin only)
 router.get("/transactions", authMiddleware, isAdmin, async (req: Request, res: Response) => {
   try {
-    const { page = "1", limit = "50", q = "", status = "", type = "", dateFrom, dateTo } = req.query as any
+    const { page = "1", limit = "50", q = "", status = "", type = "", review = "", dateFrom, dateTo } = req.query as any
     const pageNum = Math.max(1, parseInt(page, 10) || 1)
     const lim = Math.max(1, parseInt(limit, 10) || 50)
 
@@ -53,6 +64,8 @@ router.get("/transactions", authMiddleware, isAdmin, async (req: Request, res: R
 
     if (status) filter.status = status
     if (type) filter.type = type
+    // review=open → late payments etc. waiting for an admin decision
+    if (review === "open") filter["review.required"] = true
 
     if (dateFrom || dateTo) {
       filter.createdAt = {}
@@ -124,8 +137,21 @@ router.get("/transactions-export", authMiddleware, isAdmin, async (req: Request,
     const txns = await Transaction.find(filter).sort({ createdAt: -1 }).lean()
 
     // Build CSV
-    const header = ["orderId", "paymentId", "amount", "currency", "status", "customerName", "customerEmail", "createdAt"]
-    const rows = txns.map((t: any) => [t.orderId, t.paymentId, t.amount, t.currency, t.status, t.customer?.name || "", t.customer?.email || "", t.createdAt?.toISOString() || ""])
+    const header = ["orderId", "paymentId", "amount", "fee", "tax", "netAmount", "pricingPlan", "currency", "status", "customerName", "customerEmail", "createdAt"]
+    const rows = txns.map((t: any) => [
+      t.orderId,
+      t.paymentId,
+      t.amount,
+      t.pricing?.fee ?? "",
+      t.pricing?.tax ?? "",
+      t.pricing?.net ?? "",
+      t.pricing?.planName || "",
+      t.currency,
+      t.status,
+      t.customer?.name || "",
+      t.customer?.email || "",
+      t.createdAt?.toISOString() || "",
+    ])
 
     const csv = [header.join(","), ...rows.map((r) => r.map((c) => `"${String(c).replace(/"/g, '""')}"`).join(","))].join("\n")
 
@@ -151,6 +177,13 @@ router.get("/overview", authMiddleware, isAdmin, async (req: Request, res: Respo
     const successCount = await Transaction.countDocuments({ status: "completed" })
     const failedCount = await Transaction.countDocuments({ status: "failed" })
 
+    // Fees earned on priced (completed) payments
+    const feesAgg = await Transaction.aggregate([
+      { $match: { pricing: { $ne: null } } },
+      { $group: { _id: null, fees: { $sum: "$pricing.fee" }, tax: { $sum: "$pricing.tax" }, net: { $sum: "$pricing.net" } } },
+    ])
+    const fees = feesAgg[0] || { fees: 0, tax: 0, net: 0 }
+
     // last 7 days series
     const days = 7
     const end = new Date()
@@ -176,6 +209,9 @@ router.get("/overview", authMiddleware, isAdmin, async (req: Request, res: Respo
         totalCount: total.count || 0,
         successCount,
         failedCount,
+        totalFees: fees.fees || 0,
+        totalTax: fees.tax || 0,
+        totalNet: fees.net || 0,
         series,
       },
     })
@@ -281,4 +317,327 @@ router.patch("/users/:id", authMiddleware, isAdmin, async (req: Request, res: Re
   }
 })
 
+// POST resolve a transaction flagged for review - admin only
+// Body: { resolution: "accept" | "reject", note? }
+// accept → late payment on an expired order is honoured (expired → completed);
+//          an unconfirmed provider success on a pending/failed order is completed too
+// reject → order keeps its status; the payer is refunded outside the platform
+router.post("/transactions/:id/review", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+  try {
+    const { resolution, note = "" } = req.body as { resolution?: string; note?: string }
+    if (resolution !== "accept" && resolution !== "reject") {
+      return res.status(400).json({ success: false, message: "resolution must be 'accept' or 'reject'" })
+    }
+
+    const tx: any = await Transaction.findById(req.params.id)
+    if (!tx) return res.status(404).json({ success: false, message: "Transaction not found" })
+    if (!tx.review?.required) {
+      return res.status(409).json({ success: false, message: "Transaction is not awaiting review" })
+    }
+
+    const $set: Record<string, any> = {
+      "review.required": false,
+      "review.resolvedAt": new Date(),
+      "review.resolvedBy": (req as any).user?.id,
+      "review.resolution": resolution === "accept" ? "accepted" : "rejected",
+      "review.note": note,
+      updatedAt: new Date(),
+    }
+
+    // Guard on review.required so two admins cannot resolve the same flag twice
+    let updated: any = await Transaction.findOneAndUpdate(
+      { _id: tx._id, "review.required": true },
+      { $set },
+      { new: true }
+    )
+    if (!updated) {
+      return res.status(409).json({ success: false, message: "Transaction was already resolved" })
+    }
+
+    const completable = ["expired", "pending", "failed"].includes(tx.status)
+    if (resolution === "accept" && completable) {
+      const result = await transitionTransaction({ _id: tx._id }, {
+        to: "completed",
+        source: "admin_review",
+        note,
+        set: {
+          paymentId: tx.review.paymentId || tx.paymentId,
+          "notes.utr": tx.review.utr || tx.notes?.utr || "",
+          "notes.completed_via": "admin_review",
+        },
+      })
+      if (result.txn) updated = result.txn
+    }
+
+    if (updated.status === "completed" && completable) {
+      sseManager.broadcast(updated.orderId, {
+        type: "payment_success",
+        orderId: updated.orderId,
+        status: "completed",
+        paymentId: updated.paymentId,
+        source: "admin_review",
+      })
+
+      const callbackUrl = await getMerchantCallbackUrl(updated.orderId)
+      fireMerchantCallback(callbackUrl, {
+        event: "payment.success",
+        orderId: updated.orderId,
+        paymentId: updated.paymentId || "",
+        amount: updated.amount,
+        currency: updated.currency || "INR",
+        status: "completed",
+        message: tx.status === "expired" ? "Late payment accepted after review" : "Payment accepted after review",
+        timestamp: new Date().toISOString(),
+        utr: updated.notes?.utr || undefined,
+      }).catch(() => { })
+    }
+
+    res.json({ success: true, data: updated })
+  } catch (error: any) {
+    res.status(500).json({ success: false, message: error.message })
+  }
+})
+
+// PUT merchant order expiry - admin only
+// Body: { minutes: 15 } — null resets to platform default (ORDER_EXPIRY_MINUTES)
+router.put("/users/:id/order-expiry", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+  try {
+    const { minutes } = req.body as { minutes?: number | null }
+
+    if (minutes !== null && !isValidExpiryMinutes(minutes)) {
+      return res.status(400).json({ success: false, message: "minutes must be a number between 1 and 10080, or null" })
+    }
+
+    const user = await User.findByIdAndUpdate(
+      req.params.id,
+      { $set: { orderExpiryMinutes: minutes } },
+      { new: true }
+    ).select("-password -otp")
+
+    if (!user) {
+      return res.status(404).json({ success: false, message: "User not found" })
+    }
+
+    res.json({ success: true, data: { userId: user._id, orderExpiryMinutes: user.orderExpiryMinutes } })
+  } catch (error: any) {
+    res.status(500).json({ success: false, message: error.message })
+  }
+})
+
+// PUT merchant auto-settlement - admin only
+// Body: { enabled: true } — released funds are paid to the bank in settlement batches
+// instead of being withdrawn through payouts
+router.put("/users/:id/auto-settlement", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+  try {
+    const { enabled } = req.body as { enabled?: boolean }
+
+    if (typeof enabled !== "boolean") {
+      return res.status(400).json({ success: false, message: "enabled must be true or false" })
+    }
+
+    const user = await User.findByIdAndUpdate(
+      req.params.id,
+      { $set: { autoSettlement: enabled } },
+      { new: true }
+    ).select("-password -otp")
+
+    if (!user) {
+      return res.status(404).json({ success: false, message: "User not found" })
+    }
+
+    res.json({ success: true, data: { userId: user._id, autoSettlement: user.autoSettlement } })
+  } catch (error: any) {
+    res.status(500).json({ success: false, message: error.message })
+  }
+})
+
+// PUT merchant settlement delay (T+N business days) - admin only
+// Body: { days: 1 } — null resets to platform default (SETTLEMENT_DELAY_DAYS)
+router.put("/users/:id/settlement-delay", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+  try {
+    const { days } = req.body as { days?: number | null }
+
+    if (days !== null && !isValidSettlementDelay(days)) {
+      return res.status(400).json({ success: false, message: `days must be an integer between 0 and ${MAX_SETTLEMENT_DELAY_DAYS}, or null` })
+    }
+
+    const user = await User.findByIdAndUpdate(
+      req.params.id,
+      { $set: { settlementDelayDays: days } },
+      { new: true }
+    ).select("-password -otp")
+
+    if (!user) {
+      return res.status(404).json({ success: false, message: "User not found" })
+    }
+
+    res.json({ success: true, data: { userId: user._id, settlementDelayDays: user.settlementDelayDays } })
+  } catch (error: any) {
+    res.status(500).json({ success: false, message: error.message })
+  }
+})
+
+// PUT merchant pay-in failover chain - admin only
+// Body: { providers: ["unpay", "smepay"] } — empty array resets to platform default
+router.put("/users/:id/payin-providers", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+  try {
+    const { providers } = req.body as { providers?: unknown }
+
+    if (!Array.isArray(providers)) {
+      return res.status(400).json({ success: false, message: "providers must be an array of provider names" })
+    }
+
+    const chain: string[] = []
+    for (const name of providers) {
+      const provider = getProvider(String(name))
+      if (!provider) {
+        return res.status(400).json({
+          success: false,
+          message: `Unknown provider '${name}'. Supported: ${listProviders().map((p) => p.name).join(", ")}`,
+        })
+      }
+      if (!chain.includes(provider.name)) chain.push(provider.name)
+    }
+
+    const user = await User.findByIdAndUpdate(
+      req.params.id,
+      { $set: { payinProviderChain: chain } },
+      { new: true }
+    ).select("-password -otp")
+
+    if (!user) {
+      return res.status(404).json({ success: false, message: "User not found" })
+    }
+
+    res.json({ success: true, data: { userId: user._id, payinProviderChain: user.payinProviderChain } })
+  } catch (error: any) {
+    res.status(500).json({ success: false, message: error.message })
+  }
+})
+
+// GET refunds (admin only) — ?status=pending&mode=manual&page=1&limit=50
+router.get("/refunds", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+  try {
+    const { page = "1", limit = "50", status = "", mode = "", orderId = "" } = req.query as any
+    const pageNum = Math.max(1, parseInt(page, 10) || 1)
+    const lim = Math.max(1, parseInt(limit, 10) || 50)
+
+    const filter: any = {}
+    if (status) filter.status = status
+    if (mode) filter.mode = mode
+    if (orderId) filter.orderId = orderId
+
+    const total = await Refund.countDocuments(filter)
+    const refunds = await Refund.find(filter)
+      .sort({ createdAt: -1 })
+      .skip((pageNum - 1) * lim)
+      .limit(lim)
+      .populate("userId", "name email")
+      .lean()
+
+    res.json({ success: true, data: { refunds, total, page: pageNum, limit: lim } })
+  } catch (error: any) {
+    res.status(500).json({ success: false, message: error.message })
+  }
+})
+
+// POST settle a pending refund by hand (providers without a refund API) - admin only
+// Body: { status: "processed" | "failed", providerRefundId?, note? }
+router.post("/refunds/:refundId/status", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+  try {
+    const { status, providerRefundId, note } = req.body as { status?: string; providerRefundId?: string; note?: string }
+
+    if (status !== "processed" && status !== "failed") {
+      return res.status(400).json({ success: false, message: "status must be 'processed' or 'failed'" })
+    }
+
+    const existing = await Refund.findOne({ refundId: req.params.refundId })
+    if (!existing) {
+      return res.status(404).json({ success: false, message: "Refund not found" })
+    }
+    if (existing.status !== "pending") {
+      return res.status(409).json({ success: false, message: `Refund is already ${existing.status}` })
+    }
+
+    const refund = await applyRefundStatus(existing.refundId, status, {
+      providerRefundId,
+      failureReason: status === "failed" ? note || "Rejected by admin" : undefined,
+      note: note || `Marked ${status} by admin ${(req as any).user?.id}`,
+    })
+
+    res.json({ success: true, data: refund })
+  } catch (error: any) {
+    res.status(500).json({ success: false, message: error.message })
+  }
+})
+
+// GET ledger entries (admin only) — ?userId=&account=&journalKey=&page=1&limit=50
+router.get("/ledger", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+  try {
+    const { page = "1", limit = "50", userId = "", account = "", journalKey = "" } = req.query as any
+    const pageNum = Math.max(1, parseInt(page, 10) || 1)
+    const lim = Math.max(1, parseInt(limit, 10) || 50)
+
+    const filter: any = {}
+    if (userId) filter.userId = userId
+    if (account) filter.account = account
+    if (journalKey) filter.journalKey = journalKey
+
+    const total = await LedgerEntry.countDocuments(filter)
+    const entries = await LedgerEntry.find(filter)
+      .sort({ createdAt: -1, line: 1 })
+      .skip((pageNum - 1) * lim)
+      .limit(lim)
+      .populate("userId", "name email")
+      .lean()
+
+    res.json({ success: true, data: { entries, total, page: pageNum, limit: lim } })
+  } catch (error: any) {
+    res.status(500).json({ success: false, message: error.message })
+  }
+})
+
+// POST manual balance adjustment (admin only)
+// Body: { userId, amount, memo } — positive credits the merchant, negative debits
+router.post("/ledger/adjustments", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+  try {
+    const { userId, amount, memo } = req.body as { userId?: string; amount?: number; memo?: string }
+
+    if (!userId || !mongoose.Types.ObjectId.isValid(userId)) {
+      return res.status(400).json({ success: false, message: "Valid userId is required" })
+    }
+    if (typeof amount !== "number" || !Number.isFinite(amount) || amount === 0) {
+      return res.status(400).json({ success: false, message: "amount must be a non-zero number" })
+    }
+    if (!memo || !memo.trim()) {
+      return res.status(400).json({ success: false, message: "memo is required for adjustments" })
+    }
+
+    const user = await User.findById(userId).select("_id")
+    if (!user) {
+      return res.status(404).json({ success: false, message: "User not found" })
+    }
+
+    const result = await recordAdjustment({ userId, amount, memo: memo.trim(), createdBy: (req as any).user?.id })
+    const balances = await User.findById(userId).select("walletBalance pendingBalance").lean()
+
+    res.status(201).json({ success: true, data: { result, balances } })
+  } catch (error: any) {
+    res.status(500).json({ success: false, message: error.message })
+  }
+})
+
+// POST rebuild a merchant's cached balances from the ledger (admin only)
+router.post("/users/:id/ledger/rebuild", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+  try {
+    const result = await rebuildCachedBalances(req.params.id)
+    if (!result) {
+      return res.status(404).json({ success: false, message: "User not found" })
+    }
+    res.json({ success: true, data: result })
+  } catch (error: any) {
+    res.status(500).json({ success: false, message: error.message })
+  }
+})
+
 export default router
@@ -0,0 +1,128 @@
+/**
+ * Admin Payout Batches
+ * ====================
+ * Review merchants' bulk payout uploads as a whole (see services/payoutBatches.ts).
+ *
+ * Routes:
+ *   GET  /api/admin/payout-batches                    — List batches (status, userId)
+ *   GET  /api/admin/payout-batches/:batchId           — Batch detail with per-row results
+ *   GET  /api/admin/payout-batches/:batchId/results   — Results as CSV (?format=json for JSON)
+ *   POST /api/admin/payout-batches/:batchId/action    — { action: "approve" | "reject" | "dispatch", comment? }
+ *
+ * Dispatch answers 202 with the batch in `dispatching` and sends its payouts
+ * in the background; poll the batch until it is `dispatched`.
+ *
+ * Single payouts of a batch can still be handled one by one at /api/admin/payouts.
+ */
+
+import express, { Request, Response } from "express"
+import PayoutBatch from "../models/PayoutBatch"
+import authMiddleware from "../middleware/authMiddleware"
+import isAdmin from "../middleware/isAdmin"
+import {
+    BATCH_RESULT_COLUMNS,
+    approvePayoutBatch,
+    dispatchPayoutBatch,
+    getBatchResults,
+    rejectPayoutBatch,
+} from "../services/payoutBatches"
+import { toCsv } from "../utils/csv"
+
+const router = express.Router()
+
+router.get("/", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        const page = Math.max(1, parseInt(req.query.page as string) || 1)
+        const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20))
+        const filter: any = {}
+        if (req.query.status) filter.status = String(req.query.status)
+        if (req.query.userId) filter.userId = String(req.query.userId)
+
+        const [batches, total] = await Promise.all([
+            PayoutBatch.find(filter)
+                .select("-rows")
+                .populate("userId", "name email walletBalance")
+                .sort({ createdAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .lean(),
+            PayoutBatch.countDocuments(filter),
+        ])
+
+        res.json({ success: true, data: batches, pagination: { page, limit, total, pages: Math.ceil(total / limit) } })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.get("/:batchId", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        const batch: any = await PayoutBatch.findOne({ batchId: req.params.batchId })
+            .populate("userId", "name email walletBalance")
+            .populate("reviewedBy", "name email")
+            .lean()
+        if (!batch) return res.status(404).json({ success: false, message: "Payout batch not found" })
+
+        const { rows, ...summary } = batch
+        res.json({ success: true, data: { ...summary, results: await getBatchResults(batch) } })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.get("/:batchId/results", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        const batch: any = await PayoutBatch.findOne({ batchId: req.params.batchId }).lean()
+        if (!batch) return res.status(404).json({ success: false, message: "Payout batch not found" })
+
+        const results = await getBatchResults(batch)
+        if (req.query.format === "json") {
+            return res.json({ success: true, data: results })
+        }
+
+        res.setHeader("Content-Type", "text/csv")
+        res.setHeader("Content-Disposition", `attachment; filename="${batch.batchId}-results.csv"`)
+        res.send(toCsv(BATCH_RESULT_COLUMNS, results.map((r) => BATCH_RESULT_COLUMNS.map((c) => r[c]))))
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+// approve  — pending → approved, every payout in it approved
+// reject   — pending/approved → rejected, every payout rejected and its hold released
+// dispatch — approved → dispatching → dispatched, every approved bank payout sent to RezoPay (202, in the background)
+router.post("/:batchId/action", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        const { action, comment } = req.body || {}
+        const adminId = (req as any).user.id
+        const { batchId } = req.params
+
+        let result: Awaited<ReturnType<typeof approvePayoutBatch>>
+        if (action === "approve") {
+            result = await approvePayoutBatch(batchId, adminId, comment)
+        } else if (action === "reject") {
+            result = await rejectPayoutBatch(batchId, adminId, comment)
+        } else if (action === "dispatch") {
+            result = await dispatchPayoutBatch(batchId, adminId)
+        } else {
+            return res.status(400).json({ success: false, message: "action must be 'approve', 'reject' or 'dispatch'" })
+        }
+
+        if ("error" in result) {
+            return res.status(result.statusCode).json({ success: false, message: result.error })
+        }
+
+        const batch: any = result.batch.toObject ? result.batch.toObject() : result.batch
+        const { rows, ...summary } = batch
+        res.status(action === "dispatch" ? 202 : 200).json({
+            success: true,
+            message: action === "dispatch" ? "Payout batch dispatching — check back for the results" : `Payout batch ${batch.status}`,
+            data: { ...summary, results: await getBatchResults(batch) },
+        })
+    } catch (error: any) {
+        console.error("[PayoutBatches] admin action error:", error.message)
+        res.status(500).json({ success: false, message: "Server error" })
+    }
+})
+
+export default router
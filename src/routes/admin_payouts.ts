@@ -2,6 +2,12 @@ import express, { Request, Response } from "express"
 import Payout from "../models/Payout"
 import User from "../models/User"
 import authMiddleware from "../middleware/authMiddleware"
+import {
+    approvePayout,
+    completePayoutManually,
+    dispatchPayout,
+    rejectPayout,
+} from "../services/payouts"
 
 const router = express.Router()
 
@@ -20,76 +26,93 @@ const adminMiddleware = async (req: Request, res: Response, next: Function) => {
 }
 
 // @route   GET /api/admin/payouts
-// @desc    Get all payouts (with filters)
+// @desc    The payout queue — every payout, manual or gateway
+// @query   status, userId, provider, escalated=true, page, limit
 // @access  Admin
 router.get("/", authMiddleware, adminMiddleware, async (req: Request, res: Response) => {
     try {
-        const { status, userId } = req.query
+        const { status, userId, provider, escalated, page = "1", limit = "50" } = req.query as any
         const query: any = {}
         if (status) query.status = status
         if (userId) query.userId = userId
+        if (provider) query.provider = provider
+        // escalated=true → payouts the poller handed over to admins that are still processing
+        if (escalated === "true") {
+            query.escalatedAt = { $ne: null }
+            query.status = "processing"
+        }
 
-        const payouts = await Payout.find(query)
-            .populate("userId", "name email walletBalance")
-            .sort({ createdAt: -1 })
+        const pageNum = Math.max(1, parseInt(page, 10) || 1)
+        const lim = Math.min(100, Math.max(1, parseInt(limit, 10) || 50))
+
+        const [payouts, total] = await Promise.all([
+            Payout.find(query)
+                .populate("userId", "name email walletBalance")
+                .sort({ createdAt: -1 })
+                .skip((pageNum - 1) * lim)
+                .limit(lim),
+            Payout.countDocuments(query),
+        ])
 
-        res.json({ success: true, data: payouts })
+        res.json({
+            success: true,
+            data: payouts,
+            pagination: { total, page: pageNum, limit: lim, pages: Math.ceil(total / lim) },
+        })
     } catch (error: any) {
         res.status(500).json({ success: false, message: "Server error" })
     }
 })
 
-// @route   POST /api/admin/payouts/:id/action
-// @desc    Approve or Reject payout
+// @route   GET /api/admin/payouts/:id
+// @desc    One payout with its status history and raw gateway data
 // @access  Admin
-router.post("/:id/action", authMiddleware, adminMiddleware, async (req: Request, res: Response) => {
+router.get("/:id", authMiddleware, adminMiddleware, async (req: Request, res: Response) => {
     try {
-        const { action, comment } = req.body // action: 'approve' | 'reject' | 'complete'
-        const payoutId = req.params.id
-
-        const payout = await Payout.findById(payoutId)
+        const payout = await Payout.findById(req.params.id)
+            .populate("userId", "name email walletBalance")
+            .populate("reversalId")
         if (!payout) {
             return res.status(404).json({ success: false, message: "Payout request not found" })
         }
+        res.json({ success: true, data: payout })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: "Server error" })
+    }
+})
 
-        if (payout.status !== "pending" && payout.status !== "approved") {
-            return res.status(400).json({ success: false, message: `Payout is already ${payout.status}` })
-        }
+// @route   POST /api/admin/payouts/:id/action
+// @desc    Move a payout through its lifecycle
+// @body    { action: "approve" | "reject" | "dispatch" | "complete", comment?, utr? }
+//          approve  — pending → approved
+//          reject   — pending/approved → rejected, held amount back to the wallet
+//          dispatch — send to RezoPay (approves a pending payout first)
+//          complete — approved → success, for payouts made outside the gateway
+// @access  Admin
+router.post("/:id/action", authMiddleware, adminMiddleware, async (req: Request, res: Response) => {
+    try {
+        const { action, comment, utr } = req.body
+        const adminId = (req as any).user.id
+        const payoutId = req.params.id
 
+        let result: Awaited<ReturnType<typeof approvePayout>>
         if (action === "approve") {
-            // Mark as Approved (Ready for manual processing or payment gateway trigger)
-            payout.status = "approved"
-            payout.adminComment = comment || "Approved by admin"
-            payout.processedAt = new Date()
-            await payout.save()
-
-            // TODO: Here you triggers the actual bank transfer via Gateway if integrated.
-            // For MVP, Admin manually transfers and then marks as 'completed'.
-
+            result = await approvePayout(payoutId, adminId, comment)
         } else if (action === "reject") {
-            // Refund the amount to user's wallet
-            const user = await User.findById(payout.userId)
-            if (user) {
-                user.walletBalance += payout.amount
-                await user.save()
-            }
-
-            payout.status = "rejected"
-            payout.adminComment = comment || "Rejected by admin"
-            payout.processedAt = new Date()
-            await payout.save()
-
+            result = await rejectPayout(payoutId, adminId, comment)
+        } else if (action === "dispatch") {
+            result = await dispatchPayout(payoutId, adminId)
         } else if (action === "complete") {
-            // Admin marks as manually done
-            payout.status = "completed"
-            payout.adminComment = comment || "Marked as completed"
-            payout.processedAt = new Date()
-            await payout.save()
+            result = await completePayoutManually(payoutId, adminId, comment, utr)
         } else {
             return res.status(400).json({ success: false, message: "Invalid action" })
         }
 
-        res.json({ success: true, message: `Payout ${action}d successfully`, data: payout })
+        if ("error" in result) {
+            return res.status(result.statusCode).json({ success: false, message: result.error })
+        }
+
+        res.json({ success: true, message: `Payout ${result.payout.status}`, data: result.payout })
     } catch (error: any) {
         console.error("Admin payout action error:", error)
         res.status(500).json({ success: false, message: "Server error" })
@@ -0,0 +1,291 @@
+/**
+ * Admin Pricing Plans
+ * ===================
+ * CRUD for merchant pricing plans (MDR / platform fees) and plan assignment.
+ *
+ * Routes:
+ *   GET    /api/admin/pricing-plans              — List plans
+ *   POST   /api/admin/pricing-plans              — Create plan
+ *   GET    /api/admin/pricing-plans/:id          — Plan detail (+ merchants on it)
+ *   PUT    /api/admin/pricing-plans/:id          — Update plan
+ *   DELETE /api/admin/pricing-plans/:id          — Delete plan (must be unassigned)
+ *   POST   /api/admin/pricing-plans/:id/preview  — Price a sample { amount, provider?, method? }
+ *   PUT    /api/admin/pricing-plans/assign/:userId — Assign { planId } (null = default plan)
+ */
+
+import express, { Request, Response } from "express"
+import mongoose from "mongoose"
+import PricingPlan from "../models/PricingPlan"
+import User from "../models/User"
+import authMiddleware from "../middleware/authMiddleware"
+import isAdmin from "../middleware/isAdmin"
+import { getProvider, listProviders } from "../providers"
+import { priceWithPlan } from "../services/fees"
+
+const router = express.Router()
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+function validateNonNegative(value: any, field: string, errors: string[]): number | undefined {
+    if (value === undefined) return undefined
+    if (isNaN(Number(value)) || Number(value) < 0) {
+        errors.push(`${field} must be a non-negative number`)
+        return undefined
+    }
+    return Number(value)
+}
+
+function validateSlabs(slabs: any, field: string, errors: string[]) {
+    if (!Array.isArray(slabs)) {
+        errors.push(`${field} must be an array of { minAmount, maxAmount, feePercent, flatFee }`)
+        return []
+    }
+    return slabs.map((s: any, i: number) => {
+        const minAmount = validateNonNegative(s?.minAmount ?? 0, `${field}[${i}].minAmount`, errors) ?? 0
+        const maxAmount =
+            s?.maxAmount === undefined || s?.maxAmount === null
+                ? null
+                : validateNonNegative(s.maxAmount, `${field}[${i}].maxAmount`, errors) ?? null
+        if (maxAmount !== null && minAmount > maxAmount) {
+            errors.push(`${field}[${i}].minAmount cannot exceed maxAmount`)
+        }
+        return {
+            minAmount,
+            maxAmount,
+            feePercent: validateNonNegative(s?.feePercent ?? 0, `${field}[${i}].feePercent`, errors) ?? 0,
+            flatFee: validateNonNegative(s?.flatFee ?? 0, `${field}[${i}].flatFee`, errors) ?? 0,
+        }
+    })
+}
+
+/**
+ * Validate and normalize a plan body. `partial` allows omitting fields on update.
+ */
+function validatePlanInput(body: any, partial: boolean): { errors: string[]; data: Record<string, any> } {
+    const errors: string[] = []
+    const data: Record<string, any> = {}
+
+    if (body.name !== undefined || !partial) {
+        if (!body.name || typeof body.name !== "string" || !body.name.trim()) {
+            errors.push("name is required")
+        } else {
+            data.name = body.name.trim()
+        }
+    }
+
+    if (body.description !== undefined) data.description = String(body.description)
+    if (body.active !== undefined) data.active = body.active === true || body.active === "true"
+    if (body.isDefault !== undefined) data.isDefault = body.isDefault === true || body.isDefault === "true"
+
+    for (const field of ["feePercent", "flatFee", "gstPercent"]) {
+        const value = validateNonNegative(body[field], field, errors)
+        if (value !== undefined) data[field] = value
+    }
+    for (const field of ["minFee", "maxFee"]) {
+        if (body[field] === null) data[field] = null
+        else {
+            const value = validateNonNegative(body[field], field, errors)
+            if (value !== undefined) data[field] = value
+        }
+    }
+    if (data.minFee != null && data.maxFee != null && data.minFee > data.maxFee) {
+        errors.push("minFee cannot exceed maxFee")
+    }
+
+    if (body.slabs !== undefined) data.slabs = validateSlabs(body.slabs, "slabs", errors)
+
+    if (body.overrides !== undefined) {
+        if (!Array.isArray(body.overrides)) {
+            errors.push("overrides must be an array of { provider?, method?, feePercent, flatFee, slabs? }")
+        } else {
+            data.overrides = body.overrides.map((o: any, i: number) => {
+                let provider: string | null = null
+                if (o?.provider) {
+                    const p = getProvider(o.provider)
+                    if (!p) {
+                        errors.push(
+                            `overrides[${i}]: unknown provider '${o.provider}'. Supported: ${listProviders().map((x) => x.name).join(", ")}`
+                        )
+                    } else {
+                        provider = p.name
+                    }
+                }
+                const method = o?.method ? String(o.method).toLowerCase() : null
+                if (!o?.provider && !method) errors.push(`overrides[${i}] needs a provider or a method`)
+
+                return {
+                    provider,
+                    method,
+                    feePercent: validateNonNegative(o?.feePercent ?? 0, `overrides[${i}].feePercent`, errors) ?? 0,
+                    flatFee: validateNonNegative(o?.flatFee ?? 0, `overrides[${i}].flatFee`, errors) ?? 0,
+                    slabs: o?.slabs !== undefined ? validateSlabs(o.slabs, `overrides[${i}].slabs`, errors) : [],
+                }
+            })
+        }
+    }
+
+    return { errors, data }
+}
+
+// Only one plan may be the default
+async function clearOtherDefaults(planId: any) {
+    await PricingPlan.updateMany({ _id: { $ne: planId }, isDefault: true }, { $set: { isDefault: false } })
+}
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+
+router.get("/", authMiddleware, isAdmin, async (_req: Request, res: Response) => {
+    try {
+        const plans = await PricingPlan.find({}).sort({ isDefault: -1, name: 1 }).lean()
+        const counts = await User.aggregate([
+            { $match: { pricingPlanId: { $ne: null } } },
+            { $group: { _id: "$pricingPlanId", merchants: { $sum: 1 } } },
+        ])
+        const countByPlan = new Map(counts.map((c: any) => [String(c._id), c.merchants]))
+
+        res.json({
+            success: true,
+            data: plans.map((p: any) => ({ ...p, merchantCount: countByPlan.get(String(p._id)) || 0 })),
+        })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.post("/", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        const { errors, data } = validatePlanInput(req.body || {}, false)
+        if (errors.length > 0) {
+            return res.status(400).json({ success: false, message: "Validation failed", errors })
+        }
+
+        const adminId = (req as any).user?.id
+        const plan = await PricingPlan.create({ ...data, createdBy: adminId, updatedBy: adminId })
+        if (plan.isDefault) await clearOtherDefaults(plan._id)
+
+        console.log(`[PricingPlans] Admin ${adminId} created plan '${plan.name}' (${plan._id})`)
+        res.status(201).json({ success: true, data: plan })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.put("/assign/:userId", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        const { planId } = req.body as { planId?: string | null }
+
+        if (planId !== null) {
+            if (!planId || !mongoose.isValidObjectId(planId)) {
+                return res.status(400).json({ success: false, message: "planId must be a plan id, or null for the default plan" })
+            }
+            const plan = await PricingPlan.findById(planId).select("_id active")
+            if (!plan) return res.status(404).json({ success: false, message: "Pricing plan not found" })
+            if (!plan.active) return res.status(400).json({ success: false, message: "Pricing plan is inactive" })
+        }
+
+        const user = await User.findByIdAndUpdate(
+            req.params.userId,
+            { $set: { pricingPlanId: planId } },
+            { new: true }
+        ).select("-password -otp")
+        if (!user) return res.status(404).json({ success: false, message: "User not found" })
+
+        console.log(`[PricingPlans] Admin ${(req as any).user?.id} assigned plan ${planId || "default"} to ${user._id}`)
+        res.json({ success: true, data: { userId: user._id, pricingPlanId: user.pricingPlanId } })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.get("/:id", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(400).json({ success: false, message: "Invalid plan id" })
+        }
+
+        const plan = await PricingPlan.findById(req.params.id).lean()
+        if (!plan) return res.status(404).json({ success: false, message: "Pricing plan not found" })
+
+        const merchants = await User.find({ pricingPlanId: req.params.id }).select("name email businessName").lean()
+        res.json({ success: true, data: { ...plan, merchants } })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.put("/:id", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(400).json({ success: false, message: "Invalid plan id" })
+        }
+
+        const { errors, data } = validatePlanInput(req.body || {}, true)
+        if (errors.length > 0) {
+            return res.status(400).json({ success: false, message: "Validation failed", errors })
+        }
+
+        const adminId = (req as any).user?.id
+        const plan = await PricingPlan.findByIdAndUpdate(
+            req.params.id,
+            { $set: { ...data, updatedBy: adminId } },
+            { new: true, runValidators: true }
+        )
+        if (!plan) return res.status(404).json({ success: false, message: "Pricing plan not found" })
+        if (plan.isDefault) await clearOtherDefaults(plan._id)
+
+        console.log(`[PricingPlans] Admin ${adminId} updated plan '${plan.name}' (${plan._id})`)
+        res.json({ success: true, data: plan })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.delete("/:id", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(400).json({ success: false, message: "Invalid plan id" })
+        }
+
+        const assigned = await User.countDocuments({ pricingPlanId: req.params.id })
+        if (assigned > 0) {
+            return res.status(409).json({
+                success: false,
+                message: `Plan is assigned to ${assigned} merchant(s). Reassign them before deleting.`,
+            })
+        }
+
+        const plan = await PricingPlan.findByIdAndDelete(req.params.id)
+        if (!plan) return res.status(404).json({ success: false, message: "Pricing plan not found" })
+
+        console.log(`[PricingPlans] Admin ${(req as any).user?.id} deleted plan '${plan.name}' (${plan._id})`)
+        res.json({ success: true, message: "Pricing plan deleted" })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.post("/:id/preview", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(400).json({ success: false, message: "Invalid plan id" })
+        }
+
+        const { amount, provider, method } = req.body as { amount?: number; provider?: string; method?: string }
+        if (!amount || isNaN(Number(amount)) || Number(amount) <= 0) {
+            return res.status(400).json({ success: false, message: "amount must be a positive number" })
+        }
+
+        const plan = await PricingPlan.findById(req.params.id).lean()
+        if (!plan) return res.status(404).json({ success: false, message: "Pricing plan not found" })
+
+        const breakdown = priceWithPlan(plan, Number(amount), {
+            provider: getProvider(provider)?.name || null,
+            method: method ? String(method).toLowerCase() : null,
+        })
+        res.json({ success: true, data: breakdown })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+export default router
@@ -0,0 +1,92 @@
+/**
+ * Admin Provider Events
+ * =====================
+ * Inbound provider webhooks/callbacks as received (see services/providerEvents.ts).
+ *
+ * Routes:
+ *   GET  /api/admin/provider-events                 — List (provider, source, status, orderId, from, to)
+ *   GET  /api/admin/provider-events/:id             — Event with headers and raw payload
+ *   POST /api/admin/provider-events/:id/reprocess   — Run the event through its processor again
+ */
+
+import express, { Request, Response } from "express"
+import mongoose from "mongoose"
+import ProviderEvent from "../models/ProviderEvent"
+import authMiddleware from "../middleware/authMiddleware"
+import isAdmin from "../middleware/isAdmin"
+import { reprocessProviderEvent } from "../services/providerEvents"
+
+const router = express.Router()
+
+router.get("/", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        const { provider, source, status, orderId, from, to } = req.query as Record<string, string | undefined>
+        const page = Math.max(1, parseInt(req.query.page as string) || 1)
+        const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20))
+
+        const filter: any = {}
+        if (provider) filter.provider = provider.toLowerCase()
+        if (source) filter.source = source
+        if (status) filter.status = status
+        if (orderId) filter.orderId = orderId
+        if (from || to) {
+            filter.receivedAt = {}
+            if (from) filter.receivedAt.$gte = new Date(from)
+            if (to) filter.receivedAt.$lte = new Date(to)
+        }
+
+        const [events, total] = await Promise.all([
+            ProviderEvent.find(filter)
+                .select("-headers -payload -rawBody")
+                .sort({ receivedAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .lean(),
+            ProviderEvent.countDocuments(filter),
+        ])
+
+        res.json({ success: true, data: events, pagination: { page, limit, total, pages: Math.ceil(total / limit) } })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.get("/:id", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(400).json({ success: false, message: "Invalid event id" })
+        }
+
+        const event = await ProviderEvent.findById(req.params.id).lean()
+        if (!event) return res.status(404).json({ success: false, message: "Provider event not found" })
+
+        res.json({ success: true, data: event })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.post("/:id/reprocess", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(400).json({ success: false, message: "Invalid event id" })
+        }
+
+        const exists = await ProviderEvent.exists({ _id: req.params.id })
+        if (!exists) return res.status(404).json({ success: false, message: "Provider event not found" })
+
+        const result = await reprocessProviderEvent(req.params.id, (req as any).user?.id)
+        if (!result) {
+            return res.status(409).json({ success: false, message: "Event is being processed right now; try again shortly" })
+        }
+        if (result.error) {
+            return res.status(422).json({ success: false, message: `Reprocessing failed: ${result.error}`, data: result.event })
+        }
+
+        res.json({ success: true, message: `Reprocessed: ${result.outcome}`, data: result.event })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+export default router
@@ -0,0 +1,249 @@
+/**
+ * Admin Reconciliation
+ * ====================
+ * Upload provider settlement/transaction reports and work through the
+ * discrepancies they produce (see services/reconciliation.ts).
+ *
+ * Routes:
+ *   POST /api/admin/reconciliation/runs                    — Upload a report and reconcile it
+ *   GET  /api/admin/reconciliation/runs                    — List runs (provider)
+ *   GET  /api/admin/reconciliation/runs/:runId             — Run detail + discrepancies (type, status)
+ *   GET  /api/admin/reconciliation/runs/:runId/export      — Discrepancies as CSV
+ *   POST /api/admin/reconciliation/items/:itemId/resolve   — Resolve { action, note?, orderId? }
+ *
+ * Uploads are either JSON — { provider, rows: [...] } or { provider, csv: "..." },
+ * plus optional fileName, columns, amountUnit, from, to — or a raw text/csv
+ * body with the same options as query parameters.
+ */
+
+import express, { Request, Response } from "express"
+import mongoose from "mongoose"
+import ReconciliationItem, { DISCREPANCY_TYPES } from "../models/ReconciliationItem"
+import ReconciliationRun from "../models/ReconciliationRun"
+import authMiddleware from "../middleware/authMiddleware"
+import isAdmin from "../middleware/isAdmin"
+import { getProvider, listProviders } from "../providers"
+import { allowedActions, resolveDiscrepancy, runReconciliation } from "../services/reconciliation"
+import { parseCsvRecords, toCsv } from "../utils/csv"
+
+const router = express.Router()
+
+const MAX_REPORT_ROWS = 50000
+const REPORT_FIELDS = ["orderId", "paymentId", "utr", "amount", "status", "date"]
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+function parseOptionalDate(value: any, field: string, errors: string[]): Date | null {
+    if (value === undefined || value === null || value === "") return null
+    const date = new Date(value)
+    if (isNaN(date.getTime())) {
+        errors.push(`${field} must be a valid date`)
+        return null
+    }
+    return date
+}
+
+/**
+ * Read the report and its options from a JSON or text/csv upload.
+ */
+function validateUpload(req: Request): { errors: string[]; data: Record<string, any> } {
+    const errors: string[] = []
+    const isRawCsv = typeof req.body === "string"
+    const options: any = isRawCsv ? req.query : req.body || {}
+
+    const provider = getProvider(options.provider)
+    if (!provider) {
+        errors.push(`provider is required. Supported: ${listProviders().map((p) => p.name).join(", ")}`)
+    }
+
+    let records: Record<string, any>[] = []
+    let format: "csv" | "json" = "json"
+    if (isRawCsv || typeof options.csv === "string") {
+        format = "csv"
+        records = parseCsvRecords(isRawCsv ? req.body : options.csv)
+    } else if (Array.isArray(options.rows)) {
+        records = options.rows.filter((r: any) => r && typeof r === "object")
+    } else {
+        errors.push("Upload a report as rows (JSON array), csv (string) or a text/csv body")
+    }
+    if (records.length === 0 && errors.length === 0) errors.push("Report has no rows")
+    if (records.length > MAX_REPORT_ROWS) errors.push(`Report exceeds ${MAX_REPORT_ROWS} rows; split it into smaller files`)
+
+    let columns: Record<string, string> = {}
+    if (options.columns !== undefined) {
+        const raw = typeof options.columns === "string" ? safeJson(options.columns) : options.columns
+        if (!raw || typeof raw !== "object" || Object.keys(raw).some((k) => !REPORT_FIELDS.includes(k))) {
+            errors.push(`columns must map ${REPORT_FIELDS.join(", ")} to report headers`)
+        } else {
+            columns = raw
+        }
+    }
+
+    const amountUnit = options.amountUnit || "rupees"
+    if (amountUnit !== "rupees" && amountUnit !== "paise") errors.push("amountUnit must be 'rupees' or 'paise'")
+
+    const from = parseOptionalDate(options.from, "from", errors)
+    const to = parseOptionalDate(options.to, "to", errors)
+    if (from && to && from > to) errors.push("from cannot be after to")
+
+    return {
+        errors,
+        data: {
+            provider: provider?.name,
+            format,
+            records,
+            columns,
+            amountUnit,
+            from,
+            to,
+            fileName: options.fileName ? String(options.fileName) : "",
+        },
+    }
+}
+
+function safeJson(value: string): any {
+    try {
+        return JSON.parse(value)
+    } catch {
+        return null
+    }
+}
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+
+router.post(
+    "/runs",
+    authMiddleware,
+    isAdmin,
+    express.text({ type: ["text/csv", "text/plain"], limit: "20mb" }),
+    async (req: Request, res: Response) => {
+        try {
+            const { errors, data } = validateUpload(req)
+            if (errors.length > 0) {
+                return res.status(400).json({ success: false, message: "Validation failed", errors })
+            }
+
+            const run = await runReconciliation({ ...(data as any), uploadedBy: (req as any).user?.id })
+            res.status(201).json({ success: true, data: run })
+        } catch (error: any) {
+            res.status(500).json({ success: false, message: error.message })
+        }
+    }
+)
+
+router.get("/runs", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        const page = Math.max(1, parseInt(req.query.page as string) || 1)
+        const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20))
+        const filter: any = {}
+        if (req.query.provider) filter.provider = String(req.query.provider).toLowerCase()
+
+        const [runs, total] = await Promise.all([
+            ReconciliationRun.find(filter)
+                .populate("uploadedBy", "name email")
+                .sort({ createdAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .lean(),
+            ReconciliationRun.countDocuments(filter),
+        ])
+
+        res.json({ success: true, data: runs, pagination: { page, limit, total, pages: Math.ceil(total / limit) } })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.get("/runs/:runId", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        const run: any = await ReconciliationRun.findOne({ runId: req.params.runId }).populate("uploadedBy", "name email").lean()
+        if (!run) return res.status(404).json({ success: false, message: "Reconciliation run not found" })
+
+        const { type, status } = req.query as { type?: string; status?: string }
+        if (type && !(DISCREPANCY_TYPES as readonly string[]).includes(type)) {
+            return res.status(400).json({ success: false, message: `type must be one of: ${DISCREPANCY_TYPES.join(", ")}` })
+        }
+
+        const page = Math.max(1, parseInt(req.query.page as string) || 1)
+        const limit = Math.min(200, Math.max(1, parseInt(req.query.limit as string) || 50))
+        const filter: any = { runId: run._id }
+        if (type) filter.type = type
+        if (status) filter.status = status
+
+        const [items, total] = await Promise.all([
+            ReconciliationItem.find(filter).sort({ rowNumber: 1, _id: 1 }).skip((page - 1) * limit).limit(limit).lean(),
+            ReconciliationItem.countDocuments(filter),
+        ])
+
+        res.json({
+            success: true,
+            data: {
+                ...run,
+                items: items.map((item: any) => ({ ...item, actions: item.status === "open" ? allowedActions(item) : [] })),
+            },
+            pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+        })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.get("/runs/:runId/export", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        const run: any = await ReconciliationRun.findOne({ runId: req.params.runId }).lean()
+        if (!run) return res.status(404).json({ success: false, message: "Reconciliation run not found" })
+
+        const items: any[] = await ReconciliationItem.find({ runId: run._id }).sort({ rowNumber: 1, _id: 1 }).lean()
+        const header = [
+            "Type", "Row", "Order ID", "Payment ID", "UTR", "Provider Amount", "Our Amount",
+            "Provider Status", "Our Status", "Resolution", "Resolution Action", "Note",
+        ]
+        const rows = items.map((i) => [
+            i.type,
+            i.rowNumber ?? "",
+            i.orderId,
+            i.paymentId,
+            i.utr,
+            i.providerAmount ?? "",
+            i.internalAmount ?? "",
+            i.providerStatus,
+            i.internalStatus,
+            i.status,
+            i.resolution?.action || "",
+            i.resolution?.note || "",
+        ])
+
+        res.setHeader("Content-Type", "text/csv")
+        res.setHeader("Content-Disposition", `attachment; filename="${run.runId}.csv"`)
+        res.send(toCsv(header, rows))
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.post("/items/:itemId/resolve", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.itemId)) {
+            return res.status(400).json({ success: false, message: "Invalid discrepancy id" })
+        }
+
+        const { action, note, orderId } = req.body as { action?: string; note?: string; orderId?: string }
+        if (!action) return res.status(400).json({ success: false, message: "action is required" })
+
+        const result = await resolveDiscrepancy(req.params.itemId, {
+            action,
+            note: note ? String(note) : "",
+            orderId: orderId ? String(orderId) : undefined,
+            adminId: (req as any).user?.id,
+        })
+        if ("error" in result) {
+            return res.status(result.statusCode).json({ success: false, message: result.error })
+        }
+
+        res.json({ success: true, data: result.item })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+export default router
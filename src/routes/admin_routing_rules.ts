@@ -0,0 +1,195 @@
+/**
+ * Admin Routing Rules
+ * ===================
+ * CRUD for the pay-in routing table evaluated by /api/payments/create-order
+ * when no `provider` is supplied.
+ *
+ * Routes:
+ *   GET    /api/admin/routing-rules        — List rules (priority order)
+ *   POST   /api/admin/routing-rules        — Create rule
+ *   GET    /api/admin/routing-rules/:id    — Rule detail
+ *   PUT    /api/admin/routing-rules/:id    — Update rule
+ *   DELETE /api/admin/routing-rules/:id    — Delete rule
+ */
+
+import express, { Request, Response } from "express"
+import mongoose from "mongoose"
+import RoutingRule from "../models/RoutingRule"
+import authMiddleware from "../middleware/authMiddleware"
+import isAdmin from "../middleware/isAdmin"
+import { getProvider, listProviders } from "../providers"
+
+const router = express.Router()
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+/**
+ * Validate and normalize a rule body. `partial` allows omitting fields on update.
+ */
+function validateRuleInput(body: any, partial: boolean): { errors: string[]; data: Record<string, any> } {
+    const errors: string[] = []
+    const data: Record<string, any> = {}
+
+    if (body.name !== undefined || !partial) {
+        if (!body.name || typeof body.name !== "string" || !body.name.trim()) {
+            errors.push("name is required")
+        } else {
+            data.name = body.name.trim()
+        }
+    }
+
+    if (body.description !== undefined) data.description = String(body.description)
+    if (body.enabled !== undefined) data.enabled = body.enabled === true || body.enabled === "true"
+
+    if (body.priority !== undefined) {
+        if (isNaN(Number(body.priority))) errors.push("priority must be a number")
+        else data.priority = Number(body.priority)
+    }
+
+    if (body.conditions !== undefined) {
+        const { minAmount, maxAmount, merchantIds } = body.conditions || {}
+        const conditions: Record<string, any> = { minAmount: null, maxAmount: null, merchantIds: [] }
+
+        if (minAmount !== undefined && minAmount !== null) {
+            if (isNaN(Number(minAmount)) || Number(minAmount) < 0) errors.push("conditions.minAmount must be a non-negative number")
+            else conditions.minAmount = Number(minAmount)
+        }
+        if (maxAmount !== undefined && maxAmount !== null) {
+            if (isNaN(Number(maxAmount)) || Number(maxAmount) < 0) errors.push("conditions.maxAmount must be a non-negative number")
+            else conditions.maxAmount = Number(maxAmount)
+        }
+        if (conditions.minAmount !== null && conditions.maxAmount !== null && conditions.minAmount > conditions.maxAmount) {
+            errors.push("conditions.minAmount cannot exceed conditions.maxAmount")
+        }
+        if (merchantIds !== undefined) {
+            if (!Array.isArray(merchantIds) || merchantIds.some((id: any) => !mongoose.isValidObjectId(id))) {
+                errors.push("conditions.merchantIds must be an array of user ids")
+            } else {
+                conditions.merchantIds = merchantIds
+            }
+        }
+
+        data.conditions = conditions
+    }
+
+    if (body.targets !== undefined || !partial) {
+        const targets = body.targets
+        if (!Array.isArray(targets) || targets.length === 0) {
+            errors.push("targets must be a non-empty array of { provider, weight }")
+        } else {
+            const normalized: { provider: string; weight: number }[] = []
+            for (const t of targets) {
+                const provider = getProvider(t?.provider)
+                if (!provider) {
+                    errors.push(
+                        `Unknown provider '${t?.provider}'. Supported: ${listProviders().map((p) => p.name).join(", ")}`
+                    )
+                    continue
+                }
+                const weight = t.weight === undefined ? 1 : Number(t.weight)
+                if (isNaN(weight) || weight < 0) {
+                    errors.push(`weight for ${provider.name} must be a non-negative number`)
+                    continue
+                }
+                normalized.push({ provider: provider.name, weight })
+            }
+            if (normalized.length > 0 && normalized.every((t) => t.weight === 0)) {
+                errors.push("at least one target must have a weight greater than 0")
+            }
+            data.targets = normalized
+        }
+    }
+
+    return { errors, data }
+}
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+
+router.get("/", authMiddleware, isAdmin, async (_req: Request, res: Response) => {
+    try {
+        const rules = await RoutingRule.find({})
+            .sort({ priority: 1, createdAt: 1 })
+            .populate("conditions.merchantIds", "name email")
+            .lean()
+
+        res.json({ success: true, data: rules })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.post("/", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        const { errors, data } = validateRuleInput(req.body || {}, false)
+        if (errors.length > 0) {
+            return res.status(400).json({ success: false, message: "Validation failed", errors })
+        }
+
+        const adminId = (req as any).user?.id
+        const rule = await RoutingRule.create({ ...data, createdBy: adminId, updatedBy: adminId })
+
+        console.log(`[RoutingRules] Admin ${adminId} created rule '${rule.name}' (${rule._id})`)
+        res.status(201).json({ success: true, data: rule })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.get("/:id", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(400).json({ success: false, message: "Invalid rule id" })
+        }
+
+        const rule = await RoutingRule.findById(req.params.id).populate("conditions.merchantIds", "name email").lean()
+        if (!rule) return res.status(404).json({ success: false, message: "Routing rule not found" })
+
+        res.json({ success: true, data: rule })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.put("/:id", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(400).json({ success: false, message: "Invalid rule id" })
+        }
+
+        const { errors, data } = validateRuleInput(req.body || {}, true)
+        if (errors.length > 0) {
+            return res.status(400).json({ success: false, message: "Validation failed", errors })
+        }
+
+        const adminId = (req as any).user?.id
+        const rule = await RoutingRule.findByIdAndUpdate(
+            req.params.id,
+            { $set: { ...data, updatedBy: adminId } },
+            { new: true, runValidators: true }
+        )
+        if (!rule) return res.status(404).json({ success: false, message: "Routing rule not found" })
+
+        console.log(`[RoutingRules] Admin ${adminId} updated rule '${rule.name}' (${rule._id})`)
+        res.json({ success: true, data: rule })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.delete("/:id", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(400).json({ success: false, message: "Invalid rule id" })
+        }
+
+        const rule = await RoutingRule.findByIdAndDelete(req.params.id)
+        if (!rule) return res.status(404).json({ success: false, message: "Routing rule not found" })
+
+        console.log(`[RoutingRules] Admin ${(req as any).user?.id} deleted rule '${rule.name}' (${rule._id})`)
+        res.json({ success: true, message: "Routing rule deleted" })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+export default router
@@ -0,0 +1,128 @@
+/**
+ * Admin Settlements
+ * =================
+ * Settlement batch oversight and bank transfer bookkeeping.
+ *
+ * Routes:
+ *   GET  /api/admin/settlements                          — List batches (status, userId, from, to)
+ *   GET  /api/admin/settlements/:settlementId            — Batch detail with its payments
+ *   POST /api/admin/settlements/:settlementId/mark-paid   — Record the transfer { utr }
+ *   POST /api/admin/settlements/:settlementId/mark-failed — Transfer failed { reason }
+ */
+
+import express, { Request, Response } from "express"
+import mongoose from "mongoose"
+import Settlement from "../models/Settlement"
+import Transaction from "../models/Transaction"
+import authMiddleware from "../middleware/authMiddleware"
+import isAdmin from "../middleware/isAdmin"
+import { markSettlementFailed, markSettlementPaid } from "../services/settlements"
+
+const router = express.Router()
+
+router.get("/", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        const { status, userId, from, to } = req.query as Record<string, string | undefined>
+        const page = Math.max(1, parseInt(req.query.page as string) || 1)
+        const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20))
+
+        const filter: any = {}
+        if (status) filter.status = status
+        if (userId) {
+            if (!mongoose.isValidObjectId(userId)) {
+                return res.status(400).json({ success: false, message: "Invalid userId" })
+            }
+            filter.userId = userId
+        }
+        if (from || to) {
+            filter.cycleDate = {}
+            if (from) filter.cycleDate.$gte = new Date(from)
+            if (to) filter.cycleDate.$lte = new Date(to)
+        }
+
+        const [settlements, total] = await Promise.all([
+            Settlement.find(filter)
+                .select("-transactionIds")
+                .populate("userId", "name email businessName")
+                .sort({ cycleDate: -1, createdAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .lean(),
+            Settlement.countDocuments(filter),
+        ])
+
+        res.json({
+            success: true,
+            data: settlements,
+            pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+        })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.get("/:settlementId", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        const settlement: any = await Settlement.findOne({ settlementId: req.params.settlementId })
+            .populate("userId", "name email businessName")
+            .lean()
+        if (!settlement) return res.status(404).json({ success: false, message: "Settlement not found" })
+
+        const transactions = await Transaction.find({ _id: { $in: settlement.transactionIds } })
+            .select("orderId paymentId amount currency status pricing walletCredit createdAt")
+            .sort({ createdAt: 1 })
+            .lean()
+
+        res.json({ success: true, data: { ...settlement, transactions } })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.post("/:settlementId/mark-paid", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        const utr = typeof req.body?.utr === "string" ? req.body.utr.trim() : ""
+        if (!utr) return res.status(400).json({ success: false, message: "utr is required" })
+
+        const adminId = (req as any).user?.id
+        const settlement = await markSettlementPaid(req.params.settlementId, utr, adminId)
+        if (!settlement) {
+            const existing = await Settlement.findOne({ settlementId: req.params.settlementId }).select("status")
+            if (!existing) return res.status(404).json({ success: false, message: "Settlement not found" })
+            return res.status(409).json({
+                success: false,
+                message: `Only processing settlements can be marked paid (current status: ${existing.status})`,
+            })
+        }
+
+        console.log(`[AdminSettlements] Admin ${adminId} marked ${settlement.settlementId} paid`)
+        res.json({ success: true, data: settlement })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.post("/:settlementId/mark-failed", authMiddleware, isAdmin, async (req: Request, res: Response) => {
+    try {
+        const reason = typeof req.body?.reason === "string" ? req.body.reason.trim() : ""
+        if (!reason) return res.status(400).json({ success: false, message: "reason is required" })
+
+        const adminId = (req as any).user?.id
+        const settlement = await markSettlementFailed(req.params.settlementId, reason, adminId)
+        if (!settlement) {
+            const existing = await Settlement.findOne({ settlementId: req.params.settlementId }).select("status")
+            if (!existing) return res.status(404).json({ success: false, message: "Settlement not found" })
+            return res.status(409).json({
+                success: false,
+                message: `Only processing settlements can be marked failed (current status: ${existing.status})`,
+            })
+        }
+
+        console.log(`[AdminSettlements] Admin ${adminId} marked ${settlement.settlementId} failed`)
+        res.json({ success: true, data: settlement })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+export default router
@@ -0,0 +1,105 @@
+/**
+ * Payout Beneficiaries
+ * ====================
+ * Merchants save bank accounts / UPI VPAs once and request payouts against
+ * them by id (POST /api/payouts/request, POST /api/gateway-payouts/initiate).
+ *
+ * Routes (dashboard JWT):
+ *   GET    /api/beneficiaries             — List my beneficiaries (?includeDisabled=true)
+ *   POST   /api/beneficiaries             — Add { method, label?, fullName, mobile, accountNumber, ifsc, bank } | { method: "upi", fullName, upiId }
+ *   GET    /api/beneficiaries/:id         — Beneficiary detail
+ *   POST   /api/beneficiaries/:id/verify  — Retry a name check that could not complete
+ *   DELETE /api/beneficiaries/:id         — Remove (payout history keeps its snapshot)
+ *
+ * New beneficiaries go through a name check and a cooling-off period before
+ * they can be paid (services/beneficiaries.ts).
+ */
+
+import express, { Request, Response } from "express"
+import mongoose from "mongoose"
+import Beneficiary from "../models/Beneficiary"
+import authMiddleware from "../middleware/authMiddleware"
+import { addBeneficiary, removeBeneficiary, retryVerification } from "../services/beneficiaries"
+
+const router = express.Router()
+
+// Payouts are allowed once active and out of cooling-off
+function present(beneficiary: any) {
+    const { __v, fingerprint, ...rest } = beneficiary.toObject ? beneficiary.toObject() : beneficiary
+    return { ...rest, payable: rest.status === "active" && new Date(rest.coolingOffUntil) <= new Date() }
+}
+
+function validId(req: Request, res: Response): boolean {
+    if (mongoose.isValidObjectId(req.params.id)) return true
+    res.status(400).json({ success: false, message: "Invalid beneficiary id" })
+    return false
+}
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+
+router.get("/", authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const filter: any = { userId: (req as any).user.id }
+        if (req.query.includeDisabled !== "true") filter.status = { $ne: "disabled" }
+
+        const beneficiaries = await Beneficiary.find(filter).sort({ createdAt: -1 }).lean()
+        res.json({ success: true, data: beneficiaries.map(present) })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: "Server error" })
+    }
+})
+
+router.post("/", authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const result = await addBeneficiary((req as any).user.id, req.body || {})
+        if ("error" in result) {
+            return res.status(result.statusCode).json({ success: false, message: result.error, errors: result.errors })
+        }
+        res.status(201).json({ success: true, data: present(result.beneficiary) })
+    } catch (error: any) {
+        console.error("[Beneficiaries] add error:", error.message)
+        res.status(500).json({ success: false, message: "Server error" })
+    }
+})
+
+router.get("/:id", authMiddleware, async (req: Request, res: Response) => {
+    try {
+        if (!validId(req, res)) return
+        const beneficiary = await Beneficiary.findOne({ _id: req.params.id, userId: (req as any).user.id })
+        if (!beneficiary) {
+            return res.status(404).json({ success: false, message: "Beneficiary not found" })
+        }
+        res.json({ success: true, data: present(beneficiary) })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: "Server error" })
+    }
+})
+
+router.post("/:id/verify", authMiddleware, async (req: Request, res: Response) => {
+    try {
+        if (!validId(req, res)) return
+        const result = await retryVerification((req as any).user.id, req.params.id)
+        if ("error" in result) {
+            return res.status(result.statusCode).json({ success: false, message: result.error })
+        }
+        res.json({ success: true, data: present(result.beneficiary) })
+    } catch (error: any) {
+        console.error("[Beneficiaries] verify error:", error.message)
+        res.status(500).json({ success: false, message: "Server error" })
+    }
+})
+
+router.delete("/:id", authMiddleware, async (req: Request, res: Response) => {
+    try {
+        if (!validId(req, res)) return
+        const result = await removeBeneficiary((req as any).user.id, req.params.id)
+        if ("error" in result) {
+            return res.status(result.statusCode).json({ success: false, message: result.error })
+        }
+        res.json({ success: true, message: "Beneficiary removed" })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: "Server error" })
+    }
+})
+
+export default router
@@ -1,15 +1,24 @@
 import express, { type Request, type Response } from "express"
-import razorpay from "../config/razorpay"
 import { createUnpayTransaction, createUnpayDynamicQR } from "../services/unpay"
-import { createSmepayTransaction } from "../services/smepay"
 import { verifySignature } from "../utils/crypto"
 import type { CreateOrderRequest, VerifyPaymentRequest, PaymentTransaction } from "../types/payment"
 import Transaction from "../models/Transaction"
+import Refund from "../models/Refund"
+import Settlement from "../models/Settlement"
 import User from "../models/User"
 import apiKeyAuth from "../middleware/apiKeyAuth"
+import idempotency from "../middleware/idempotency"
 import authMiddleware from "../middleware/authMiddleware"
 import isVerified from "../middleware/isVerified"
 import { sseManager } from "../utils/sse"
+import { createRefund, getRefundableAmount } from "../services/refunds"
+import { ingestProviderEvent } from "../services/providerEvents"
+import { createRazorpayOrder, getProvider, listProviders } from "../providers"
+import { createOrderWithFailover, resolveProviderChain } from "../providers/failover"
+import { verifySmepaySignature } from "../providers/smepay"
+import { type RoutingDecision, evaluateRoutingRules } from "../providers/routing"
+import { resolveOrderExpiry } from "../utils/orderExpiry"
+import { transitionTransaction } from "../utils/transactionState"
 
 const router = express.Router()
 
@@ -211,6 +220,7 @@ router.get("/order-status/:orderId", async (req: Request, res: Response) => {
             currency: doc.currency,
             payment_id: doc.paymentId,
             created_at: doc.createdAt,
+            expires_at: doc.expiresAt || null,
           },
         })
       }
@@ -269,20 +279,36 @@ router.get("/stream/:orderId", (req: Request, res: Response) => {
   // Cleanup on close is handled by SSEManager via res.on('close')
 })
 
-router.get("/settlements", (req: Request, res: Response) => {
+// Settlement batches of the authenticated merchant (services/settlements.ts)
+router.get("/settlements", apiKeyAuth, async (req: Request, res: Response) => {
   try {
-    const settlements = [
-      {
-        id: "settlement_001",
-        amount: 50000,
-        status: "completed",
-        date: new Date().toISOString(),
-      },
-    ]
+    const userId = (req as any).user?.id
+    const { status, from, to } = req.query as { status?: string; from?: string; to?: string }
+    const page = Math.max(1, Number.parseInt(req.query.page as string) || 1)
+    const limit = Math.min(100, Math.max(1, Number.parseInt(req.query.limit as string) || 20))
+
+    const filter: any = { userId }
+    if (status) filter.status = status
+    if (from || to) {
+      filter.cycleDate = {}
+      if (from) filter.cycleDate.$gte = new Date(from)
+      if (to) filter.cycleDate.$lte = new Date(to)
+    }
+
+    const [settlements, total] = await Promise.all([
+      Settlement.find(filter)
+        .select("-transactionIds -processedBy")
+        .sort({ cycleDate: -1, createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      Settlement.countDocuments(filter),
+    ])
 
     res.status(200).json({
       success: true,
       data: settlements,
+      pagination: { page, limit, total, pages: Math.ceil(total / limit) },
     })
   } catch (error: any) {
     res.status(500).json({
@@ -292,6 +318,51 @@ router.get("/settlements", (req: Request, res: Response) => {
   }
 })
 
+// Settlement detail with the payments it contains
+router.get("/settlements/:settlementId", apiKeyAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id
+    const settlement: any = await Settlement.findOne({ settlementId: req.params.settlementId, userId })
+      .select("-processedBy")
+      .lean()
+    if (!settlement) {
+      return res.status(404).json({ success: false, message: "Settlement not found" })
+    }
+
+    const page = Math.max(1, Number.parseInt(req.query.page as string) || 1)
+    const limit = Math.min(200, Math.max(1, Number.parseInt(req.query.limit as string) || 50))
+
+    const transactions = await Transaction.find({ _id: { $in: settlement.transactionIds } })
+      .select("orderId paymentId amount currency status pricing createdAt updatedAt")
+      .sort({ createdAt: 1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean()
+
+    const { transactionIds, ...summary } = settlement
+    res.json({
+      success: true,
+      data: {
+        ...summary,
+        transactions: transactions.map((t: any) => ({
+          order_id: t.orderId,
+          payment_id: t.paymentId,
+          amount: t.amount,
+          currency: t.currency,
+          status: t.status,
+          fee: t.pricing?.fee ?? 0,
+          tax: t.pricing?.tax ?? 0,
+          net: t.pricing?.net ?? t.amount,
+          created_at: t.createdAt,
+        })),
+      },
+      pagination: { page, limit, total: transactionIds.length, pages: Math.ceil(transactionIds.length / limit) },
+    })
+  } catch (error: any) {
+    res.status(500).json({ success: false, message: error.message })
+  }
+})
+
 // Create QR Code
 router.post("/create-qr", authMiddleware, isVerified, async (req: Request, res: Response) => {
   try {
@@ -388,7 +459,14 @@ router.get("/debug-keys", async (req: Request, res: Response) => {
 // ✅ Supports both:
 //   - JWT token:  Authorization: Bearer eyJhbGci...
 //   - API key:    Authorization: Bearer op_live_xxxx  (merchant integration)
-router.post("/create-order", apiKeyAuth, async (req: Request, res: Response) => {
+// Optional `Idempotency-Key` header makes retries safe (see middleware/idempotency).
+//
+// Gateways are resolved through the provider registry (src/providers) and
+// tried as a failover chain: `provider` (if given, else the provider picked by
+// the first matching admin RoutingRule) → merchant's payinProviderChain →
+// DEFAULT_PROVIDER_ORDER. The first gateway that returns a payable order
+// serves it; errors/timeouts fall through to the next one.
+router.post("/create-order", apiKeyAuth, idempotency, async (req: Request, res: Response) => {
   try {
     console.log("RAZORPAY_KEY_ID IN USE:", process.env.RAZORPAY_KEY_ID);
     console.log("RAZORPAY_KEY_SECRET SET:", process.env.RAZORPAY_KEY_SECRET ? "YES" : "NO");
@@ -404,7 +482,12 @@ router.post("/create-order", apiKeyAuth, async (req: Request, res: Response) =>
       finalUserId
     });
 
-    const { amount, currency = "INR", description, customer_id, receipt, notes, provider, callbackUrl } = req.body as CreateOrderRequest & { provider?: string; callbackUrl?: string }
+    const { amount, currency = "INR", description, customer_id, receipt, notes, provider, callbackUrl, expiresInMinutes, expiresAt } = req.body as CreateOrderRequest & {
+      provider?: string
+      callbackUrl?: string
+      expiresInMinutes?: number
+      expiresAt?: string
+    }
 
     if (!amount || amount <= 0) {
       console.error("[Create Order] Validation Error: Invalid amount", {
@@ -417,10 +500,67 @@ router.post("/create-order", apiKeyAuth, async (req: Request, res: Response) =>
       });
     }
 
-    const order: any = await (razorpay as any).orders.create({
-      amount: Math.round(amount * 100), // Convert to paise
+    // Frontend may send "SMEPay", "UnPay", "smepay", etc.
+    const selectedProvider = provider?.toLowerCase() || null
+    const explicitProvider = getProvider(selectedProvider)
+    if (selectedProvider && !explicitProvider) {
+      return res.status(400).json({
+        success: false,
+        message: `Unknown provider '${provider}'. Supported: ${listProviders().map((p) => p.name).join(", ")}`,
+      })
+    }
+
+    // PERSISTENCE FIX: Fetch user details to ensure customer data is saved even if notes are empty
+    let customerName = notes?.name || "";
+    let customerEmail = notes?.email || "";
+    let customerPhone = notes?.phone || "";
+    let merchantChain: string[] = [];
+    let merchantExpiryMinutes: number | null = null;
+
+    if (finalUserId) {
+      try {
+        const userDetails = await User.findById(finalUserId);
+        if (userDetails) {
+          if (!customerName) customerName = userDetails.name || "";
+          if (!customerEmail) customerEmail = userDetails.email || "";
+          if (!customerPhone) customerPhone = (userDetails as any).phone || ""; // Cast if phone not on interface
+          merchantChain = (userDetails as any).payinProviderChain || [];
+          merchantExpiryMinutes = (userDetails as any).orderExpiryMinutes ?? null;
+        }
+      } catch (err) {
+        console.warn("[Create Order] Failed to fetch user details for logging:", err);
+      }
+    }
+
+    // Request value wins, then the merchant's setting, then ORDER_EXPIRY_MINUTES
+    const expiry = resolveOrderExpiry({ expiresInMinutes, expiresAt }, merchantExpiryMinutes)
+    if (expiry.error !== undefined) {
+      return res.status(400).json({ success: false, message: expiry.error })
+    }
+    const orderExpiresAt = expiry.expiresAt
+
+    // Admin routing rules pick the lead provider when none was requested
+    let routing: RoutingDecision | null = null
+    if (!explicitProvider) {
+      try {
+        routing = await evaluateRoutingRules({ amount, userId: finalUserId })
+      } catch (err: any) {
+        console.warn("[Create Order] Routing rule evaluation failed (using default chain):", err.message)
+      }
+    }
+
+    const providerChain = resolveProviderChain(explicitProvider || routing?.provider || null, merchantChain)
+
+    console.log("[PAYMENT GATEWAY MODE] [create-order]", {
+      provider: selectedProvider || "auto",
+      routingRule: routing?.ruleName || null,
+      chain: providerChain.map((p) => p.name),
+    })
+
+    const order = await createRazorpayOrder({
+      amount,
       currency,
-      receipt: receipt || `receipt_${Date.now()}`,
+      receipt,
       description,
       notes: {
         ...(notes as any),
@@ -445,24 +585,6 @@ router.post("/create-order", apiKeyAuth, async (req: Request, res: Response) =>
 
     transactions.set(order.id, transaction);
 
-    // PERSISTENCE FIX: Fetch user details to ensure customer data is saved even if notes are empty
-    let customerName = notes?.name || "";
-    let customerEmail = notes?.email || "";
-    let customerPhone = notes?.phone || "";
-
-    if (finalUserId) {
-      try {
-        const userDetails = await User.findById(finalUserId);
-        if (userDetails) {
-          if (!customerName) customerName = userDetails.name || "";
-          if (!customerEmail) customerEmail = userDetails.email || "";
-          if (!customerPhone) customerPhone = (userDetails as any).phone || ""; // Cast if phone not on interface
-        }
-      } catch (err) {
-        console.warn("[Create Order] Failed to fetch user details for logging:", err);
-      }
-    }
-
     // Persist to MongoDB (userId optional but preferred)
     try {
       if (!finalUserId) {
@@ -487,6 +609,12 @@ router.post("/create-order", apiKeyAuth, async (req: Request, res: Response) =>
           // Store merchant's callback URL so we fire it on payment completion
           merchant_callback_url: callbackUrl || null,
         },
+        routingRule: routing
+          ? { ruleId: routing.ruleId, name: routing.ruleName, provider: routing.provider.name }
+          : null,
+        expiresAt: orderExpiresAt,
+        // Key the order was created with — its secret signs this order's callbacks
+        apiKeyId: (req as any).apiKeyId || null,
         createdAt: new Date(),
         updatedAt: new Date(),
       } as any);
@@ -500,313 +628,53 @@ router.post("/create-order", apiKeyAuth, async (req: Request, res: Response) =>
       });
     }
 
-    // Call only the selected provider (or both if no provider specified for backward compatibility)
-    // This ensures money goes to the correct merchant account
-    const selectedProvider = provider?.toLowerCase()
-
-    // Call SMEPay only if selected or if no provider specified (backward compatibility)
-    if (!selectedProvider || selectedProvider === "smepay") {
-      try {
-        const smepayResp = await createSmepayTransaction({
-          amount,
-          currency,
-          description,
-          customer: { name: notes?.name, email: notes?.email, phone: notes?.phone },
-          metadata: { razorpay_order_id: order.id },
-        })
-
-          // attach smepay info to in-memory transaction
-          ; (transaction as any).smepay = smepayResp
-
-        // update DB record with smepay info if present
-        try {
-          await Transaction.findOneAndUpdate(
-            { orderId: order.id },
-            { $set: { "notes.smepay": smepayResp, updatedAt: new Date() } },
-            { upsert: false },
-          )
-        } catch (err) {
-          console.error("Failed to update DB with SMEPay response:", err)
-        }
-      } catch (err: any) {
-        console.warn("SMEPay call failed (non-fatal):", err.message)
-          ; (transaction as any).smepay_error = err.message
-        // If SMEPay was specifically selected and failed, surface the error
-        if (selectedProvider === "smepay") {
-          ; (transaction as any).smepay_critical_error = err.message
-        }
-      }
-    }
-
-    // Call UnPay only if selected or if no provider specified (backward compatibility)
-    // Enable UnPay if credentials are present (don't depend on NODE_ENV)
-    const hasUnpayCredentials = !!(process.env.UNPAY_PARTNER_ID && process.env.UNPAY_API_KEY && process.env.UNPAY_AES_KEY)
-    const forceEnableUnpay = process.env.UNPAY_ENABLED === 'true'
-    const allowUnPay = hasUnpayCredentials || forceEnableUnpay
-
-    console.log("[PAYMENT GATEWAY MODE] [create-order]", {
-      provider: selectedProvider || "auto",
-      hasUnpayCredentials,
-      forceEnableUnpay,
-      allowUnPay,
+    const { served, result, attempts } = await createOrderWithFailover(providerChain, {
+      orderId: order.id,
+      amount,
+      currency,
+      description,
+      customer: { name: notes?.name, email: notes?.email, phone: notes?.phone },
+      notes,
     })
 
-    if ((!selectedProvider || selectedProvider === "unpay") && allowUnPay) {
-      try {
-        console.log("[UnPay][create-order] Requesting Dynamic QR with:", {
-          amount,
-          apitxnid: order.id,
-          // REMOVED EXTRA FIELDS FROM LOGGING
-          webhook: process.env.UNPAY_WEBHOOK_URL,
-        });
-
-        const unpayResp = await createUnpayDynamicQR({
-          amount,
-          apitxnid: order.id,
-          webhook: process.env.UNPAY_WEBHOOK_URL,
-        });
-
-        // attach unpay info to in-memory transaction
-        ; (transaction as any).unpay = unpayResp;
-        console.log("[UnPay Debug] unpayResp:", JSON.stringify(unpayResp, null, 2));
-        console.log("[UnPay Debug] Extracted QR:", unpayResp?.qrString);
-
-        // update DB record with unpay qr info
-        try {
-          await Transaction.findOneAndUpdate(
-            { orderId: order.id },
-            { $set: { "notes.unpay": unpayResp, updatedAt: new Date() } },
-            { upsert: false },
-          );
-        } catch (err) {
-          console.error("Failed to update DB with Unpay response:", err);
-        }
-      } catch (err: any) {
-        console.warn("Unpay call failed (non-fatal):", err.message, err?.response?.data || "");
-        ; (transaction as any).unpay_error = err.message;
-        // If UnPay was specifically selected and failed, surface the error and details
-        if (selectedProvider === "unpay") {
-          const detail = err?.response?.data ? ": " + JSON.stringify(err.response.data) : "";
-          ; (transaction as any).unpay_critical_error = err.message + detail;
-        }
-        // Return the actual UnPay error to the frontend if provider is unpay
-        if (selectedProvider === "unpay") {
-          console.error("[UnPay][create-order] Critical Error:", err);
-          return res.status(400).json({
-            success: false,
-            message: `UnPay error: ${err.message}`, // Message likely contains details now from service
-            debug: err?.response?.data || "No external response data"
-          });
-        }
+    // Record which provider served the order and why earlier ones were skipped
+    try {
+      const update: Record<string, any> = {
+        provider: served?.name || null,
+        providerAttempts: attempts,
+        updatedAt: new Date(),
       }
-    } else if (selectedProvider === "unpay" && !allowUnPay) {
-      // If UnPay is specifically selected but we're not allowed, show error
-      const msg = "UnPay credentials are missing — set UNPAY_PARTNER_ID, UNPAY_API_KEY, UNPAY_AES_KEY in .env"
-        ; (transaction as any).unpay_error = msg;
-      ; (transaction as any).unpay_critical_error = msg;
-      return res.status(400).json({
-        success: false,
-        message: msg,
-      });
-    }
-
-    // Call Razorpay Payment Link and QR Code creation if selected
-    let razorpayPaymentLink: any = null
-    let razorpayQrCode: any = null
-
-    // NOTE: Razorpay should NOT use payment links or QR - only order + checkout
-    // Payment links/QR are optional and feature-restricted for Razorpay
-    /*
-    if (selectedProvider === "razorpay") {
-      console.log("[Razorpay] Starting payment link/QR creation for Razorpay provider")
-      console.log("[Razorpay] Environment keys:", {
-        keyId: process.env.RAZORPAY_KEY_ID ? "set" : "not set",
-        keySecret: process.env.RAZORPAY_KEY_SECRET ? "set" : "not set"
-      })
-      
-      try {
-        // Check if Razorpay is configured
-        if (!process.env.RAZORPAY_KEY_ID || !process.env.RAZORPAY_KEY_SECRET) {
-          const error = "Razorpay keys not configured"
-          console.error("[Razorpay]", error)
-          ;(transaction as any).razorpay_error = error
-        } else {
-          // Use direct API calls instead of SDK methods for better compatibility
-          const axios = require('axios')
-          const auth = Buffer.from(`${process.env.RAZORPAY_KEY_ID}:${process.env.RAZORPAY_KEY_SECRET}`).toString('base64')
-          
-          // Create Payment Link
-          const paymentLinkData = {
-            amount: Math.round(amount * 100), // Convert to paise
-            currency: currency || "INR",
-            description: description || "Payment",
-            customer: {
-              name: notes?.name || "Customer",
-              email: notes?.email || "",
-              contact: notes?.phone || "",
-            },
-            notify: {
-              sms: true,
-              email: true,
-              contact: true,
-            },
-            reminder_enable: true,
-            notes: {
-              ...notes,
-              razorpay_order_id: order.id,
-            },
-            callback_url: process.env.SERVER_URL ? `${process.env.SERVER_URL}/api/payments/webhook/razorpay` : "https://payments.versaitechnology.com/api/payments/webhook/razorpay",
-            callback_method: "post",
-          }
-    
-          console.log("[Razorpay] Creating payment link with data:", JSON.stringify(paymentLinkData, null, 2))
-          
-          try {
-            const paymentLinkResponse = await axios.post('https://api.razorpay.com/v1/payment_links', paymentLinkData, {
-              headers: {
-                'Authorization': `Basic ${auth}`,
-                'Content-Type': 'application/json'
-              }
-            })
-            razorpayPaymentLink = paymentLinkResponse.data
-            console.log("[Razorpay] Payment link created successfully:", razorpayPaymentLink?.id, razorpayPaymentLink?.short_url)
-          } catch (linkErr: any) {
-            console.error("[Razorpay] Payment link creation failed:", {
-              message: linkErr.message,
-              status: linkErr.response?.status,
-              data: linkErr.response?.data
-            })
-            ;(transaction as any).razorpay_error = `Payment link creation failed: ${linkErr.message}`
-          }
-    
-          // Create QR Code only if payment link was created
-          if (razorpayPaymentLink?.id) {
-            const qrCodeData = {
-              type: "upi_qr",
-              name: `Payment for ${description || "Order"}`,
-              usage: "single_use",
-              fixed_amount: true,
-              payment_amount: Math.round(amount * 100),
-              description: description || "Payment",
-              notes: {
-                ...notes,
-                razorpay_order_id: order.id,
-                payment_link_id: razorpayPaymentLink.id,
-              },
-            }
-    
-            console.log("[Razorpay] Creating QR code with data:", JSON.stringify(qrCodeData, null, 2))
-            
-            try {
-              const qrCodeResponse = await axios.post('https://api.razorpay.com/v1/qr_codes', qrCodeData, {
-                headers: {
-                  'Authorization': `Basic ${auth}`,
-                  'Content-Type': 'application/json'
-                }
-              })
-              razorpayQrCode = qrCodeResponse.data
-              console.log("[Razorpay] QR code created successfully:", razorpayQrCode?.id, razorpayQrCode?.image_url)
-            } catch (qrErr: any) {
-              console.error("[Razorpay] QR code creation failed:", {
-                message: qrErr.message,
-                status: qrErr.response?.status,
-                data: qrErr.response?.data
-              })
-              // Don't fail if QR code fails, payment link is still usable
-              ;(transaction as any).razorpay_qr_error = `QR code creation failed: ${qrErr.message}`
-            }
-          }
-    
-          // Update DB with Razorpay payment link and QR code info
-          try {
-            await Transaction.findOneAndUpdate(
-              { orderId: order.id },
-              { 
-                $set: { 
-                  "notes.razorpay_payment_link": razorpayPaymentLink,
-                  "notes.razorpay_qr_code": razorpayQrCode,
-                  updatedAt: new Date() 
-                } 
-              },
-              { upsert: false },
-            )
-            console.log("[Razorpay] Database updated with payment link and QR code info")
-          } catch (err) {
-            console.error("[Razorpay] Failed to update DB with Razorpay payment link/QR:", err)
-          }
-        }
-      } catch (err: any) {
-        console.error("[Razorpay] Failed to create payment link/QR:", {
-          message: err.message,
-          status: err.statusCode,
-          response: err.response?.data,
-          stack: err.stack
-        })
-        // Don't fail the entire request if Razorpay payment link/QR creation fails
-        ;(transaction as any).razorpay_error = err.message
+      if (served && result?.raw !== null && result?.raw !== undefined) {
+        update[`notes.${served.name}`] = result.raw
       }
-    }
-    */
-
-    // Extract UPI intents and official gateway hosted links from provider responses
-    // CRITICAL: Only return UPI intents or official gateway links, NEVER frontend URLs
-
-    // UnPay: Use qrString for Dynamic QR (Handle nested .data structure)
-    const unpayData = (transaction as any).unpay
-    const unpayQrString = unpayData?.data?.qrString || unpayData?.qrString || null
-    const unpayLink = (unpayQrString && typeof unpayQrString === 'string') ? unpayQrString : null
-
-    // SMEPay: Use ONLY payment_url (as per requirement - PRIMARY provider)
-    // SMEPay service returns payment_url in the response - this is the official gateway link
-    const smepayPaymentUrl = (transaction as any).smepay?.payment_url
-    // CRITICAL: Use ONLY payment_url for SMEPay (primary provider requirement)
-    const smepayLink = (smepayPaymentUrl && typeof smepayPaymentUrl === 'string') ? smepayPaymentUrl : null
-
-    // Razorpay: Use payment link short URL
-    const razorpayLink = razorpayPaymentLink?.short_url || null
-
-    // Check for critical errors when specific provider is selected
-    if (selectedProvider === "smepay" && (transaction as any).smepay_critical_error) {
-      return res.status(400).json({
-        success: false,
-        message: `SMEPay error: ${(transaction as any).smepay_critical_error}`,
-      })
+      if (served) {
+        await Transaction.findOneAndUpdate({ orderId: order.id }, { $set: update }, { upsert: false })
+      } else {
+        update["notes.failure_message"] = "No payment provider could create this order"
+        await transitionTransaction({ orderId: order.id }, { to: "failed", source: "create_order", set: update })
+      }
+    } catch (err) {
+      console.error("[Create Order] Failed to record provider attempts:", err)
     }
 
-    if (selectedProvider === "unpay" && (transaction as any).unpay_critical_error) {
-      return res.status(400).json({
+    if (!served || !result) {
+      transaction.status = "failed"
+      const reasons = attempts
+        .map((a) => `${getProvider(a.provider)?.label || a.provider}: ${a.reason || a.outcome}`)
+        .join("; ")
+      console.error(`[Create Order] All providers failed for ${order.id}: ${reasons}`)
+      return res.status(502).json({
         success: false,
-        message: `UnPay error: ${(transaction as any).unpay_critical_error}`,
+        message: `No payment provider could create this order. ${reasons}`,
+        data: { order_id: order.id, provider_attempts: attempts },
       })
     }
 
-    if (selectedProvider === "razorpay" && (transaction as any).razorpay_error) {
-      console.log("[Razorpay] Razorpay failed, but returning order info for checkout")
-      // Don't return error, return the order info so user can do checkout
-      // finalPaymentLink will be null, but order_id and key_id will be available for checkout
-    }
-
-    // Return the payment link based on selected provider (normalized to lowercase)
-    // If provider is specified, return only that provider's link
-    let finalPaymentLink: string | null = null
-
-    // Normalize provider for comparison (frontend may send "SMEPay", "UnPay", "smepay", etc.)
-    // selectedProvider is already lowercased, use it directly
-    const normalizedProvider = selectedProvider || null
-
-    if (normalizedProvider === "smepay") {
-      finalPaymentLink = smepayLink
-    } else if (normalizedProvider === "unpay") {
-      finalPaymentLink = unpayLink
-    } else if (normalizedProvider === "razorpay") {
-      finalPaymentLink = razorpayLink
-    } else {
-      // If no provider specified, fallback priority: SMEPay → UnPay → Razorpay
-      finalPaymentLink = smepayLink || unpayLink || razorpayLink
-    }
+    // CRITICAL: Only return UPI intents or official gateway links, NEVER frontend URLs
+    const finalPaymentLink = result.paymentLink
 
     // Log payment link for debugging
-    console.log(`[Payment] Provider: ${normalizedProvider || 'none'}, Payment Link: ${finalPaymentLink || 'null'}`)
+    console.log(`[Payment] Provider: ${served.name} (requested: ${selectedProvider || 'auto'}), Payment Link: ${finalPaymentLink || 'null'}`)
 
     res.status(201).json({
       success: true,
@@ -815,24 +683,21 @@ router.post("/create-order", apiKeyAuth, async (req: Request, res: Response) =>
         amount: order.amount,
         currency: order.currency,
         key_id: process.env.RAZORPAY_KEY_ID,
+        expires_at: orderExpiresAt.toISOString(),
+        // Provider that actually served this order (may differ from the requested one after failover)
+        provider: served.name,
+        routing_rule: routing ? { id: routing.ruleId, name: routing.ruleName } : null,
         // Return SINGLE payment_link field (null if unavailable)
         final_payment_link: finalPaymentLink,
-        // Include QR code data if available
-        qr_code: razorpayQrCode ? {
-          id: razorpayQrCode.id,
-          image_url: razorpayQrCode.image_url,
-          upi_id: razorpayQrCode.upi_id,
-          name: razorpayQrCode.name,
-        } : null,
+        // Razorpay payment links/QR are not used (order + checkout only)
+        qr_code: null,
+        provider_attempts: attempts,
         // Provider-specific data for debugging
         provider_data: {
-          razorpay: razorpayPaymentLink ? {
-            payment_link_id: razorpayPaymentLink.id,
-            short_url: razorpayPaymentLink.short_url,
-            status: razorpayPaymentLink.status,
-          } : null,
-          smepay: (transaction as any).smepay || null,
-          unpay: (transaction as any).unpay || null,
+          razorpay: null,
+          smepay: null,
+          unpay: null,
+          [served.name]: result.raw ?? null,
         },
       },
     })
@@ -847,69 +712,39 @@ router.post("/create-order", apiKeyAuth, async (req: Request, res: Response) =>
 // ------------------------
 // SMEPay Webhook Handler
 // Matches: /api/payments/webhook/smepay (via redirect from /api/smepay/callback)
+// Signature is checked when SMEPAY_WEBHOOK_SECRET is set; a success is only
+// applied after SMEPay's status API confirms it (processSmepayEvent)
 // ------------------------
 router.post("/webhook/smepay", async (req: Request, res: Response) => {
   try {
     console.log("🔥 SMEPAY WEBHOOK RECEIVED 🔥");
     console.log("[SMEPay Webhook] Body:", JSON.stringify(req.body, null, 2));
 
-    // Extract necessary fields
-    // Based on logs, SMEPay likely sends: order_id, ref_id, payment_status, etc.
-    // The logs showed response: { "order_id": "THF...", "ref_id": "order_SHW...", "payment_status": "CREATED" }
-    // We expect the callback to have similar fields.
-
-    const { order_id, ref_id, status, payment_status, amount } = req.body;
+    // rawBody is captured by the SMEPay-specific body parser in index.ts
+    const rawBody: string = (req as any).rawBody ?? JSON.stringify(req.body || {});
+    const signature = (req.headers["x-smepay-signature"] || req.headers["x-signature"]) as string | undefined;
+    const signatureCheck = verifySmepaySignature(rawBody, signature);
+    if (signatureCheck === "invalid" || signatureCheck === "missing") {
+      console.warn(`[SMEPay Webhook] ❌ Signature ${signatureCheck} for ref_id=${req.body?.ref_id} — rejected`);
+      return res.status(401).json({ success: false, message: "Invalid webhook signature" });
+    }
 
-    // Determine our internal order ID
-    // ref_id is likely our internal 'orderId' ("order_SHW...")
-    // order_id is SMEPay's ID ("THF...")
-    const internalOrderId = ref_id || (req.body.metadata ? req.body.metadata.razorpay_order_id : null);
+    // Store, dedupe, then process (services/providerEventProcessors.ts)
+    const result = await ingestProviderEvent({
+      provider: "smepay",
+      source: "smepay_webhook",
+      orderId: req.body?.ref_id || "",
+      eventType: req.body?.payment_status || req.body?.status || "",
+      headers: req.headers,
+      payload: req.body || {},
+      rawBody,
+    });
 
-    if (!internalOrderId) {
-      console.error("[SMEPay Webhook] Could not determine internal Order ID from payload");
+    if (result.outcome === "missing_order_id") {
       return res.status(400).json({ success: false, message: "Missing ref_id or metadata" });
     }
-
-    // Map SMEPay status to our internal status
-    // Expected statuses: "SUCCESS", "FAILED", "PENDING" (Need to verify)
-    let newStatus = "pending";
-    const statusUpper = (status || payment_status || "").toUpperCase();
-
-    if (statusUpper === "SUCCESS" || statusUpper === "COMPLETED" || statusUpper === "PAID") {
-      newStatus = "completed";
-    } else if (statusUpper === "FAILED") {
-      newStatus = "failed";
-    }
-
-    console.log(`[SMEPay Webhook] Processing update for Order: ${internalOrderId} -> Status: ${newStatus} (${statusUpper})`);
-
-    // Update Transaction
-    const transaction = await Transaction.findOneAndUpdate(
-      { orderId: internalOrderId },
-      {
-        $set: {
-          status: newStatus,
-          paymentId: order_id || "", // Use SMEPay ID as paymentId
-          updatedAt: new Date(),
-          "notes.smepay_webhook": req.body
-        }
-      },
-      { new: true }
-    );
-
-    if (transaction) {
-      console.log(`[SMEPay Webhook] ✅ Updated Transaction: ${transaction._id}`);
-
-      // If completed, notify valid SSE clients
-      if (newStatus === "completed") {
-        sseManager.broadcast(internalOrderId, {
-          type: "payment_success",
-          orderId: internalOrderId,
-          status: "completed"
-        });
-      }
-    } else {
-      console.error(`[SMEPay Webhook] ❌ Transaction not found: ${internalOrderId}`);
+    if (result.error) {
+      return res.status(500).json({ success: false, message: result.error });
     }
 
     res.json({ success: true, message: "Webhook received" });
@@ -920,4 +755,111 @@ router.post("/webhook/smepay", async (req: Request, res: Response) => {
   }
 });
 
+// ------------------------
+// REFUNDS
+// POST /api/payments/:orderId/refunds  — full or partial refund
+// GET  /api/payments/:orderId/refunds  — refunds for an order
+// Access: owning merchant (API key or JWT) or admin
+// ------------------------
+
+/**
+ * Load the order and check the caller may act on it.
+ * Sends the error response itself and returns null when access is denied.
+ */
+async function loadOrderForRefund(req: Request, res: Response): Promise<{ txn: any; isAdminUser: boolean } | null> {
+  const userId = (req as any).user?.id
+  const txn: any = await Transaction.findOne({ orderId: req.params.orderId })
+  if (!txn) {
+    res.status(404).json({ success: false, message: "Order not found" })
+    return null
+  }
+
+  const userDoc = await User.findById(userId).select("isAdmin")
+  const isAdminUser = userDoc?.isAdmin === true
+
+  if (!isAdminUser && String(txn.userId) !== String(userId)) {
+    res.status(403).json({ success: false, message: "Access denied" })
+    return null
+  }
+
+  return { txn, isAdminUser }
+}
+
+router.post("/:orderId/refunds", apiKeyAuth, idempotency, async (req: Request, res: Response) => {
+  try {
+    const access = await loadOrderForRefund(req, res)
+    if (!access) return
+    const { txn, isAdminUser } = access
+
+    if (txn.status !== "completed") {
+      return res.status(400).json({
+        success: false,
+        message: `Only completed payments can be refunded (current status: ${txn.status})`,
+      })
+    }
+
+    const refundable = getRefundableAmount(txn)
+    const { amount, reason } = req.body as { amount?: number | string; reason?: string }
+
+    // No amount = refund whatever is left
+    const refundAmount = amount === undefined || amount === null || amount === "" ? refundable : Number(amount)
+
+    if (isNaN(refundAmount) || refundAmount <= 0) {
+      return res.status(400).json({ success: false, message: "Invalid refund amount" })
+    }
+    if (refundAmount > refundable) {
+      return res.status(400).json({
+        success: false,
+        message: `Refund amount ₹${refundAmount} exceeds refundable balance ₹${refundable}`,
+        data: { amount: txn.amount, refunded: txn.refundAmount || 0, refundable },
+      })
+    }
+
+    const created = await createRefund({
+      txn,
+      amount: refundAmount,
+      reason,
+      requestedBy: (req as any).user?.id,
+      requestedVia: isAdminUser ? "admin" : (req as any).authMethod === "api_key" ? "api_key" : "jwt",
+    })
+
+    if ("error" in created) {
+      return res.status(created.statusCode).json({ success: false, message: created.error })
+    }
+    const refund = created.refund
+
+    res.status(201).json({
+      success: true,
+      message: refund.status === "failed" ? "Refund failed" : "Refund created",
+      data: refund,
+    })
+  } catch (error: any) {
+    console.error("[Refunds] create error:", error)
+    res.status(500).json({ success: false, message: error.message || "Failed to create refund" })
+  }
+})
+
+router.get("/:orderId/refunds", apiKeyAuth, async (req: Request, res: Response) => {
+  try {
+    const access = await loadOrderForRefund(req, res)
+    if (!access) return
+    const { txn } = access
+
+    const refunds = await Refund.find({ transactionId: txn._id }).sort({ createdAt: -1 }).lean()
+
+    res.json({
+      success: true,
+      data: {
+        order_id: txn.orderId,
+        amount: txn.amount,
+        refunded: txn.refundAmount || 0,
+        refundable: getRefundableAmount(txn),
+        refunds,
+      },
+    })
+  } catch (error: any) {
+    res.status(500).json({ success: false, message: error.message })
+  }
+})
+
 export default router
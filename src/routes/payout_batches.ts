@@ -0,0 +1,160 @@
+/**
+ * Bulk Payouts
+ * ============
+ * Merchants pay many saved beneficiaries with one upload
+ * (see services/payoutBatches.ts).
+ *
+ * Routes (dashboard JWT):
+ *   POST /api/payout-batches                    — Upload a batch
+ *   GET  /api/payout-batches                    — List my batches (status)
+ *   GET  /api/payout-batches/:batchId           — Batch detail with per-row results
+ *   GET  /api/payout-batches/:batchId/results   — Results as CSV (?format=json for JSON)
+ *
+ * Uploads are either JSON — { rows: [...] } or { csv: "..." }, plus optional
+ * fileName — or a raw text/csv body (fileName as a query parameter). Columns:
+ * reference, amount, and beneficiaryId or the beneficiary's details (method,
+ * fullName, mobile, accountNumber, ifsc, bank, upiId).
+ *
+ * A batch with any invalid row, or a total above the wallet balance, is saved
+ * as `invalid` and holds nothing; fix the file and upload it again. Valid
+ * batches wait for admin approval (/api/admin/payout-batches).
+ *
+ * Send an Idempotency-Key header with uploads (middleware/idempotency.ts): a
+ * retried upload then replays the first response instead of holding the
+ * wallet for the same payouts twice.
+ */
+
+import express, { Request, Response } from "express"
+import PayoutBatch from "../models/PayoutBatch"
+import authMiddleware from "../middleware/authMiddleware"
+import idempotency from "../middleware/idempotency"
+import { BATCH_RESULT_COLUMNS, MAX_BATCH_ROWS, createPayoutBatch, getBatchResults } from "../services/payoutBatches"
+import { parseCsvRecords, toCsv } from "../utils/csv"
+
+const router = express.Router()
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+/**
+ * Read the rows from a JSON or text/csv upload.
+ */
+function readUpload(req: Request): { errors: string[]; data: Record<string, any> } {
+    const errors: string[] = []
+    const isRawCsv = typeof req.body === "string"
+    const options: any = isRawCsv ? req.query : req.body || {}
+
+    let records: Record<string, any>[] = []
+    let format: "csv" | "json" = "json"
+    if (isRawCsv || typeof options.csv === "string") {
+        format = "csv"
+        records = parseCsvRecords(isRawCsv ? req.body : options.csv)
+    } else if (Array.isArray(options.rows)) {
+        records = options.rows.filter((r: any) => r && typeof r === "object")
+    } else {
+        errors.push("Upload the batch as rows (JSON array), csv (string) or a text/csv body")
+    }
+    if (records.length === 0 && errors.length === 0) errors.push("Batch has no rows")
+    if (records.length > MAX_BATCH_ROWS) errors.push(`Batch exceeds ${MAX_BATCH_ROWS} rows; split it into smaller files`)
+
+    return {
+        errors,
+        data: { records, format, fileName: options.fileName ? String(options.fileName) : "" },
+    }
+}
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+
+router.post(
+    "/",
+    authMiddleware,
+    express.text({ type: ["text/csv", "text/plain"], limit: "5mb" }),
+    // After the body parser, so a text/csv upload is part of the request hash
+    idempotency,
+    async (req: Request, res: Response) => {
+        try {
+            const { errors, data } = readUpload(req)
+            if (errors.length > 0) {
+                return res.status(400).json({ success: false, message: "Validation failed", errors })
+            }
+
+            const result = await createPayoutBatch((req as any).user.id, data as any)
+            if ("error" in result) {
+                return res.status(result.statusCode).json({ success: false, message: result.error, errors: result.errors })
+            }
+
+            const batch = result.batch
+            if (batch.status === "invalid") {
+                return res.status(422).json({
+                    success: false,
+                    message: "Batch failed validation — nothing was paid or held",
+                    errors: batch.validationErrors,
+                    data: batch,
+                })
+            }
+
+            res.status(201).json({
+                success: true,
+                message: `${batch.totals.created} payouts requested. Pending admin approval.`,
+                data: batch,
+            })
+        } catch (error: any) {
+            console.error("[PayoutBatches] upload error:", error.message)
+            res.status(500).json({ success: false, message: "Server error" })
+        }
+    }
+)
+
+router.get("/", authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const page = Math.max(1, parseInt(req.query.page as string) || 1)
+        const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20))
+        const filter: any = { userId: (req as any).user.id }
+        if (req.query.status) filter.status = String(req.query.status)
+
+        const [batches, total] = await Promise.all([
+            PayoutBatch.find(filter)
+                .select("-rows")
+                .sort({ createdAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .lean(),
+            PayoutBatch.countDocuments(filter),
+        ])
+
+        res.json({ success: true, data: batches, pagination: { page, limit, total, pages: Math.ceil(total / limit) } })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: "Server error" })
+    }
+})
+
+router.get("/:batchId", authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const batch: any = await PayoutBatch.findOne({ batchId: req.params.batchId, userId: (req as any).user.id }).lean()
+        if (!batch) return res.status(404).json({ success: false, message: "Payout batch not found" })
+
+        const { rows, ...summary } = batch
+        res.json({ success: true, data: { ...summary, results: await getBatchResults(batch) } })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: "Server error" })
+    }
+})
+
+router.get("/:batchId/results", authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const batch: any = await PayoutBatch.findOne({ batchId: req.params.batchId, userId: (req as any).user.id }).lean()
+        if (!batch) return res.status(404).json({ success: false, message: "Payout batch not found" })
+
+        const results = await getBatchResults(batch)
+        if (req.query.format === "json") {
+            return res.json({ success: true, data: results })
+        }
+
+        res.setHeader("Content-Type", "text/csv")
+        res.setHeader("Content-Disposition", `attachment; filename="${batch.batchId}-results.csv"`)
+        res.send(toCsv(BATCH_RESULT_COLUMNS, results.map((r) => BATCH_RESULT_COLUMNS.map((c) => r[c]))))
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: "Server error" })
+    }
+})
+
+export default router
@@ -2,53 +2,32 @@ import express, { Request, Response } from "express"
 import User from "../models/User"
 import Payout from "../models/Payout"
 import authMiddleware from "../middleware/authMiddleware"
+import { requestPayout } from "../services/payouts"
 
 const router = express.Router()
 
 // @route   POST /api/payouts/request
-// @desc    Request a payout
+// @desc    Request a payout to a saved beneficiary — the amount is held from the wallet until the payout succeeds or is rejected/failed
+// @body    { amount, beneficiaryId }  (save beneficiaries via /api/beneficiaries)
 // @access  Private
 router.post("/request", authMiddleware, async (req: Request, res: Response) => {
     try {
         const userId = (req as any).user.id
-        const { amount, method, details } = req.body
+        const { amount, beneficiaryId } = req.body
 
-        // Validation
-        if (!amount || amount < 1) {
-            return res.status(400).json({ success: false, message: "Invalid amount" })
-        }
-        if (!["bank_transfer", "upi"].includes(method)) {
-            return res.status(400).json({ success: false, message: "Invalid payout method" })
-        }
-        if (!details || (method === "upi" && !details.upiId) || (method === "bank_transfer" && (!details.accountNumber || !details.ifscCode))) {
-            return res.status(400).json({ success: false, message: "Missing payment details" })
-        }
+        const result = await requestPayout(userId, { amount, beneficiaryId })
 
-        // Atomic Balance Check & Deduct
-        const user = await User.findOneAndUpdate(
-            { _id: userId, walletBalance: { $gte: amount } },
-            { $inc: { walletBalance: -amount } },
-            { new: true }
-        )
-
-        if (!user) {
-            return res.status(400).json({ success: false, message: "Insufficient wallet balance" })
+        if ("error" in result) {
+            return res.status(result.statusCode).json({ success: false, message: result.error, errors: result.errors })
         }
 
-        // Create Payout Record
-        const payout = await Payout.create({
-            userId,
-            amount,
-            method,
-            details,
-            status: "pending",
-        })
+        const user = await User.findById(userId).select("walletBalance")
 
         res.status(201).json({
             success: true,
             message: "Payout requested successfully",
-            data: payout,
-            newBalance: user.walletBalance,
+            data: result.payout,
+            newBalance: user?.walletBalance,
         })
     } catch (error: any) {
         console.error("Payout request error:", error)
@@ -62,7 +41,9 @@ router.post("/request", authMiddleware, async (req: Request, res: Response) => {
 router.get("/history", authMiddleware, async (req: Request, res: Response) => {
     try {
         const userId = (req as any).user.id
-        const payouts = await Payout.find({ userId }).sort({ createdAt: -1 })
+        const payouts = await Payout.find({ userId })
+            .sort({ createdAt: -1 })
+            .select("-callbackPayload -lastStatusCheck") // Don't expose raw gateway data to users
 
         res.json({ success: true, data: payouts })
     } catch (error: any) {
@@ -1,79 +1,61 @@
 /**
  * RezoPay Payout Routes
  * =====================
- * Handles the full payout lifecycle via RezoPay (pg.sdmrc.in).
+ * Gateway-facing payout routes. Payouts themselves are the unified `Payout`
+ * model; the lifecycle lives in services/payouts.ts and the admin queue at
+ * /api/admin/payouts (these admin routes remain as aliases).
  *
  * Routes:
- *   POST   /api/gateway-payouts/initiate         — User requests a payout (admin-approved flow)
+ *   POST   /api/gateway-payouts/initiate         — User requests a bank payout to a saved beneficiary (amount held from wallet)
  *   GET    /api/gateway-payouts/balance           — Check RezoPay wallet balance (admin only)
  *   GET    /api/gateway-payouts/status/:orderid   — Check payout status (by our orderid)
  *   POST   /api/gateway-payouts/callback          — RezoPay async callback (public, no auth)
- *   POST   /api/gateway-payouts/:id/dispatch      — Admin dispatches approved payout to gateway
- *   GET    /api/gateway-payouts                   — Admin: list all gateway payouts
+ *   POST   /api/gateway-payouts/:id/dispatch      — Admin dispatches a payout to the gateway
+ *   GET    /api/gateway-payouts                   — Admin: list payouts (?escalated=true)
+ *   GET    /api/gateway-payouts/mine              — User: own payout history
  *
  * Security Architecture:
  * - Users can REQUEST payouts but admin DISPATCHES them to the gateway (2-step approval)
- * - Idempotency enforced at DB level (unique orderid) AND at route level (check before call)
- * - Payout callback URL is public but validated via RezoPay's orderid matching our DB
+ * - Idempotency enforced at DB level (unique orderid) AND by claiming the payout before the gateway call
+ * - Payout callback URL is public but verified (IP allowlist or signature) and
+ *   every reported status is confirmed with RezoPay's check-status API
  * - No secrets in response bodies — gateway errors are sanitized
- * - Duplicate dispatch prevention: status check before every gateway call
  *
  * Flow:
- *   User → POST /initiate → creates GatewayPayout{status: pending}
- *   Admin → POST /:id/dispatch → calls RezoPay, updates status to processing
- *   RezoPay → POST /callback → updates status to success|failed|returned
- *   [Safety net] → payout poller checks status every 5min for stuck payouts
+ *   User → POST /initiate → Payout{status: pending}, amount held
+ *   Admin → POST /:id/dispatch → calls RezoPay, status processing
+ *   RezoPay → POST /callback → status success|failed|returned (hold finalized or released)
+ *   [Safety net] → payout poller checks status every 5min for stuck payouts (utils/payoutPoller.ts)
+ *
+ * Status changes go through utils/payoutState.ts.
  */
 
 import express, { Request, Response } from "express"
-import crypto from "crypto"
-import GatewayPayout from "../models/GatewayPayout"
+import mongoose from "mongoose"
+import Beneficiary from "../models/Beneficiary"
+import Payout from "../models/Payout"
 import User from "../models/User"
 import authMiddleware from "../middleware/authMiddleware"
 import isAdmin from "../middleware/isAdmin"
 import {
-    initiateRezoPayout,
     checkRezoPayoutStatus,
     checkRezoPayoutBalance,
+    verifyRezoPayCallback,
 } from "../services/rezopay"
+import { dispatchPayout, requestPayout } from "../services/payouts"
+import { ingestProviderEvent } from "../services/providerEvents"
+import { mapRezoPayoutStatus, transitionPayout } from "../utils/payoutState"
 
 const router = express.Router()
 
-// ─── Utility ──────────────────────────────────────────────────────────────────
-
-/**
- * Generate a unique, human-readable orderid for RezoPay.
- * Format: POUT<timestamp><random4hex>
- * Length: ~18 chars — well within RezoPay's limits.
- */
-function generatePayoutOrderId(): string {
-    const ts = Date.now().toString()
-    const rand = crypto.randomBytes(2).toString("hex").toUpperCase()
-    return `POUT${ts}${rand}`
-}
-
-/**
- * Validate Indian mobile number (10 digits, starts 6-9).
- */
-function isValidMobile(mobile: string): boolean {
-    return /^[6-9]\d{9}$/.test(mobile.trim())
-}
-
-/**
- * Validate IFSC code (4 alpha + 0 + 6 alphanumeric).
- */
-function isValidIFSC(ifsc: string): boolean {
-    return /^[A-Z]{4}0[A-Z0-9]{6}$/.test(ifsc.trim().toUpperCase())
-}
-
 // ─── Routes ───────────────────────────────────────────────────────────────────
 
 /**
  * POST /api/gateway-payouts/initiate
- * User submits a payout request. Creates a record in pending state.
- * Admin must then dispatch it via /:id/dispatch.
+ * User submits a bank payout request. The amount is held from the wallet and
+ * the payout waits for admin approval/dispatch.
  *
- * Body: { fullName, amount, mobile, accountNumber, ifsc, bank }
+ * Body: { amount, beneficiaryId } — a saved bank-account beneficiary (/api/beneficiaries)
  */
 router.post("/initiate", authMiddleware, async (req: Request, res: Response) => {
     try {
@@ -82,60 +64,25 @@ router.post("/initiate", authMiddleware, async (req: Request, res: Response) =>
             return res.status(401).json({ success: false, message: "Unauthorized" })
         }
 
-        const { fullName, amount, mobile, accountNumber, ifsc, bank } = req.body
-
-        // ── Input Validation ──────────────────────────────────────────────────────
-        const errors: string[] = []
-
-        if (!fullName || typeof fullName !== "string" || fullName.trim().length < 2) {
-            errors.push("fullName must be at least 2 characters")
-        }
-        if (!amount || isNaN(Number(amount)) || Number(amount) < 1) {
-            errors.push("amount must be a positive number (minimum ₹1)")
-        }
-        if (!mobile || !isValidMobile(String(mobile))) {
-            errors.push("mobile must be a valid 10-digit Indian mobile number")
-        }
-        if (!accountNumber || String(accountNumber).trim().length < 6) {
-            errors.push("accountNumber is required and must be valid")
-        }
-        if (!ifsc || !isValidIFSC(String(ifsc))) {
-            errors.push("ifsc must be a valid IFSC code (e.g. SBIN0001234)")
-        }
-        if (!bank || String(bank).trim().length < 2) {
-            errors.push("bank name is required")
+        const { amount, beneficiaryId } = req.body
+        if (beneficiaryId && mongoose.isValidObjectId(beneficiaryId)) {
+            const beneficiary: any = await Beneficiary.findOne({ _id: beneficiaryId, userId }).select("method")
+            if (beneficiary && beneficiary.method !== "bank_transfer") {
+                return res.status(400).json({ success: false, message: "Gateway payouts need a bank account beneficiary" })
+            }
         }
 
-        if (errors.length > 0) {
-            return res.status(400).json({
+        const result = await requestPayout(userId, { amount, beneficiaryId })
+
+        if ("error" in result) {
+            return res.status(result.statusCode).json({
                 success: false,
-                message: "Validation failed",
-                errors,
+                message: result.error,
+                errors: result.errors,
             })
         }
 
-        const parsedAmount = Number(amount)
-
-        // ── Generate Unique OrderId ────────────────────────────────────────────────
-        const orderid = generatePayoutOrderId()
-
-        // ── Create Payout Record ───────────────────────────────────────────────────
-        const record = await GatewayPayout.create({
-            userId,
-            orderid,
-            fullName: fullName.trim(),
-            amount: parsedAmount,
-            mobile: String(mobile).trim(),
-            accountNumber: String(accountNumber).trim(),
-            ifsc: String(ifsc).trim().toUpperCase(),
-            bank: String(bank).trim(),
-            status: "pending",
-        })
-
-        console.log(
-            `[GatewayPayout] ✅ Created payout request: orderid=${orderid} userId=${userId} amount=${parsedAmount}`
-        )
-
+        const record = result.payout
         return res.status(201).json({
             success: true,
             message: "Payout request submitted. Pending admin approval.",
@@ -155,10 +102,11 @@ router.post("/initiate", authMiddleware, async (req: Request, res: Response) =>
 
 /**
  * POST /api/gateway-payouts/:id/dispatch
- * Admin dispatches an approved payout to RezoPay gateway.
+ * Admin dispatches a payout to RezoPay (same as action "dispatch" on
+ * /api/admin/payouts/:id/action).
  *
- * Idempotency: Checks current status before calling gateway.
- * If already dispatched (status !== "pending"), returns conflict.
+ * Idempotency: the payout is claimed before the gateway call; a payout that is
+ * no longer pending/approved returns conflict.
  */
 router.post(
     "/:id/dispatch",
@@ -166,111 +114,20 @@ router.post(
     isAdmin,
     async (req: Request, res: Response) => {
         try {
-            const { id } = req.params
-            const adminId = (req as any).user?.id
-
-            const record = await GatewayPayout.findById(id)
-            if (!record) {
-                return res.status(404).json({ success: false, message: "Payout record not found" })
-            }
-
-            // ── Idempotency Guard ──────────────────────────────────────────────────
-            if (record.status !== "pending") {
-                return res.status(409).json({
-                    success: false,
-                    message: `Payout is already in '${record.status}' state. Cannot re-dispatch.`,
-                    data: { orderid: record.orderid, status: record.status },
-                })
-            }
-
-            // ── Balance Pre-check (non-blocking — log warning if balance API fails) ─
-            try {
-                const balance = await checkRezoPayoutBalance()
-                if (balance.status === "success" && balance.balance !== undefined) {
-                    if (balance.balance < record.amount) {
-                        console.warn(
-                            `[GatewayPayout] ⚠️ Insufficient RezoPay balance: ${balance.balance} < ${record.amount}`
-                        )
-                        return res.status(400).json({
-                            success: false,
-                            message: `Insufficient RezoPay payout balance. Available: ₹${balance.balance}, Required: ₹${record.amount}`,
-                        })
-                    }
-                }
-            } catch (balErr: any) {
-                // Non-fatal — log and continue. Balance check failing shouldn't block dispatch.
-                console.warn("[GatewayPayout] Balance pre-check failed (non-fatal):", balErr.message)
+            const result = await dispatchPayout(req.params.id, (req as any).user?.id)
+            if ("error" in result) {
+                return res.status(result.statusCode).json({ success: false, message: result.error })
             }
 
-            // ── Call RezoPay Gateway ───────────────────────────────────────────────
-            console.log(
-                `[GatewayPayout] Admin ${adminId} dispatching orderid=${record.orderid} to RezoPay...`
-            )
-
-            let gatewayResponse: Awaited<ReturnType<typeof initiateRezoPayout>>
-
-            try {
-                gatewayResponse = await initiateRezoPayout({
-                    orderid: record.orderid,
-                    fullName: record.fullName,
-                    amount: record.amount,
-                    mobile: record.mobile,
-                    accountNumber: record.accountNumber,
-                    ifsc: record.ifsc,
-                    bank: record.bank,
-                })
-            } catch (gatewayErr: any) {
-                console.error(
-                    `[GatewayPayout] Gateway call failed for orderid=${record.orderid}:`,
-                    gatewayErr.message
-                )
-
-                // Mark as failed in DB so admin knows to investigate
-                await GatewayPayout.findByIdAndUpdate(id, {
-                    $set: {
-                        status: "failed",
-                        gatewayMessage: gatewayErr.message,
-                        gatewayUpdatedAt: new Date(),
-                        approvedBy: adminId,
-                        approvedAt: new Date(),
-                    },
-                })
-
-                return res.status(502).json({
-                    success: false,
-                    message: `RezoPay gateway error: ${gatewayErr.message}`,
-                })
-            }
-
-            // ── Map RezoPay Response to Our Status ─────────────────────────────────
-            // RezoPay returns: { status: "pending" | "failed", message: "..." }
-            // "pending" means accepted for processing — we call this "processing"
-            const newStatus =
-                gatewayResponse.status === "pending" ? "processing" : "failed"
-
-            await GatewayPayout.findByIdAndUpdate(id, {
-                $set: {
-                    status: newStatus,
-                    gatewayMessage: gatewayResponse.message,
-                    initiatedAt: new Date(),
-                    gatewayUpdatedAt: new Date(),
-                    approvedBy: adminId,
-                    approvedAt: new Date(),
-                },
-            })
-
-            console.log(
-                `[GatewayPayout] ✅ Dispatched: orderid=${record.orderid} → gateway status=${gatewayResponse.status} → our status=${newStatus}`
-            )
-
+            const record = result.payout
             return res.json({
                 success: true,
-                message: `Payout dispatched to RezoPay. Status: ${newStatus}`,
+                message: `Payout dispatched to RezoPay. Status: ${record.status}`,
                 data: {
                     orderid: record.orderid,
-                    status: newStatus,
-                    gatewayStatus: gatewayResponse.status,
-                    gatewayMessage: gatewayResponse.message,
+                    status: record.status,
+                    gatewayStatus: result.gatewayStatus,
+                    gatewayMessage: record.gatewayMessage,
                 },
             })
         } catch (error: any) {
@@ -288,80 +145,50 @@ router.post(
  *     Register this URL in your RezoPay merchant panel as the payout callback.
  *
  * Expected body:
- *   { status: "success" | "failed", message?, orderid, utr? }
+ *   { status: "success" | "failed" | "returned", message?, orderid, utr? }
  *
- * Security: We validate the orderid exists in our DB before accepting.
- * Always return 200 — if we return 4xx/5xx, RezoPay will retry.
+ * Security: the caller must pass verifyRezoPayCallback (IP allowlist or
+ * signature), and the status is only applied once checkRezoPayoutStatus
+ * confirms it (processRezopayPayoutCallback). Callbacks are stored as
+ * ProviderEvents, so redeliveries are deduplicated.
+ * Verified callbacks always get 200 — if we return 4xx/5xx, RezoPay will retry.
  */
 router.post("/callback", async (req: Request, res: Response) => {
     try {
-        const callerIp =
-            req.ip ||
-            (req.headers["x-forwarded-for"] as string) ||
-            req.socket.remoteAddress
+        // Never read X-Forwarded-For directly — req.ip honours only the trusted proxy hops (TRUST_PROXY)
+        const callerIp = req.ip || req.socket.remoteAddress
 
         console.log("============ REZOPAY PAYOUT CALLBACK HIT ============")
         console.log("[RezoPay Callback] IP:", callerIp)
         console.log("[RezoPay Callback] Body:", JSON.stringify(req.body, null, 2))
 
-        const { status, message, orderid, utr } = req.body as {
-            status?: string
-            message?: string
-            orderid?: string
-            utr?: string
+        // rawBody is captured by the callback's body parser in index.ts
+        const rawBody: string = (req as any).rawBody ?? JSON.stringify(req.body || {})
+        const verification = verifyRezoPayCallback({
+            ip: callerIp,
+            rawBody,
+            signature: req.headers["x-rezopay-signature"] as string | undefined,
+        })
+        if (!verification.ok) {
+            console.warn(`[RezoPay Callback] ❌ Rejected unverified callback from ${callerIp} (orderid=${req.body?.orderid})`)
+            return res.status(403).json({ status: "error", message: "Callback not verified" })
         }
-
-        // ── Basic Payload Validation ───────────────────────────────────────────────
-        if (!orderid) {
-            console.warn("[RezoPay Callback] ⚠️ Missing orderid in payload")
-            return res.status(200).json({ status: "ok", message: "Missing orderid — acknowledged" })
+        if (verification.method === "unverified") {
+            console.warn("[RezoPay Callback] ⚠️ REZOPAY_CALLBACK_IPS / REZOPAY_CALLBACK_SECRET not set — relying on status confirmation only")
         }
 
-        // ── Map Gateway Status → Our Status ───────────────────────────────────────
-        let newStatus: string = "processing" // default: unknown status, keep processing
-
-        if (status === "success") {
-            newStatus = "success"
-        } else if (status === "failed" || status === "returned") {
-            newStatus = status // "failed" or "returned"
-        } else {
-            console.warn(`[RezoPay Callback] Unknown status received: '${status}'. Keeping processing.`)
-        }
-
-        // ── Atomic Idempotent DB Update ────────────────────────────────────────────
-        // Only update if NOT already in a terminal state (success/failed/returned)
-        const updated = await GatewayPayout.findOneAndUpdate(
-            {
-                orderid,
-                status: { $nin: ["success", "failed", "returned"] }, // Idempotency guard
-            },
-            {
-                $set: {
-                    status: newStatus,
-                    utr: utr || "",
-                    gatewayMessage: message || "",
-                    gatewayUpdatedAt: new Date(),
-                    callbackPayload: req.body,
-                    updatedAt: new Date(),
-                },
-            },
-            { new: true }
-        )
-
-        if (updated) {
-            console.log(
-                `[RezoPay Callback] ✅ Updated: orderid=${orderid} → status=${newStatus} utr=${utr || "N/A"}`
-            )
-        } else {
-            // Check if not found or already terminal
-            const existing = await GatewayPayout.findOne({ orderid })
-            if (!existing) {
-                console.warn(`[RezoPay Callback] ⚠️ orderid=${orderid} NOT FOUND in DB`)
-            } else {
-                console.log(
-                    `[RezoPay Callback] ℹ️ orderid=${orderid} already in terminal status=${existing.status}. Idempotency skip.`
-                )
-            }
+        // Store, dedupe, then process (services/providerEventProcessors.ts)
+        const result = await ingestProviderEvent({
+            provider: "rezopay",
+            source: "rezopay_payout_callback",
+            orderId: req.body?.orderid || "",
+            eventType: req.body?.status || "",
+            headers: req.headers,
+            payload: req.body || {},
+            rawBody,
+        })
+        if (result.error) {
+            console.error(`[RezoPay Callback] 🔥 Processing failed for orderid=${req.body?.orderid}: ${result.error}`)
         }
 
         // Always return 200 to prevent RezoPay from re-sending
@@ -386,7 +213,7 @@ router.get("/status/:orderid", authMiddleware, async (req: Request, res: Respons
         const { orderid } = req.params
         const userId = (req as any).user?.id
 
-        const record = await GatewayPayout.findOne({ orderid })
+        const record = await Payout.findOne({ orderid })
 
         if (!record) {
             return res.status(404).json({
@@ -414,40 +241,29 @@ router.get("/status/:orderid", authMiddleware, async (req: Request, res: Respons
                 const rezoStatus = await checkRezoPayoutStatus(record.orderid)
                 liveStatus = rezoStatus
 
-                // Update DB with live status if it changed to terminal state
-                if (rezoStatus.status === "success" && rezoStatus.data?.status === "success") {
-                    await GatewayPayout.findOneAndUpdate(
-                        { orderid, status: { $nin: ["success", "failed", "returned"] } },
-                        {
-                            $set: {
-                                status: "success",
-                                utr: rezoStatus.data?.utr || "",
-                                gatewayMessage: rezoStatus.message,
-                                lastStatusCheck: rezoStatus,
-                                lastStatusCheckedAt: new Date(),
-                                gatewayUpdatedAt: new Date(),
-                            },
-                        }
-                    )
-                    record.status = "success"
-                    record.utr = rezoStatus.data?.utr || ""
-                } else if (rezoStatus.data?.status === "failed") {
-                    await GatewayPayout.findOneAndUpdate(
-                        { orderid, status: { $nin: ["success", "failed", "returned"] } },
-                        {
-                            $set: {
-                                status: "failed",
-                                gatewayMessage: rezoStatus.message,
-                                lastStatusCheck: rezoStatus,
-                                lastStatusCheckedAt: new Date(),
-                                gatewayUpdatedAt: new Date(),
-                            },
-                        }
-                    )
-                    record.status = "failed"
+                // Apply a final gateway status through the state machine
+                const liveResult = mapRezoPayoutStatus(rezoStatus)
+                const transition = liveResult
+                    ? await transitionPayout({ _id: record._id }, {
+                        to: liveResult,
+                        source: "status_check",
+                        rawRef: "lastStatusCheck",
+                        set: {
+                            utr: rezoStatus.data?.utr || record.utr || "",
+                            gatewayMessage: rezoStatus.message,
+                            lastStatusCheck: rezoStatus,
+                            lastStatusCheckedAt: new Date(),
+                            gatewayUpdatedAt: new Date(),
+                        },
+                    })
+                    : null
+
+                if (transition?.ok) {
+                    record.status = transition.payout.status
+                    record.utr = transition.payout.utr
                 } else {
                     // Still pending/processing — update last check timestamp
-                    await GatewayPayout.findByIdAndUpdate(record._id, {
+                    await Payout.findByIdAndUpdate(record._id, {
                         $set: {
                             lastStatusCheck: rezoStatus,
                             lastStatusCheckedAt: new Date(),
@@ -471,9 +287,9 @@ router.get("/status/:orderid", authMiddleware, async (req: Request, res: Respons
                 status: record.status,
                 amount: record.amount,
                 utr: record.utr,
-                fullName: record.fullName,
-                bank: record.bank,
-                ifsc: record.ifsc,
+                fullName: record.beneficiary?.fullName,
+                bank: record.beneficiary?.bank,
+                ifsc: record.beneficiary?.ifsc,
                 createdAt: record.createdAt,
                 updatedAt: record.updatedAt,
                 gatewayMessage: record.gatewayMessage,
@@ -518,12 +334,12 @@ router.get("/balance", authMiddleware, isAdmin, async (req: Request, res: Respon
 
 /**
  * GET /api/gateway-payouts
- * Admin: paginated list of all gateway payouts.
- * Query params: ?status=pending&page=1&limit=20
+ * Admin: paginated list of payouts (the full queue is /api/admin/payouts).
+ * Query params: ?status=pending&page=1&limit=20&escalated=true
  */
 router.get("/", authMiddleware, isAdmin, async (req: Request, res: Response) => {
     try {
-        const { status, page = "1", limit = "20", userId: filterUserId } = req.query as any
+        const { status, page = "1", limit = "20", userId: filterUserId, escalated } = req.query as any
 
         const pageNum = Math.max(1, parseInt(page, 10) || 1)
         const lim = Math.min(100, Math.max(1, parseInt(limit, 10) || 20))
@@ -531,15 +347,20 @@ router.get("/", authMiddleware, isAdmin, async (req: Request, res: Response) =>
         const filter: any = {}
         if (status) filter.status = status
         if (filterUserId) filter.userId = filterUserId
+        // escalated=true → payouts the poller handed over to admins that are still processing
+        if (escalated === "true") {
+            filter.escalatedAt = { $ne: null }
+            filter.status = "processing"
+        }
 
         const [payouts, total] = await Promise.all([
-            GatewayPayout.find(filter)
+            Payout.find(filter)
                 .sort({ createdAt: -1 })
                 .skip((pageNum - 1) * lim)
                 .limit(lim)
                 .populate("userId", "name email")
                 .lean(),
-            GatewayPayout.countDocuments(filter),
+            Payout.countDocuments(filter),
         ])
 
         return res.json({
@@ -572,13 +393,13 @@ router.get("/mine", authMiddleware, async (req: Request, res: Response) => {
         const lim = Math.min(50, Math.max(1, parseInt(limit, 10) || 20))
 
         const [payouts, total] = await Promise.all([
-            GatewayPayout.find({ userId })
+            Payout.find({ userId })
                 .sort({ createdAt: -1 })
                 .skip((pageNum - 1) * lim)
                 .limit(lim)
                 .select("-callbackPayload -lastStatusCheck") // Don't expose raw gateway data to users
                 .lean(),
-            GatewayPayout.countDocuments({ userId }),
+            Payout.countDocuments({ userId }),
         ])
 
         return res.json({
@@ -1,63 +1,12 @@
 import express, { Request, Response } from "express"
-import crypto from "crypto"
 import Transaction from "../models/Transaction"
-// @ts-ignore
-import { UNPAY_AES_KEY, UNPAY_IV } from "../config/unpay"
+import { ingestProviderEvent } from "../services/providerEvents"
 import { sseManager } from "../utils/sse"
-import { fireMerchantCallback, getMerchantCallbackUrl } from "../utils/merchantCallback"
+import { flagLateSuccess } from "../utils/orderExpiry"
+import { type TransactionStatus, transitionTransaction } from "../utils/transactionState"
 
 const router = express.Router()
 
-// ======================
-// DECRYPTION HELPERS
-// ======================
-
-/**
- * PRIMARY: Decrypt using AES-256-CBC
- * This MUST match the encryption in unpay.ts (createUnpayDynamicQR uses AES-256-CBC).
- */
-function decryptAES256CBC(encryptedHex: string, key: string, iv: string): string {
-    try {
-        if (!key || key.length !== 32) {
-            console.error(`[UnPay CBC Decrypt]: Invalid key length: ${key?.length}. Need exactly 32 chars.`)
-            return ""
-        }
-        if (!iv || iv.length !== 16) {
-            console.error(`[UnPay CBC Decrypt]: Invalid IV length: ${iv?.length}. Need exactly 16 chars.`)
-            return ""
-        }
-        const decipher = crypto.createDecipheriv("aes-256-cbc", Buffer.from(key, "utf8"), Buffer.from(iv, "utf8"))
-        decipher.setAutoPadding(true)
-        // UnPay sends HEX UPPERCASE — toLowerCase() normalizes it
-        let decrypted = decipher.update(encryptedHex.toLowerCase(), "hex", "utf8")
-        decrypted += decipher.final("utf8")
-        return decrypted
-    } catch (err: any) {
-        console.error(`[UnPay CBC Decrypt Error]: ${err.message}`)
-        return ""
-    }
-}
-
-/**
- * FALLBACK: Decrypt using AES-256-ECB (legacy mode)
- */
-function decryptAES256ECB(encryptedText: string, key: string): string {
-    try {
-        if (!key) {
-            console.error("[UnPay ECB Decrypt Error]: Missing Key")
-            return ""
-        }
-        const decipher = crypto.createDecipheriv("aes-256-ecb", Buffer.from(key), null)
-        decipher.setAutoPadding(true)
-        let decrypted = decipher.update(encryptedText, "hex", "utf8")
-        decrypted += decipher.final("utf8")
-        return decrypted
-    } catch (err: any) {
-        console.error(`[UnPay ECB Decrypt Error]: ${err.message}`)
-        return ""
-    }
-}
-
 // ======================
 // DIAGNOSTIC ENDPOINTS
 // ======================
@@ -76,7 +25,7 @@ function decryptAES256ECB(encryptedText: string, key: string): string {
  *  If there is NO apitxnid in the query, treat as a connectivity ping.
  */
 router.get("/callback", async (req: Request, res: Response) => {
-    const { apitxnid, txnid, statuscode, utr, amount, message } = req.query as Record<string, string>
+    const { apitxnid, statuscode } = req.query as Record<string, string>
 
     // ── Connectivity ping (no apitxnid present) ──────────────────────────────
     if (!apitxnid) {
@@ -90,89 +39,19 @@ router.get("/callback", async (req: Request, res: Response) => {
         })
     }
 
-    // ── Real payment callback ─────────────────────────────────────────────────
+    // ── Real payment callback → store, dedupe, process ────────────────────────
     try {
         console.log("============ UNPAY WEBHOOK HIT (GET) ============")
         console.log("[UnPay Webhook GET] Query params:", JSON.stringify(req.query, null, 2))
-        console.log(`[UnPay Webhook GET] Processing: orderId=${apitxnid} | statuscode=${statuscode} | txnid=${txnid} | utr=${utr}`)
 
-        let newStatus = "pending"
-        const updateData: any = {
-            updatedAt: new Date(),
-            "notes.webhook_response": req.query,
-            "notes.webhook_method": "GET",
-        }
-
-        if (statuscode === "TXN") {
-            newStatus = "completed"
-            updateData.paymentId = txnid || apitxnid
-            updateData["notes.utr"] = utr || ""
-            if (!txnid) console.warn("[UnPay Webhook GET] ⚠️ Success but txnid missing")
-        } else if (["ERR", "FAL", "REF", "FAIL", "TXF"].includes(statuscode)) {
-            newStatus = "failed"
-            updateData["notes.failure_message"] = message || ""
-            updateData["notes.failure_code"] = statuscode
-        } else {
-            console.warn(`[UnPay Webhook GET] Unknown statuscode: ${statuscode}. Keeping status=pending.`)
-        }
-
-        // Atomic idempotent update — won't overwrite already-completed transactions
-        const transaction = await Transaction.findOneAndUpdate(
-            { orderId: apitxnid, status: { $ne: "completed" } },
-            { $set: { status: newStatus, ...updateData } },
-            { new: true }
-        )
-
-        if (transaction) {
-            console.log(`[UnPay Webhook GET] ✅ DB Updated: ${apitxnid} → status=${newStatus}`)
-            if (newStatus === "completed") {
-                sseManager.broadcast(apitxnid, {
-                    type: "payment_success",
-                    orderId: apitxnid,
-                    status: "completed",
-                    paymentId: txnid || apitxnid,
-                    utr: utr || "",
-                    amount,
-                    source: "unpay_get_webhook",
-                })
-                console.log(`[UnPay Webhook GET] 📡 SSE broadcast sent for orderId=${apitxnid}`)
-
-                // 🔔 Fire merchant callback (async — non-blocking)
-                const callbackUrl = await getMerchantCallbackUrl(apitxnid)
-                fireMerchantCallback(callbackUrl, {
-                    event: "payment.success",
-                    orderId: apitxnid,
-                    paymentId: txnid || apitxnid,
-                    amount: Number(amount) || 0,
-                    currency: "INR",
-                    status: "completed",
-                    message: "Payment captured successfully via UnPay",
-                    timestamp: new Date().toISOString(),
-                    utr: utr || "",
-                    gatewayId: txnid || apitxnid,
-                }).catch(() => { })
-            } else if (newStatus === "failed") {
-                // 🔔 Fire merchant callback on failure
-                const callbackUrl = await getMerchantCallbackUrl(apitxnid)
-                fireMerchantCallback(callbackUrl, {
-                    event: "payment.failed",
-                    orderId: apitxnid,
-                    paymentId: txnid || apitxnid,
-                    amount: Number(amount) || 0,
-                    currency: "INR",
-                    status: "failed",
-                    message: message || `Payment failed (statuscode: ${statuscode})`,
-                    timestamp: new Date().toISOString(),
-                }).catch(() => { })
-            }
-        } else {
-            const existing = await Transaction.findOne({ orderId: apitxnid })
-            if (!existing) {
-                console.warn(`[UnPay Webhook GET] ⚠️ Order ${apitxnid} NOT FOUND in DB`)
-            } else {
-                console.log(`[UnPay Webhook GET] ℹ️ Order ${apitxnid} already status=${existing.status}. Skipping.`)
-            }
-        }
+        await ingestProviderEvent({
+            provider: "unpay",
+            source: "unpay_get_webhook",
+            eventType: statuscode || "",
+            orderId: apitxnid,
+            headers: req.headers,
+            payload: req.query,
+        })
     } catch (error: any) {
         console.error("[UnPay Webhook GET] 🔥 SYSTEM ERROR:", error.message)
     }
@@ -204,7 +83,7 @@ router.post("/simulate", async (req: Request, res: Response) => {
     const orderId = apitxnid
     const paymentId = txnid || ""
     const statusCode = statuscode || "TXN"
-    const newStatus = statusCode === "TXN" ? "completed" : "failed"
+    const newStatus: TransactionStatus = statusCode === "TXN" ? "completed" : "failed"
 
     const updateData: any = {
         updatedAt: new Date(),
@@ -217,11 +96,13 @@ router.post("/simulate", async (req: Request, res: Response) => {
     }
 
     try {
-        const updated = await Transaction.findOneAndUpdate(
-            { orderId, status: { $ne: "completed" } },
-            { $set: { status: newStatus, ...updateData } },
-            { new: true }
-        )
+        const result = await transitionTransaction({ orderId }, {
+            to: newStatus,
+            source: "simulate",
+            rawRef: "notes.simulated_webhook",
+            set: updateData,
+        })
+        const updated = result.ok ? result.txn : null
 
         if (updated) {
             console.log(`[UnPay Simulate] ✅ Updated ${orderId} → ${newStatus}`)
@@ -241,6 +122,10 @@ router.post("/simulate", async (req: Request, res: Response) => {
             if (!existing) {
                 return res.status(404).json({ success: false, message: `Order ${orderId} not found in DB` })
             }
+            if (existing.status === "expired" && newStatus === "completed") {
+                await flagLateSuccess(orderId, { source: "simulate", paymentId, utr, amount: Number(amount) || undefined, raw: req.body })
+                return res.json({ success: false, message: `Order ${orderId} has expired. Late payment flagged for review.` })
+            }
             return res.json({ success: false, message: `Order ${orderId} already has status=${existing.status}. Not updated.` })
         }
     } catch (err: any) {
@@ -333,127 +218,32 @@ router.post("/sync/:orderId", async (req: Request, res: Response) => {
     }
 })
 
-// Main Webhook Handler (POST)
+// Main Webhook Handler (POST) — store, dedupe, then process (services/providerEventProcessors.ts)
 router.post("/callback", async (req: Request, res: Response) => {
     try {
         console.log("============ UNPAY WEBHOOK HIT ============")
         console.log("[UnPay Webhook] Raw Body:", JSON.stringify(req.body, null, 2))
 
-        // 1. Decryption & Payload Extraction
-        let payload: any = req.body
-        const rawBodyForAudit = JSON.stringify(payload)
-
-        // Check if body is encrypted: { body: "HEXSTRING..." }
-        if (payload.body && typeof payload.body === "string") {
-            console.log("[UnPay Webhook] Encrypted body detected. Attempting AES-256-CBC decryption...")
-
-            // PRIMARY: AES-256-CBC (matches QR creation in service/unpay.ts)
-            let decryptedString = decryptAES256CBC(payload.body, UNPAY_AES_KEY, UNPAY_IV)
-
-            // FALLBACK: AES-256-ECB (try if CBC fails — older integration style)
-            if (!decryptedString) {
-                console.warn("[UnPay Webhook] CBC decryption failed — trying ECB fallback...")
-                decryptedString = decryptAES256ECB(payload.body, UNPAY_AES_KEY)
-            }
-
-            if (!decryptedString) {
-                console.error("[UnPay Webhook] ❌ ALL decryption methods failed.")
-                console.error("[UnPay Webhook] Encrypted hex (first 80 chars):", payload.body.substring(0, 80))
-                // Return 200 so UnPay does NOT retry endlessly with same payload
-                return res.status(200).json({ status: "success", message: "Decryption Failed - Acknowledged" })
-            }
+        const result = await ingestProviderEvent({
+            provider: "unpay",
+            source: "unpay_webhook",
+            orderId: req.body?.apitxnid || "",
+            headers: req.headers,
+            payload: req.body,
+            rawBody: JSON.stringify(req.body),
+        })
 
-            try {
-                payload = JSON.parse(decryptedString)
-                console.log("[UnPay Webhook] ✅ Decrypted Payload:", JSON.stringify(payload, null, 2))
-            } catch (parseErr) {
-                console.error("[UnPay Webhook] JSON Parse Error. Decrypted string:", decryptedString.substring(0, 100))
-                return res.status(200).json({ status: "success", message: "JSON Parse Failed" })
-            }
-        } else {
-            // Plaintext payload (UnPay may sometimes send unencrypted)
-            console.log("[UnPay Webhook] Plaintext Payload received:", JSON.stringify(payload, null, 2))
+        if (result.outcome === "decryption_failed") {
+            // Return 200 so UnPay does NOT retry endlessly with same payload
+            return res.status(200).json({ status: "success", message: "Decryption Failed - Acknowledged" })
         }
-
-        // 2. Extract Fields
-        const orderId = payload.apitxnid       // Our internal order ID (set when creating QR)
-        const paymentId = payload.txnid        // UnPay's transaction ID
-        const utr = payload.utr || ""          // Bank UTR reference
-        const statusCode = payload.statuscode  // "TXN" = success, "ERR"/"FAL"/"REF" = failure
-        const message = payload.message || ""
-        const amount = payload.amount
-
-        if (!orderId) {
-            console.warn("[UnPay Webhook] ⚠️ Missing 'apitxnid'. Cannot match to a transaction.")
+        if (result.outcome === "missing_order_id") {
             return res.status(200).json({ status: "success", message: "Missing apitxnid" })
         }
-
-        console.log(`[UnPay Webhook] Processing: orderId=${orderId} | statuscode=${statusCode} | txnid=${paymentId} | utr=${utr}`)
-
-        // 3. Status Mapping
-        let newStatus = "pending"
-        const updateData: any = {
-            updatedAt: new Date(),
-            "notes.webhook_response": payload,
-            "notes.webhook_raw": rawBodyForAudit,
-        }
-
-        if (statusCode === "TXN") {
-            newStatus = "completed"
-            updateData.paymentId = paymentId || orderId
-            updateData["notes.utr"] = utr
-            if (!paymentId) console.warn("[UnPay Webhook] ⚠️ Successful TXN is missing 'txnid'")
-        } else if (["ERR", "FAL", "REF", "FAIL"].includes(statusCode)) {
-            newStatus = "failed"
-            updateData["notes.failure_message"] = message
-            updateData["notes.failure_code"] = statusCode
-        } else {
-            // Unknown status — keep as pending but log it
-            console.warn(`[UnPay Webhook] Unknown statuscode: ${statusCode}. Keeping status=pending.`)
-        }
-
-        // 4. Atomic DB Update with Idempotency Guard
-        // Only applies update if order is NOT already 'completed' — prevents overwriting success
-        const transaction = await Transaction.findOneAndUpdate(
-            {
-                orderId: orderId,
-                status: { $ne: "completed" }
-            },
-            {
-                $set: {
-                    status: newStatus,
-                    ...updateData
-                }
-            },
-            { new: true }
-        )
-
-        if (transaction) {
-            console.log(`[UnPay Webhook] ✅ DB Updated: ${orderId} → status=${newStatus}`)
-
-            // 5. Real-time SSE notification to frontend
-            if (newStatus === "completed") {
-                sseManager.broadcast(orderId, {
-                    type: "payment_success",
-                    orderId: orderId,
-                    status: "completed",
-                    paymentId: paymentId,
-                    utr: utr,
-                    amount: amount
-                })
-                console.log(`[UnPay Webhook] 📡 SSE broadcast sent for orderId=${orderId}`)
-            }
-        } else {
-            // Either already completed or truly not found
-            const existing = await Transaction.findOne({ orderId })
-            if (!existing) {
-                console.warn(`[UnPay Webhook] ⚠️ Order ${orderId} NOT FOUND in DB`)
-            } else {
-                console.log(`[UnPay Webhook] ℹ️ Order ${orderId} already has status=${existing.status}. Skipping.`)
-            }
+        if (result.error) {
+            return res.status(200).json({ status: "success", message: "Internal Error Handled" })
         }
-
-        return res.status(200).json({ status: "success", message: "Processed" })
+        return res.status(200).json({ status: "success", message: result.duplicate ? "Duplicate" : "Processed" })
 
     } catch (error: any) {
         console.error("[UnPay Webhook] 🔥 SYSTEM ERROR:", error.message, error.stack)
@@ -1,6 +1,7 @@
 import express, { Request, Response } from "express"
 import User from "../models/User"
 import Transaction from "../models/Transaction"
+import LedgerEntry from "../models/LedgerEntry"
 import authMiddleware from "../middleware/authMiddleware"
 
 type AuthRequest = Request & { user?: { id?: string } }
@@ -59,8 +60,13 @@ router.get("/payments", authMiddleware, async (req: AuthRequest, res: Response)
         orderId: t.orderId,
         paymentId: t.paymentId,
         amount: t.amount,
+        // Fee breakdown — set once the payment completes
+        grossAmount: t.pricing?.gross ?? t.amount,
+        fee: t.pricing?.fee ?? null,
+        tax: t.pricing?.tax ?? null,
+        netAmount: t.pricing?.net ?? null,
         currency: t.currency,
-        status: t.status, // pending, completed, failed
+        status: t.status, // pending, completed, failed, expired, refunded
         date: t.createdAt,
         method: t.paymentMethod || "UPI",
         description: t.description || "Order Payment"
@@ -72,6 +78,87 @@ router.get("/payments", authMiddleware, async (req: AuthRequest, res: Response)
   }
 })
 
+// ------------------------
+// EXPORT MY PAYMENTS (CSV)
+// ?status=completed&dateFrom=2026-01-01&dateTo=2026-01-31
+// ------------------------
+router.get("/payments/export", authMiddleware, async (req: AuthRequest, res: Response) => {
+  try {
+    const { status = "", dateFrom, dateTo } = req.query as any
+    const filter: any = { userId: req.user!.id }
+    if (status) filter.status = status
+    if (dateFrom || dateTo) {
+      filter.createdAt = {}
+      if (dateFrom) filter.createdAt.$gte = new Date(dateFrom)
+      if (dateTo) filter.createdAt.$lte = new Date(dateTo)
+    }
+
+    const txns = await Transaction.find(filter).sort({ createdAt: -1 }).lean()
+
+    const header = ["orderId", "paymentId", "grossAmount", "fee", "tax", "netAmount", "currency", "status", "method", "createdAt"]
+    const rows = txns.map((t: any) => [
+      t.orderId,
+      t.paymentId,
+      t.pricing?.gross ?? t.amount,
+      t.pricing?.fee ?? "",
+      t.pricing?.tax ?? "",
+      t.pricing?.net ?? "",
+      t.currency,
+      t.status,
+      t.paymentMethod || t.notes?.razorpay_payment_method || "",
+      t.createdAt?.toISOString() || "",
+    ])
+
+    const csv = [header.join(","), ...rows.map((r) => r.map((c) => `"${String(c).replace(/"/g, '""')}"`).join(","))].join("\n")
+
+    res.setHeader("Content-Type", "text/csv")
+    res.setHeader("Content-Disposition", `attachment; filename="payments_${Date.now()}.csv"`)
+    res.send(csv)
+  } catch (error: any) {
+    res.status(500).json({ success: false, message: error.message })
+  }
+})
+
+// ------------------------
+// GET MY LEDGER (balance statement)
+// ?account=merchant_available&page=1&limit=50
+// ------------------------
+router.get("/ledger", authMiddleware, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.id
+    const { page = "1", limit = "50", account = "" } = req.query as any
+    const pageNum = Math.max(1, parseInt(page, 10) || 1)
+    const lim = Math.min(200, Math.max(1, parseInt(limit, 10) || 50))
+
+    const filter: any = { userId }
+    if (account) filter.account = account
+
+    const [user, entries, total] = await Promise.all([
+      User.findById(userId).select("walletBalance pendingBalance").lean() as any,
+      LedgerEntry.find(filter)
+        .sort({ createdAt: -1, line: 1 })
+        .skip((pageNum - 1) * lim)
+        .limit(lim)
+        .select("-__v")
+        .lean(),
+      LedgerEntry.countDocuments(filter),
+    ])
+
+    res.json({
+      success: true,
+      data: {
+        balances: { available: user?.walletBalance || 0, pending: user?.pendingBalance || 0 },
+        entries,
+        total,
+        page: pageNum,
+        limit: lim,
+      },
+    })
+  } catch (error: any) {
+    res.status(500).json({ success: false, message: error.message })
+  }
+})
+
 // ------------------------
 // UPDATE ACCOUNT DETAILS
 // ------------------------
@@ -0,0 +1,104 @@
+/**
+ * Merchant Webhook Delivery Log
+ * =============================
+ * Every callback we sent to the merchant (see services/webhookDelivery.ts),
+ * with each attempt's request and response, and manual replay.
+ *
+ * Routes (API key or dashboard JWT):
+ *   GET  /api/webhooks/deliveries                        — List (orderId, event, status, endpointId, from, to)
+ *   GET  /api/webhooks/deliveries/:deliveryId            — Delivery with payload and attempts
+ *   POST /api/webhooks/deliveries/:deliveryId/replay     — Send it again as a new delivery
+ */
+
+import express, { Request, Response } from "express"
+import mongoose from "mongoose"
+import WebhookDelivery from "../models/WebhookDelivery"
+import apiKeyAuth from "../middleware/apiKeyAuth"
+import { replayWebhookDelivery } from "../services/webhookDelivery"
+import { MERCHANT_CALLBACK_EVENTS } from "../utils/merchantCallback"
+
+const router = express.Router()
+
+const DELIVERY_STATUSES = ["pending", "succeeded", "dead"]
+
+router.get("/", apiKeyAuth, async (req: Request, res: Response) => {
+    try {
+        const { orderId, event, status, endpointId, from, to } = req.query as Record<string, string | undefined>
+        const page = Math.max(1, parseInt(req.query.page as string) || 1)
+        const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20))
+
+        const filter: any = { userId: (req as any).user?.id }
+        if (orderId) filter.orderId = orderId
+        if (event) {
+            if (!(MERCHANT_CALLBACK_EVENTS as readonly string[]).includes(event)) {
+                return res.status(400).json({ success: false, message: `event must be one of: ${MERCHANT_CALLBACK_EVENTS.join(", ")}` })
+            }
+            filter.event = event
+        }
+        if (status) {
+            if (!DELIVERY_STATUSES.includes(status)) {
+                return res.status(400).json({ success: false, message: `status must be one of: ${DELIVERY_STATUSES.join(", ")}` })
+            }
+            filter.status = status
+        }
+        if (endpointId) {
+            if (!mongoose.isValidObjectId(endpointId)) {
+                return res.status(400).json({ success: false, message: "Invalid endpointId" })
+            }
+            filter.endpointId = endpointId
+        }
+        if (from || to) {
+            filter.createdAt = {}
+            if (from) filter.createdAt.$gte = new Date(from)
+            if (to) filter.createdAt.$lte = new Date(to)
+            if ([filter.createdAt.$gte, filter.createdAt.$lte].some((d) => d && isNaN(d.getTime()))) {
+                return res.status(400).json({ success: false, message: "from/to must be valid dates" })
+            }
+        }
+
+        const [deliveries, total] = await Promise.all([
+            WebhookDelivery.find(filter)
+                .select("-payload -attempts -userId -apiKeyId")
+                .sort({ createdAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .lean(),
+            WebhookDelivery.countDocuments(filter),
+        ])
+
+        res.json({ success: true, data: deliveries, pagination: { page, limit, total, pages: Math.ceil(total / limit) } })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.get("/:deliveryId", apiKeyAuth, async (req: Request, res: Response) => {
+    try {
+        const delivery = await WebhookDelivery.findOne({ deliveryId: req.params.deliveryId, userId: (req as any).user?.id })
+            .select("-userId -apiKeyId")
+            .lean()
+        if (!delivery) return res.status(404).json({ success: false, message: "Delivery not found" })
+
+        res.json({ success: true, data: delivery })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.post("/:deliveryId/replay", apiKeyAuth, async (req: Request, res: Response) => {
+    try {
+        const original = await WebhookDelivery.findOne({ deliveryId: req.params.deliveryId, userId: (req as any).user?.id })
+        if (!original) return res.status(404).json({ success: false, message: "Delivery not found" })
+
+        const replay: any = await replayWebhookDelivery(original)
+        if (replay) {
+            delete replay.userId
+            delete replay.apiKeyId
+        }
+        res.status(201).json({ success: true, data: replay })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+export default router
@@ -0,0 +1,191 @@
+/**
+ * Merchant Webhook Endpoints
+ * ==========================
+ * Merchants register URLs that receive the callback events they subscribe to.
+ * A per-order `callbackUrl` on create-order still overrides these endpoints.
+ *
+ * Routes (API key or dashboard JWT):
+ *   GET    /api/webhooks/endpoints                   — List my endpoints
+ *   POST   /api/webhooks/endpoints                   — Register { url, events?, description?, enabled? }
+ *   GET    /api/webhooks/endpoints/events            — Subscribable events
+ *   GET    /api/webhooks/endpoints/:id               — Endpoint detail
+ *   PUT    /api/webhooks/endpoints/:id               — Update url/events/description/enabled
+ *   DELETE /api/webhooks/endpoints/:id               — Remove endpoint
+ *   POST   /api/webhooks/endpoints/:id/rotate-secret — Issue a new signing secret
+ *
+ * The signing secret is only returned on create and rotate.
+ */
+
+import express, { Request, Response } from "express"
+import crypto from "crypto"
+import mongoose from "mongoose"
+import WebhookEndpoint from "../models/WebhookEndpoint"
+import apiKeyAuth from "../middleware/apiKeyAuth"
+import { MERCHANT_CALLBACK_EVENTS, isAllowedCallbackUrl, isValidEventPattern } from "../utils/merchantCallback"
+
+const router = express.Router()
+
+const MAX_ENDPOINTS_PER_MERCHANT = 10
+
+function generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString("hex")}`
+}
+
+// Never echo the secret after creation
+function present(endpoint: any) {
+    const { secret, __v, ...rest } = endpoint.toObject ? endpoint.toObject() : endpoint
+    return { ...rest, secretHint: `whsec_…${String(secret).slice(-4)}` }
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+/**
+ * Validate and normalize an endpoint body. `partial` allows omitting fields on update.
+ */
+function validateEndpointInput(body: any, partial: boolean): { errors: string[]; data: Record<string, any> } {
+    const errors: string[] = []
+    const data: Record<string, any> = {}
+
+    if (body.url !== undefined || !partial) {
+        if (!body.url || typeof body.url !== "string" || !isAllowedCallbackUrl(body.url.trim())) {
+            errors.push("url must be a valid https:// URL")
+        } else {
+            data.url = body.url.trim()
+        }
+    }
+
+    if (body.events !== undefined) {
+        if (!Array.isArray(body.events) || body.events.length === 0) {
+            errors.push("events must be a non-empty array")
+        } else {
+            const events = Array.from(new Set(body.events.map((e: any) => String(e).trim()))) as string[]
+            const invalid = events.filter((e) => !isValidEventPattern(e))
+            if (invalid.length > 0) {
+                errors.push(
+                    `Unknown events: ${invalid.join(", ")}. Use an event name, '<group>.*' or '*' (events: ${MERCHANT_CALLBACK_EVENTS.join(", ")})`
+                )
+            } else {
+                data.events = events
+            }
+        }
+    }
+
+    if (body.description !== undefined) data.description = String(body.description).slice(0, 500)
+    if (body.enabled !== undefined) data.enabled = body.enabled === true || body.enabled === "true"
+
+    return { errors, data }
+}
+
+async function loadOwnEndpoint(req: Request, res: Response): Promise<any | null> {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+        res.status(400).json({ success: false, message: "Invalid endpoint id" })
+        return null
+    }
+    const endpoint = await WebhookEndpoint.findOne({ _id: req.params.id, userId: (req as any).user?.id })
+    if (!endpoint) {
+        res.status(404).json({ success: false, message: "Webhook endpoint not found" })
+        return null
+    }
+    return endpoint
+}
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+
+router.get("/", apiKeyAuth, async (req: Request, res: Response) => {
+    try {
+        const endpoints = await WebhookEndpoint.find({ userId: (req as any).user?.id }).sort({ createdAt: -1 }).lean()
+        res.json({ success: true, data: endpoints.map(present) })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.get("/events", apiKeyAuth, (_req: Request, res: Response) => {
+    res.json({ success: true, data: MERCHANT_CALLBACK_EVENTS })
+})
+
+router.post("/", apiKeyAuth, async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user?.id
+        const { errors, data } = validateEndpointInput(req.body || {}, false)
+        if (errors.length > 0) {
+            return res.status(400).json({ success: false, message: "Validation failed", errors })
+        }
+
+        const existing = await WebhookEndpoint.countDocuments({ userId })
+        if (existing >= MAX_ENDPOINTS_PER_MERCHANT) {
+            return res.status(400).json({
+                success: false,
+                message: `A merchant can register at most ${MAX_ENDPOINTS_PER_MERCHANT} webhook endpoints`,
+            })
+        }
+
+        const endpoint = await WebhookEndpoint.create({ ...data, userId, secret: generateSecret() })
+
+        console.log(`[WebhookEndpoints] ${userId} registered ${endpoint._id} → ${endpoint.url}`)
+        res.status(201).json({ success: true, data: { ...present(endpoint), secret: endpoint.secret } })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.get("/:id", apiKeyAuth, async (req: Request, res: Response) => {
+    try {
+        const endpoint = await loadOwnEndpoint(req, res)
+        if (!endpoint) return
+        res.json({ success: true, data: present(endpoint) })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.put("/:id", apiKeyAuth, async (req: Request, res: Response) => {
+    try {
+        const endpoint = await loadOwnEndpoint(req, res)
+        if (!endpoint) return
+
+        const { errors, data } = validateEndpointInput(req.body || {}, true)
+        if (errors.length > 0) {
+            return res.status(400).json({ success: false, message: "Validation failed", errors })
+        }
+
+        endpoint.set(data)
+        await endpoint.save()
+
+        console.log(`[WebhookEndpoints] ${endpoint.userId} updated ${endpoint._id}`)
+        res.json({ success: true, data: present(endpoint) })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.delete("/:id", apiKeyAuth, async (req: Request, res: Response) => {
+    try {
+        const endpoint = await loadOwnEndpoint(req, res)
+        if (!endpoint) return
+
+        await WebhookEndpoint.deleteOne({ _id: endpoint._id })
+
+        console.log(`[WebhookEndpoints] ${endpoint.userId} deleted ${endpoint._id}`)
+        res.json({ success: true, message: "Webhook endpoint deleted" })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+router.post("/:id/rotate-secret", apiKeyAuth, async (req: Request, res: Response) => {
+    try {
+        const endpoint = await loadOwnEndpoint(req, res)
+        if (!endpoint) return
+
+        endpoint.secret = generateSecret()
+        await endpoint.save()
+
+        console.log(`[WebhookEndpoints] ${endpoint.userId} rotated secret for ${endpoint._id}`)
+        res.json({ success: true, data: { ...present(endpoint), secret: endpoint.secret } })
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message })
+    }
+})
+
+export default router
@@ -0,0 +1,275 @@
+/**
+ * Beneficiaries
+ * =============
+ * Saved payout destinations behind /api/beneficiaries. Payouts are requested
+ * against a beneficiary id (services/payouts.ts), so bank / UPI details are
+ * validated and name-checked once, when the beneficiary is added:
+ *
+ *   addBeneficiary          — validate, save, start the cooling-off period, run the name check
+ *   retryVerification       — re-run a name check that could not complete
+ *   removeBeneficiary       — disable (kept for payout history)
+ *   getPayableBeneficiary   — the beneficiary a payout may go to right now, or why not
+ *                             (payableBlockReason for one already loaded)
+ *
+ * New beneficiaries cannot receive payouts until BENEFICIARY_COOLING_OFF_HOURS
+ * have passed, so a hijacked account cannot add a destination and drain the
+ * wallet in one go. The merchant is emailed whenever one is added.
+ *
+ * Functions resolve with `{ error, statusCode }` instead of throwing for
+ * expected failures.
+ */
+
+import Beneficiary from "../models/Beneficiary"
+import User from "../models/User"
+import { verifyBeneficiaryName, NameVerificationStatus } from "./beneficiaryVerification"
+import { sendBeneficiaryAddedEmail } from "../utils/email"
+import { isValidAccountNumber, isValidIFSC, isValidMobile, isValidUpiId } from "../utils/validators"
+
+export type BeneficiaryMethod = "bank_transfer" | "upi"
+
+export interface BeneficiaryDetails {
+    label: string
+    method: BeneficiaryMethod
+    fullName: string
+    mobile: string
+    accountNumber: string
+    ifsc: string
+    bank: string
+    upiId: string
+}
+
+export type BeneficiaryResult = { beneficiary: any } | { error: string; statusCode: number; errors?: string[] }
+
+const DEFAULT_COOLING_OFF_HOURS = 24
+
+export function getCoolingOffHours(): number {
+    const value = Number(process.env.BENEFICIARY_COOLING_OFF_HOURS)
+    return Number.isFinite(value) && value >= 0 ? value : DEFAULT_COOLING_OFF_HOURS
+}
+
+// Name check outcome → beneficiary status
+const STATUS_AFTER_CHECK: Record<NameVerificationStatus, string> = {
+    verified: "active",
+    skipped: "active",
+    name_mismatch: "rejected",
+    invalid: "rejected",
+    error: "pending_verification",
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+/**
+ * Check beneficiary details. Returns the normalized details, or the list of problems.
+ */
+export function validateBeneficiaryInput(body: any): { data: BeneficiaryDetails } | { errors: string[] } {
+    const errors: string[] = []
+    const b = body || {}
+    const method: BeneficiaryMethod = b.method === "upi" ? "upi" : "bank_transfer"
+
+    if (b.method !== undefined && !["bank_transfer", "upi"].includes(b.method)) {
+        errors.push("method must be 'bank_transfer' or 'upi'")
+    }
+    if (!b.fullName || typeof b.fullName !== "string" || b.fullName.trim().length < 2) {
+        errors.push("fullName must be at least 2 characters")
+    }
+
+    if (method === "upi") {
+        if (!b.upiId || !isValidUpiId(String(b.upiId))) {
+            errors.push("upiId must be a valid UPI ID (e.g. name@bank)")
+        }
+        if (b.mobile && !isValidMobile(String(b.mobile))) {
+            errors.push("mobile must be a valid 10-digit Indian mobile number")
+        }
+    } else {
+        if (!b.mobile || !isValidMobile(String(b.mobile))) {
+            errors.push("mobile must be a valid 10-digit Indian mobile number")
+        }
+        if (!b.accountNumber || !isValidAccountNumber(String(b.accountNumber))) {
+            errors.push("accountNumber must be 9-18 digits")
+        }
+        if (!b.ifsc || !isValidIFSC(String(b.ifsc))) {
+            errors.push("ifsc must be a valid IFSC code (e.g. SBIN0001234)")
+        }
+        if (!b.bank || String(b.bank).trim().length < 2) {
+            errors.push("bank name is required")
+        }
+    }
+
+    if (errors.length > 0) return { errors }
+
+    return {
+        data: {
+            label: b.label ? String(b.label).trim().slice(0, 100) : "",
+            method,
+            fullName: String(b.fullName).trim(),
+            mobile: b.mobile ? String(b.mobile).trim() : "",
+            accountNumber: method === "bank_transfer" ? String(b.accountNumber).trim() : "",
+            ifsc: method === "bank_transfer" ? String(b.ifsc).trim().toUpperCase() : "",
+            bank: method === "bank_transfer" ? String(b.bank).trim() : "",
+            upiId: method === "upi" ? String(b.upiId).trim().toLowerCase() : "",
+        },
+    }
+}
+
+export function beneficiaryFingerprint(details: Pick<BeneficiaryDetails, "method" | "accountNumber" | "ifsc" | "upiId">): string {
+    return details.method === "upi"
+        ? `upi:${details.upiId.toLowerCase()}`
+        : `bank:${details.accountNumber}:${details.ifsc.toUpperCase()}`
+}
+
+function describeDestination(b: any): string {
+    return b.method === "upi" ? `UPI ${b.upiId}` : `A/c ••${String(b.accountNumber).slice(-4)}, ${b.ifsc}`
+}
+
+// ─── Lifecycle ────────────────────────────────────────────────────────────────
+
+/**
+ * Run the name check and apply its outcome. Only beneficiaries still awaiting
+ * verification are updated, so a removal in the meantime wins.
+ */
+async function runVerification(beneficiary: any): Promise<any> {
+    const outcome = await verifyBeneficiaryName({
+        method: beneficiary.method,
+        fullName: beneficiary.fullName,
+        accountNumber: beneficiary.accountNumber,
+        ifsc: beneficiary.ifsc,
+        upiId: beneficiary.upiId,
+        mobile: beneficiary.mobile,
+    })
+    const now = new Date()
+
+    const updated = await Beneficiary.findOneAndUpdate(
+        { _id: beneficiary._id, status: "pending_verification" },
+        {
+            $set: {
+                status: STATUS_AFTER_CHECK[outcome.status],
+                "verification.verifier": outcome.verifier,
+                "verification.status": outcome.status,
+                "verification.registeredName": outcome.registeredName,
+                "verification.nameMatchScore": outcome.nameMatchScore,
+                "verification.reference": outcome.reference,
+                "verification.message": outcome.message,
+                "verification.attemptedAt": now,
+                "verification.verifiedAt": outcome.status === "verified" ? now : null,
+            },
+            $inc: { "verification.attempts": 1 },
+        },
+        { new: true }
+    )
+
+    console.log(`[Beneficiaries] Name check for ${beneficiary._id} (${outcome.verifier}): ${outcome.status}`)
+    return updated || Beneficiary.findById(beneficiary._id)
+}
+
+/**
+ * Save a new beneficiary. Re-adding a removed one brings it back with a fresh
+ * cooling-off period and name check.
+ */
+export async function addBeneficiary(userId: any, body: any): Promise<BeneficiaryResult> {
+    const validated = validateBeneficiaryInput(body)
+    if ("errors" in validated) {
+        return { error: "Validation failed", statusCode: 400, errors: validated.errors }
+    }
+
+    const details = validated.data
+    const fingerprint = beneficiaryFingerprint(details)
+    const coolingOffUntil = new Date(Date.now() + getCoolingOffHours() * 60 * 60 * 1000)
+    const fresh = {
+        ...details,
+        fingerprint,
+        status: "pending_verification",
+        coolingOffUntil,
+        verification: { status: "unverified" },
+        disabledAt: null,
+    }
+
+    let beneficiary: any
+    const existing: any = await Beneficiary.findOne({ userId, fingerprint })
+    if (existing && existing.status !== "disabled") {
+        return { error: "This beneficiary is already saved", statusCode: 409 }
+    }
+
+    if (existing) {
+        beneficiary = await Beneficiary.findOneAndUpdate(
+            { _id: existing._id, status: "disabled" },
+            { $set: fresh },
+            { new: true }
+        )
+        if (!beneficiary) return { error: "This beneficiary is already saved", statusCode: 409 }
+    } else {
+        try {
+            beneficiary = await Beneficiary.create({ userId, ...fresh })
+        } catch (err: any) {
+            if (err?.code === 11000) return { error: "This beneficiary is already saved", statusCode: 409 }
+            throw err
+        }
+    }
+
+    console.log(`[Beneficiaries] ✅ Added ${beneficiary._id} for user ${userId} (${details.method}), payable from ${coolingOffUntil.toISOString()}`)
+
+    User.findById(userId)
+        .select("email")
+        .lean()
+        .then((user: any) => {
+            if (!user?.email) return
+            return sendBeneficiaryAddedEmail(user.email, {
+                name: details.fullName,
+                destination: describeDestination(details),
+                coolingOffUntil,
+            })
+        })
+        .catch((err) => console.error(`[Beneficiaries] Could not email user about ${beneficiary._id}:`, err.message))
+
+    return { beneficiary: await runVerification(beneficiary) }
+}
+
+/**
+ * Re-run a name check that ended in "error" (verifier unavailable, no name returned).
+ */
+export async function retryVerification(userId: any, id: any): Promise<BeneficiaryResult> {
+    const beneficiary: any = await Beneficiary.findOne({ _id: id, userId })
+    if (!beneficiary) return { error: "Beneficiary not found", statusCode: 404 }
+    if (beneficiary.status !== "pending_verification") {
+        return { error: `Beneficiary is already '${beneficiary.status}'`, statusCode: 409 }
+    }
+    return { beneficiary: await runVerification(beneficiary) }
+}
+
+export async function removeBeneficiary(userId: any, id: any): Promise<BeneficiaryResult> {
+    const beneficiary = await Beneficiary.findOneAndUpdate(
+        { _id: id, userId, status: { $ne: "disabled" } },
+        { $set: { status: "disabled", disabledAt: new Date() } },
+        { new: true }
+    )
+    if (!beneficiary) return { error: "Beneficiary not found", statusCode: 404 }
+    return { beneficiary }
+}
+
+/**
+ * Why a payout cannot be sent to this beneficiary right now, or null if it can.
+ */
+export function payableBlockReason(beneficiary: any): string | null {
+    if (!beneficiary || beneficiary.status === "disabled") return "Beneficiary not found"
+    if (beneficiary.status === "pending_verification") {
+        return "Beneficiary name verification has not completed"
+    }
+    if (beneficiary.status === "rejected") {
+        return `Beneficiary failed name verification (${beneficiary.verification?.status}) — payouts are not allowed`
+    }
+    if (beneficiary.coolingOffUntil > new Date()) {
+        return `Beneficiary was added recently — payouts are allowed from ${beneficiary.coolingOffUntil.toISOString()}`
+    }
+    return null
+}
+
+/**
+ * The merchant's beneficiary if a payout may be sent to it now.
+ */
+export async function getPayableBeneficiary(userId: any, id: any): Promise<BeneficiaryResult> {
+    const beneficiary: any = await Beneficiary.findOne({ _id: id, userId })
+    const reason = payableBlockReason(beneficiary)
+    if (reason) {
+        return { error: reason, statusCode: !beneficiary || beneficiary.status === "disabled" ? 404 : 409 }
+    }
+    return { beneficiary }
+}
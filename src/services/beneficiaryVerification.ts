@@ -0,0 +1,181 @@
+/**
+ * Beneficiary Name Verification
+ * =============================
+ * Checks that a saved beneficiary's account or VPA exists and belongs to the
+ * person the merchant named — a penny drop for bank accounts, a VPA lookup
+ * for UPI. Verifiers are pluggable: implement `BeneficiaryNameVerifier`,
+ * register it here, and select it with BENEFICIARY_NAME_VERIFIER.
+ *
+ * Verifiers only report what the bank says (account status + registered
+ * name). Comparing that name with ours, against
+ * BENEFICIARY_NAME_MATCH_THRESHOLD, happens here so every verifier is judged
+ * the same way.
+ *
+ * Fails closed: with BENEFICIARY_NAME_VERIFIER unset or naming an unknown
+ * verifier, every check ends in "error" and beneficiaries stay
+ * pending_verification (unpayable) until one is configured and the check is
+ * retried. Skipping the check takes an explicit BENEFICIARY_NAME_VERIFIER=none;
+ * beneficiaries then only wait out their cooling-off period.
+ */
+
+export interface NameVerificationInput {
+    method: "bank_transfer" | "upi"
+    fullName: string
+    accountNumber: string
+    ifsc: string
+    upiId: string
+    mobile: string
+}
+
+export interface NameVerifierResult {
+    accountStatus: "valid" | "invalid" | "error"
+    registeredName?: string
+    reference?: string     // Verifier's id for the check (e.g. penny-drop transfer id)
+    message?: string
+    raw?: any
+}
+
+export interface BeneficiaryNameVerifier {
+    name: string
+    label: string
+    /** Null when the verifier cannot check this method — the check is skipped. */
+    verify(input: NameVerificationInput): Promise<NameVerifierResult | null>
+}
+
+export type NameVerificationStatus = "verified" | "skipped" | "name_mismatch" | "invalid" | "error"
+
+export interface NameVerificationOutcome {
+    verifier: string
+    status: NameVerificationStatus
+    registeredName: string
+    nameMatchScore: number | null
+    reference: string
+    message: string
+}
+
+const DEFAULT_MATCH_THRESHOLD = 0.8
+
+const noneVerifier: BeneficiaryNameVerifier = {
+    name: "none",
+    label: "No name verification",
+    verify: async () => null,
+}
+
+const verifiers = new Map<string, BeneficiaryNameVerifier>()
+
+export function registerNameVerifier(verifier: BeneficiaryNameVerifier): void {
+    verifiers.set(verifier.name, verifier)
+}
+
+registerNameVerifier(noneVerifier)
+
+/**
+ * The verifier named by BENEFICIARY_NAME_VERIFIER, or why there is none.
+ */
+export function getNameVerifier(): { verifier: BeneficiaryNameVerifier } | { error: string } {
+    const name = (process.env.BENEFICIARY_NAME_VERIFIER || "").trim().toLowerCase()
+    if (!name) return { error: "No name verifier configured (BENEFICIARY_NAME_VERIFIER)" }
+
+    const verifier = verifiers.get(name)
+    if (!verifier) {
+        console.warn(`[BeneficiaryVerification] Unknown verifier '${name}' — beneficiaries stay unverified`)
+        return { error: `Unknown name verifier '${name}'` }
+    }
+    return { verifier }
+}
+
+function getMatchThreshold(): number {
+    const value = Number(process.env.BENEFICIARY_NAME_MATCH_THRESHOLD)
+    return Number.isFinite(value) && value > 0 && value <= 1 ? value : DEFAULT_MATCH_THRESHOLD
+}
+
+// ─── Name Matching ────────────────────────────────────────────────────────────
+
+const HONORIFICS = new Set(["MR", "MRS", "MS", "MISS", "DR", "SHRI", "SMT", "KUMARI", "M/S"])
+
+function nameTokens(name: string): string[] {
+    return name
+        .toUpperCase()
+        .split(/[^A-Z/]+/)
+        .filter((t) => t && !HONORIFICS.has(t))
+        .map((t) => t.replace(/\//g, ""))
+        .filter(Boolean)
+}
+
+/**
+ * Similarity (0–1) between two person/business names. Word order, case,
+ * punctuation and honorifics are ignored; a single letter matches a word with
+ * that initial ("R K SHARMA" ~ "RAHUL KUMAR SHARMA").
+ */
+export function nameMatchScore(a: string, b: string): number {
+    const left = nameTokens(a)
+    const right = nameTokens(b)
+    if (left.length === 0 || right.length === 0) return 0
+
+    const unused = [...right]
+    let matched = 0
+    for (const token of left) {
+        let index = unused.indexOf(token)
+        if (index === -1) {
+            index = unused.findIndex((other) =>
+                (token.length === 1 && other.startsWith(token)) || (other.length === 1 && token.startsWith(other))
+            )
+        }
+        if (index !== -1) {
+            matched++
+            unused.splice(index, 1)
+        }
+    }
+
+    return Number(((matched / left.length + matched / right.length) / 2).toFixed(2))
+}
+
+// ─── Verification ─────────────────────────────────────────────────────────────
+
+/**
+ * Run the configured verifier for a beneficiary. Never throws — a verifier
+ * failure, or no verifier configured, comes back as status "error" so the
+ * check can be retried.
+ */
+export async function verifyBeneficiaryName(input: NameVerificationInput): Promise<NameVerificationOutcome> {
+    const configured = getNameVerifier()
+    if ("error" in configured) {
+        return { verifier: "", status: "error", registeredName: "", nameMatchScore: null, reference: "", message: configured.error }
+    }
+
+    const verifier = configured.verifier
+    const outcome: NameVerificationOutcome = {
+        verifier: verifier.name,
+        status: "skipped",
+        registeredName: "",
+        nameMatchScore: null,
+        reference: "",
+        message: "",
+    }
+
+    let result: NameVerifierResult | null
+    try {
+        result = await verifier.verify(input)
+    } catch (err: any) {
+        console.error(`[BeneficiaryVerification] ${verifier.label} failed:`, err.message)
+        return { ...outcome, status: "error", message: err.message }
+    }
+
+    if (!result) return { ...outcome, message: `${verifier.label} — check skipped` }
+
+    outcome.reference = result.reference || ""
+    outcome.message = result.message || ""
+
+    if (result.accountStatus === "error") return { ...outcome, status: "error" }
+    if (result.accountStatus === "invalid") return { ...outcome, status: "invalid" }
+
+    outcome.registeredName = result.registeredName || ""
+    if (!outcome.registeredName) {
+        // Account exists but the bank did not share the holder's name
+        return { ...outcome, status: "error", message: outcome.message || "Bank did not return the account holder name" }
+    }
+
+    outcome.nameMatchScore = nameMatchScore(input.fullName, outcome.registeredName)
+    outcome.status = outcome.nameMatchScore >= getMatchThreshold() ? "verified" : "name_mismatch"
+    return outcome
+}
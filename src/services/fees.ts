@@ -0,0 +1,131 @@
+/**
+ * Pay-in Fees
+ * ===========
+ * Works out what the platform keeps from a completed payment, using the
+ * merchant's PricingPlan (see models/PricingPlan.ts for the rules).
+ *
+ * Without an assigned or default plan the platform rate applies:
+ * PAYIN_FEE_PERCENT (default 2%) plus GST on the fee (PAYIN_FEE_GST_PERCENT,
+ * default 18%).
+ */
+
+import PricingPlan from "../models/PricingPlan"
+import User from "../models/User"
+import { getTransactionProvider } from "../providers"
+
+const DEFAULT_FEE_PERCENT = 2
+const DEFAULT_GST_PERCENT = 18
+
+export interface FeeBreakdown {
+    gross: number
+    fee: number
+    tax: number
+    net: number
+    planId: any | null
+    planName: string
+    // Which plan rule priced it, e.g. "base", "override:razorpay/card", "override:upi slab 0-2000"
+    rule: string
+}
+
+interface FeeRule {
+    feePercent?: number
+    flatFee?: number
+    slabs?: { minAmount?: number; maxAmount?: number | null; feePercent?: number; flatFee?: number }[]
+}
+
+function round2(n: number): number {
+    return Math.round(n * 100) / 100
+}
+
+function percentFromEnv(name: string, fallback: number): number {
+    const value = Number(process.env[name])
+    return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+/**
+ * Payment method as reported by the gateway ("upi", "card", ...), if known.
+ */
+function getPaymentMethod(txn: any): string | null {
+    const method = txn.paymentMethod || txn.notes?.razorpay_payment_method
+    return method ? String(method).toLowerCase() : null
+}
+
+/**
+ * Pick the most specific override for provider/method, else the plan itself.
+ */
+function selectRule(plan: any, provider: string | null, method: string | null): { rule: FeeRule; label: string } {
+    const overrides: any[] = plan.overrides || []
+    const candidates = [
+        overrides.find((o) => o.provider && o.method && o.provider === provider && o.method === method),
+        overrides.find((o) => o.provider && !o.method && o.provider === provider),
+        overrides.find((o) => !o.provider && o.method && o.method === method),
+    ]
+    const match = candidates.find(Boolean)
+    if (!match) return { rule: plan, label: "base" }
+    return { rule: match, label: `override:${[match.provider, match.method].filter(Boolean).join("/")}` }
+}
+
+/**
+ * Price an amount under a plan (exported for plan previews in the admin API).
+ */
+export function priceWithPlan(
+    plan: any,
+    amount: number,
+    context: { provider?: string | null; method?: string | null } = {}
+): Omit<FeeBreakdown, "planId" | "planName"> {
+    const gross = round2(amount)
+    const { rule, label } = selectRule(plan, context.provider || null, context.method || null)
+
+    let feePercent = rule.feePercent || 0
+    let flatFee = rule.flatFee || 0
+    let ruleLabel = label
+
+    const slab = (rule.slabs || []).find(
+        (s) => gross >= (s.minAmount || 0) && (s.maxAmount === null || s.maxAmount === undefined || gross <= s.maxAmount)
+    )
+    if (slab) {
+        feePercent = slab.feePercent || 0
+        flatFee = slab.flatFee || 0
+        ruleLabel = `${label} slab ${slab.minAmount || 0}-${slab.maxAmount ?? "∞"}`
+    }
+
+    let fee = (gross * feePercent) / 100 + flatFee
+    if (plan.minFee !== null && plan.minFee !== undefined) fee = Math.max(fee, plan.minFee)
+    if (plan.maxFee !== null && plan.maxFee !== undefined) fee = Math.min(fee, plan.maxFee)
+
+    // Never charge more than the payment itself
+    fee = Math.min(gross, round2(fee))
+    const gstPercent = plan.gstPercent ?? percentFromEnv("PAYIN_FEE_GST_PERCENT", DEFAULT_GST_PERCENT)
+    const tax = Math.min(round2(gross - fee), round2((fee * gstPercent) / 100))
+
+    return { gross, fee, tax, net: round2(gross - fee - tax), rule: ruleLabel }
+}
+
+/**
+ * Fee breakdown for a transaction under its merchant's plan.
+ */
+export async function calculatePayinFees(txn: any): Promise<FeeBreakdown> {
+    let plan: any = null
+
+    if (txn.userId) {
+        const merchant: any = await User.findById(txn.userId).select("pricingPlanId")
+        if (merchant?.pricingPlanId) {
+            plan = await PricingPlan.findOne({ _id: merchant.pricingPlanId, active: true }).lean()
+        }
+    }
+    if (!plan) {
+        plan = await PricingPlan.findOne({ isDefault: true, active: true }).sort({ updatedAt: -1 }).lean()
+    }
+
+    const context = { provider: getTransactionProvider(txn)?.name || null, method: getPaymentMethod(txn) }
+
+    if (!plan) {
+        const platformRate = {
+            feePercent: percentFromEnv("PAYIN_FEE_PERCENT", DEFAULT_FEE_PERCENT),
+            gstPercent: percentFromEnv("PAYIN_FEE_GST_PERCENT", DEFAULT_GST_PERCENT),
+        }
+        return { ...priceWithPlan(platformRate, txn.amount, context), planId: null, planName: "platform default" }
+    }
+
+    return { ...priceWithPlan(plan, txn.amount, context), planId: plan._id, planName: plan.name }
+}
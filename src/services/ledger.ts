@@ -0,0 +1,317 @@
+/**
+ * Ledger Service
+ * ==============
+ * Double-entry bookkeeping behind merchant balances.
+ *
+ * All wallet changes go through `postJournal` (or one of the helpers below);
+ * nothing else may `$inc` User.walletBalance / User.pendingBalance. Those two
+ * fields are caches of the merchant_available / merchant_pending lines and can
+ * be rebuilt from the ledger with `rebuildCachedBalances`.
+ *
+ * Sign convention: merchant accounts are liabilities, so a CREDIT increases
+ * the merchant's balance and a DEBIT decreases it.
+ *
+ * Journals are keyed by business event ("payout:<id>:request", ...). Posting
+ * the same key twice is a no-op, so retries and duplicate webhooks are safe.
+ */
+
+import mongoose from "mongoose"
+import LedgerEntry, { LEDGER_ACCOUNTS, LEDGER_REFERENCE_TYPES } from "../models/LedgerEntry"
+import User from "../models/User"
+
+export type LedgerAccount = (typeof LEDGER_ACCOUNTS)[number]
+export type LedgerReferenceType = (typeof LEDGER_REFERENCE_TYPES)[number]
+
+export interface LedgerLine {
+    account: LedgerAccount
+    direction: "debit" | "credit"
+    amount: number
+    // Required for merchant_* accounts
+    userId?: any
+}
+
+export interface JournalInput {
+    key: string
+    lines: LedgerLine[]
+    reference: { type: LedgerReferenceType; id?: any; ref?: string }
+    memo?: string
+    currency?: string
+    createdBy?: any
+    // Refuse the journal if it would take merchant_available below zero
+    requireFunds?: boolean
+    // Write entries without touching the cached balances (opening balances only)
+    skipBalanceCache?: boolean
+}
+
+export type PostResult =
+    | { posted: true; entries: any[] }
+    | { posted: false; reason: "duplicate" | "insufficient_funds" }
+
+// Cached User field for each merchant account
+const BALANCE_FIELDS: Partial<Record<LedgerAccount, "walletBalance" | "pendingBalance">> = {
+    merchant_available: "walletBalance",
+    merchant_pending: "pendingBalance",
+}
+
+function round2(n: number): number {
+    return Math.round(n * 100) / 100
+}
+
+function isDuplicateKeyError(err: any): boolean {
+    return err?.code === 11000 || err?.writeErrors?.some((e: any) => e?.code === 11000)
+}
+
+// ─── Posting ──────────────────────────────────────────────────────────────────
+
+/**
+ * Post a balanced journal and update the cached merchant balances.
+ */
+export async function postJournal(input: JournalInput): Promise<PostResult> {
+    const { key, lines, reference, memo = "", currency = "INR", createdBy = null } = input
+
+    if (lines.length < 2) throw new Error(`Journal ${key} needs at least two lines`)
+    let debits = 0
+    let credits = 0
+    for (const line of lines) {
+        if (!(line.amount > 0)) throw new Error(`Journal ${key} has a non-positive amount`)
+        if (BALANCE_FIELDS[line.account] && !line.userId) throw new Error(`Journal ${key}: ${line.account} line needs a userId`)
+        if (line.direction === "debit") debits += line.amount
+        else credits += line.amount
+    }
+    if (round2(debits) !== round2(credits)) {
+        throw new Error(`Journal ${key} is unbalanced (debits ${round2(debits)} ≠ credits ${round2(credits)})`)
+    }
+
+    if (await LedgerEntry.exists({ journalKey: key })) {
+        return { posted: false, reason: "duplicate" }
+    }
+
+    // ── Net change per merchant cache field ───────────────────────────────────
+    const deltas = new Map<string, { userId: any; field: "walletBalance" | "pendingBalance"; amount: number }>()
+    if (!input.skipBalanceCache) {
+        for (const line of lines) {
+            const field = BALANCE_FIELDS[line.account]
+            if (!field) continue
+            const mapKey = `${line.userId}:${field}`
+            const delta = deltas.get(mapKey) || { userId: line.userId, field, amount: 0 }
+            delta.amount = round2(delta.amount + (line.direction === "credit" ? line.amount : -line.amount))
+            deltas.set(mapKey, delta)
+        }
+    }
+
+    const applied: { userId: any; field: string; amount: number }[] = []
+    const undo = async () => {
+        for (const d of applied) {
+            await User.updateOne({ _id: d.userId }, { $inc: { [d.field]: -d.amount } })
+        }
+    }
+
+    // Debits first, so a funds check fails before anything is credited
+    const ordered = Array.from(deltas.values()).filter((d) => d.amount !== 0).sort((a, b) => a.amount - b.amount)
+    for (const d of ordered) {
+        const guarded = input.requireFunds && d.field === "walletBalance" && d.amount < 0
+        const filter: Record<string, any> = { _id: d.userId }
+        if (guarded) filter.walletBalance = { $gte: -d.amount }
+
+        const res = await User.updateOne(filter, { $inc: { [d.field]: d.amount } })
+        if (res.matchedCount === 0) {
+            await undo()
+            if (guarded) return { posted: false, reason: "insufficient_funds" }
+            throw new Error(`Journal ${key}: merchant ${d.userId} not found`)
+        }
+        applied.push(d)
+    }
+
+    // ── Write the lines ───────────────────────────────────────────────────────
+    try {
+        const entries = await LedgerEntry.insertMany(
+            lines.map((line, i) => ({
+                journalKey: key,
+                line: i + 1,
+                account: line.account,
+                userId: line.userId || null,
+                direction: line.direction,
+                amount: round2(line.amount),
+                currency,
+                reference: { type: reference.type, id: reference.id || null, ref: reference.ref || "" },
+                memo,
+                createdBy,
+            })),
+            { ordered: true }
+        )
+        console.log(`[Ledger] 📒 Posted ${key} (${round2(debits)} ${currency}, ${lines.length} lines)`)
+        return { posted: true, entries }
+    } catch (err: any) {
+        await undo()
+        if (isDuplicateKeyError(err)) {
+            // Lost a race with a concurrent post of the same event
+            return { posted: false, reason: "duplicate" }
+        }
+        await LedgerEntry.deleteMany({ journalKey: key })
+        throw err
+    }
+}
+
+// ─── Balances ─────────────────────────────────────────────────────────────────
+
+/**
+ * Merchant balances derived from the ledger (source of truth).
+ */
+export async function getLedgerBalances(userId: any): Promise<{ available: number; pending: number }> {
+    const rows = await LedgerEntry.aggregate([
+        { $match: { userId: new mongoose.Types.ObjectId(String(userId)), account: { $in: ["merchant_available", "merchant_pending"] } } },
+        {
+            $group: {
+                _id: "$account",
+                balance: { $sum: { $cond: [{ $eq: ["$direction", "credit"] }, "$amount", { $multiply: ["$amount", -1] }] } },
+            },
+        },
+    ])
+
+    const byAccount = Object.fromEntries(rows.map((r: any) => [r._id, round2(r.balance)]))
+    return {
+        available: byAccount.merchant_available || 0,
+        pending: byAccount.merchant_pending || 0,
+    }
+}
+
+/**
+ * Reset the cached balances on User from the ledger.
+ * Returns the cached values before and after so drift can be reported.
+ */
+export async function rebuildCachedBalances(userId: any) {
+    const user: any = await User.findById(userId).select("walletBalance pendingBalance")
+    if (!user) return null
+
+    const derived = await getLedgerBalances(userId)
+    const before = { available: user.walletBalance || 0, pending: user.pendingBalance || 0 }
+
+    await User.updateOne({ _id: userId }, { $set: { walletBalance: derived.available, pendingBalance: derived.pending } })
+
+    const drift = round2(before.available - derived.available) !== 0 || round2(before.pending - derived.pending) !== 0
+    if (drift) {
+        console.warn(`[Ledger] ⚠️ Cache drift for ${userId}: cached=${JSON.stringify(before)} ledger=${JSON.stringify(derived)}`)
+    }
+    return { before, after: derived, drift }
+}
+
+// ─── Business events ──────────────────────────────────────────────────────────
+
+/**
+ * Merchant asked for a payout — money moves from available to payout clearing.
+ */
+export function recordPayoutRequested(payout: { _id: any; userId: any; amount: number }, createdBy?: any) {
+    return postJournal({
+        key: `payout:${payout._id}:request`,
+        requireFunds: true,
+        reference: { type: "payout", id: payout._id, ref: String(payout._id) },
+        memo: "Payout requested",
+        createdBy: createdBy || payout.userId,
+        lines: [
+            { account: "merchant_available", userId: payout.userId, direction: "debit", amount: payout.amount },
+            { account: "payout_clearing", direction: "credit", amount: payout.amount },
+        ],
+    })
+}
+
+/**
+ * Payout rejected/failed before money left — give it back to the merchant.
+ */
+export function recordPayoutReversed(payout: { _id: any; userId: any; amount: number }, memo: string, createdBy?: any) {
+    return postJournal({
+        key: `payout:${payout._id}:reversal`,
+        reference: { type: "payout", id: payout._id, ref: String(payout._id) },
+        memo,
+        createdBy,
+        lines: [
+            { account: "payout_clearing", direction: "debit", amount: payout.amount },
+            { account: "merchant_available", userId: payout.userId, direction: "credit", amount: payout.amount },
+        ],
+    })
+}
+
+/**
+ * Payout sent — money leaves the platform through the payout gateway/bank.
+ */
+export function recordPayoutSettled(payout: { _id: any; userId: any; amount: number }, createdBy?: any) {
+    return postJournal({
+        key: `payout:${payout._id}:settled`,
+        reference: { type: "payout", id: payout._id, ref: String(payout._id) },
+        memo: "Payout completed",
+        createdBy,
+        lines: [
+            { account: "payout_clearing", direction: "debit", amount: payout.amount },
+            { account: "provider_clearing", direction: "credit", amount: payout.amount },
+        ],
+    })
+}
+
+/**
+ * Settled payout sent back by the bank — the money returns to the merchant.
+ */
+export function recordPayoutReturned(payout: { _id: any; userId: any; amount: number }, memo: string, createdBy?: any) {
+    return postJournal({
+        key: `payout:${payout._id}:returned`,
+        reference: { type: "payout", id: payout._id, ref: String(payout._id) },
+        memo,
+        createdBy,
+        lines: [
+            { account: "provider_clearing", direction: "debit", amount: payout.amount },
+            { account: "merchant_available", userId: payout.userId, direction: "credit", amount: payout.amount },
+        ],
+    })
+}
+
+/**
+ * Refund created — the merchant funds it from their available balance; the
+ * gateway returns it to the payer. Refused if available funds are short.
+ */
+export function recordRefundCreated(refund: { _id: any; refundId: string; userId: any; amount: number; currency?: string }) {
+    return postJournal({
+        key: `refund:${refund.refundId}:created`,
+        currency: refund.currency,
+        reference: { type: "refund", id: refund._id, ref: refund.refundId },
+        memo: "Refund created",
+        requireFunds: true,
+        lines: [
+            { account: "merchant_available", userId: refund.userId, direction: "debit", amount: refund.amount },
+            { account: "provider_clearing", direction: "credit", amount: refund.amount },
+        ],
+    })
+}
+
+/**
+ * Refund failed — undo recordRefundCreated.
+ */
+export function recordRefundFailed(refund: { _id: any; refundId: string; userId: any; amount: number; currency?: string }) {
+    return postJournal({
+        key: `refund:${refund.refundId}:failed`,
+        currency: refund.currency,
+        reference: { type: "refund", id: refund._id, ref: refund.refundId },
+        memo: "Refund failed — amount returned",
+        lines: [
+            { account: "provider_clearing", direction: "debit", amount: refund.amount },
+            { account: "merchant_available", userId: refund.userId, direction: "credit", amount: refund.amount },
+        ],
+    })
+}
+
+/**
+ * Manual admin correction. Positive amount credits the merchant, negative debits.
+ */
+export function recordAdjustment(params: { userId: any; amount: number; memo: string; createdBy: any }) {
+    const { userId, amount, memo, createdBy } = params
+    const id = new mongoose.Types.ObjectId()
+    const credit = amount > 0
+
+    return postJournal({
+        key: `adjustment:${id}`,
+        reference: { type: "adjustment", id, ref: String(id) },
+        memo,
+        createdBy,
+        lines: [
+            { account: "adjustments", direction: credit ? "debit" : "credit", amount: Math.abs(amount) },
+            { account: "merchant_available", userId, direction: credit ? "credit" : "debit", amount: Math.abs(amount) },
+        ],
+    })
+}
@@ -0,0 +1,397 @@
+/**
+ * Payout Batches
+ * ==============
+ * Bulk payouts from one CSV or JSON upload (models/PayoutBatch.ts):
+ *
+ *   createPayoutBatch    — validate every row, check the total against the
+ *                          wallet, then request one payout per row
+ *   approvePayoutBatch   — approve every payout in the batch
+ *   rejectPayoutBatch    — reject every payout in the batch (holds released)
+ *   dispatchPayoutBatch  — send every approved bank payout to RezoPay (in the background)
+ *   getBatchResults      — per-row outcome joined with each payout's live status
+ *
+ * A row names a saved beneficiary by `beneficiaryId`, or by its details
+ * (method, fullName, mobile, accountNumber, ifsc, bank / upiId), which must
+ * match a beneficiary the merchant already saved — bulk uploads do not skip
+ * the cooling-off period or name check (services/beneficiaries.ts).
+ *
+ * Each payout goes through services/payouts.ts exactly as a single request
+ * would. Functions resolve with `{ error, statusCode }` instead of throwing
+ * for expected failures.
+ */
+
+import crypto from "crypto"
+import mongoose from "mongoose"
+import Beneficiary from "../models/Beneficiary"
+import Payout from "../models/Payout"
+import PayoutBatch from "../models/PayoutBatch"
+import { beneficiaryFingerprint, payableBlockReason, validateBeneficiaryInput } from "./beneficiaries"
+import { getLedgerBalances } from "./ledger"
+import { approvePayout, dispatchPayout, rejectPayout, requestPayout, validatePayoutAmount } from "./payouts"
+import { transitionPayout } from "../utils/payoutState"
+
+export const MAX_BATCH_ROWS = 1000
+
+// A dispatch that has not renewed its lease for this long is presumed dead
+const DISPATCH_LEASE_MS = 5 * 60 * 1000
+
+// Columns of the downloadable results file
+export const BATCH_RESULT_COLUMNS = [
+    "row",
+    "reference",
+    "amount",
+    "beneficiaryId",
+    "rowStatus",
+    "errors",
+    "orderid",
+    "payoutStatus",
+    "utr",
+    "gatewayMessage",
+    "dispatchError",
+    "processedAt",
+]
+
+export type PayoutBatchResult = { batch: any } | { error: string; statusCode: number; errors?: string[] }
+
+export interface PayoutBatchUpload {
+    records: Record<string, any>[]
+    format: "csv" | "json"
+    fileName?: string
+}
+
+function generateBatchId(): string {
+    return `pbt_${Date.now()}${crypto.randomBytes(3).toString("hex")}`
+}
+
+function round2(value: number): number {
+    return Math.round(value * 100) / 100
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+/**
+ * Check every row and resolve it to a payable saved beneficiary.
+ */
+async function validateRows(userId: any, records: Record<string, any>[]): Promise<any[]> {
+    const rows = records.map((record, i) => {
+        const row: any = {
+            row: i + 1,
+            reference: record.reference ? String(record.reference).trim().slice(0, 100) : "",
+            amount: null,
+            beneficiaryId: null,
+            input: record,
+            status: "valid",
+            validationErrors: [] as string[],
+        }
+
+        const amount = validatePayoutAmount(record.amount)
+        if (amount === null) row.validationErrors.push("amount must be a positive number (minimum ₹1)")
+        row.amount = amount
+
+        if (record.beneficiaryId) {
+            if (!mongoose.isValidObjectId(record.beneficiaryId)) {
+                row.validationErrors.push("beneficiaryId is not a valid id")
+            } else {
+                row.beneficiaryId = String(record.beneficiaryId)
+            }
+        } else {
+            const validated = validateBeneficiaryInput({ ...record, method: record.method || undefined })
+            if ("errors" in validated) {
+                row.validationErrors.push(...validated.errors)
+            } else {
+                row.fingerprint = beneficiaryFingerprint(validated.data)
+            }
+        }
+        return row
+    })
+
+    const seenReferences = new Set<string>()
+    for (const row of rows) {
+        if (!row.reference) continue
+        if (seenReferences.has(row.reference)) row.validationErrors.push(`reference '${row.reference}' appears more than once`)
+        seenReferences.add(row.reference)
+    }
+
+    // One lookup for all referenced beneficiaries
+    const ids = rows.filter((r) => r.beneficiaryId).map((r) => r.beneficiaryId)
+    const fingerprints = rows.filter((r) => r.fingerprint).map((r) => r.fingerprint)
+    const beneficiaries: any[] = ids.length || fingerprints.length
+        ? await Beneficiary.find({ userId, $or: [{ _id: { $in: ids } }, { fingerprint: { $in: fingerprints } }] })
+        : []
+    const byId = new Map(beneficiaries.map((b) => [String(b._id), b]))
+    const byFingerprint = new Map(beneficiaries.map((b) => [b.fingerprint, b]))
+
+    for (const row of rows) {
+        if (row.beneficiaryId || row.fingerprint) {
+            const beneficiary = row.beneficiaryId ? byId.get(row.beneficiaryId) : byFingerprint.get(row.fingerprint)
+            if (!beneficiary && row.fingerprint) {
+                row.validationErrors.push("No saved beneficiary with these details — add it via /api/beneficiaries first")
+            } else {
+                const reason = payableBlockReason(beneficiary)
+                if (reason) row.validationErrors.push(reason)
+                else row.beneficiaryId = String(beneficiary._id)
+            }
+        }
+        delete row.fingerprint
+        if (row.validationErrors.length > 0) row.status = "invalid"
+    }
+
+    return rows
+}
+
+// ─── Lifecycle ────────────────────────────────────────────────────────────────
+
+/**
+ * Validate an upload and, if every row passes and the wallet covers the total,
+ * request one payout per row. An invalid batch is still saved so its per-row
+ * errors can be downloaded.
+ */
+export async function createPayoutBatch(userId: any, upload: PayoutBatchUpload): Promise<PayoutBatchResult> {
+    if (upload.records.length === 0) {
+        return { error: "Batch has no rows", statusCode: 400 }
+    }
+    if (upload.records.length > MAX_BATCH_ROWS) {
+        return { error: `Batch exceeds ${MAX_BATCH_ROWS} rows; split it into smaller files`, statusCode: 400 }
+    }
+
+    const rows = await validateRows(userId, upload.records)
+    const invalid = rows.filter((r) => r.status === "invalid").length
+    const amount = round2(rows.reduce((sum, r) => sum + (r.amount || 0), 0))
+
+    const batchErrors: string[] = []
+    if (invalid > 0) batchErrors.push(`${invalid} of ${rows.length} rows failed validation`)
+
+    const { available } = await getLedgerBalances(userId)
+    if (amount > available) {
+        batchErrors.push(`Batch total ₹${amount} exceeds available wallet balance ₹${available}`)
+    }
+
+    const batch: any = await PayoutBatch.create({
+        batchId: generateBatchId(),
+        userId,
+        fileName: upload.fileName ? String(upload.fileName).slice(0, 200) : "",
+        format: upload.format,
+        status: batchErrors.length > 0 ? "invalid" : "pending",
+        validationErrors: batchErrors,
+        totals: { rows: rows.length, valid: rows.length - invalid, invalid, amount },
+        rows,
+    })
+
+    if (batch.status === "invalid") {
+        console.log(`[PayoutBatches] ❌ ${batch.batchId} rejected at upload: ${batchErrors.join("; ")}`)
+        return { batch }
+    }
+
+    // Holds are taken row by row; one can still fail if the balance moved since the check.
+    // Each payout is written to its row as soon as it exists, so none is ever unreferenced.
+    const created: any[] = []
+    let failed = 0
+    try {
+        for (const row of batch.rows) {
+            const result = await requestPayout(userId, { amount: row.amount, beneficiaryId: row.beneficiaryId, batchId: batch._id })
+            const set = "error" in result
+                ? { "rows.$.status": "failed", "rows.$.validationErrors": result.errors?.length ? result.errors : [result.error] }
+                : { "rows.$.status": "created", "rows.$.payoutId": result.payout._id, "rows.$.orderid": result.payout.orderid }
+            if ("error" in result) failed++
+            else created.push(result.payout._id)
+
+            await PayoutBatch.updateOne(
+                { _id: batch._id, "rows.row": row.row },
+                { $set: { ...set, "totals.created": created.length, "totals.failed": failed } }
+            )
+        }
+    } catch (err: any) {
+        console.error(`[PayoutBatches] 🔥 ${batch.batchId} failed after ${created.length} payouts — releasing their holds:`, err.message)
+        await abandonBatch(batch, created, `Upload failed part-way: ${err.message}`)
+        throw err
+    }
+
+    console.log(`[PayoutBatches] ✅ ${batch.batchId}: ${created.length} payouts requested (₹${amount}), ${failed} failed`)
+    return { batch: await PayoutBatch.findById(batch._id) }
+}
+
+/**
+ * Reject a half-created batch and the payouts it did create, releasing their holds.
+ */
+async function abandonBatch(batch: any, payoutIds: any[], reason: string) {
+    await PayoutBatch.updateOne(
+        { _id: batch._id },
+        { $set: { status: "rejected", adminComment: reason }, $push: { validationErrors: reason } }
+    )
+    for (const payoutId of payoutIds) {
+        const result = await transitionPayout({ _id: payoutId }, { to: "rejected", source: "bulk_upload", note: reason })
+        if (!result.ok) console.error(`[PayoutBatches] ${batch.batchId}: could not reject payout ${payoutId} (${result.reason})`)
+    }
+}
+
+function createdPayoutIds(batch: any): any[] {
+    return batch.rows.filter((r: any) => r.payoutId).map((r: any) => r.payoutId)
+}
+
+/**
+ * Move a batch between statuses, refusing if someone else moved it first.
+ */
+async function claimBatch(batchId: string, from: string[], set: Record<string, any>): Promise<PayoutBatchResult> {
+    const batch = await PayoutBatch.findOneAndUpdate({ batchId, status: { $in: from } }, { $set: set }, { new: true })
+    if (batch) return { batch }
+
+    const current: any = await PayoutBatch.findOne({ batchId }).select("status")
+    if (!current) return { error: "Payout batch not found", statusCode: 404 }
+    return { error: `Payout batch is already in '${current.status}' state`, statusCode: 409 }
+}
+
+export async function approvePayoutBatch(batchId: string, adminId: any, comment?: string): Promise<PayoutBatchResult> {
+    const claimed = await claimBatch(batchId, ["pending"], {
+        status: "approved",
+        adminComment: comment || "Approved by admin",
+        reviewedBy: adminId,
+        reviewedAt: new Date(),
+    })
+    if ("error" in claimed) return claimed
+
+    for (const payoutId of createdPayoutIds(claimed.batch)) {
+        const result = await approvePayout(payoutId, adminId, comment || `Approved with batch ${batchId}`)
+        if ("error" in result) console.warn(`[PayoutBatches] ${batchId}: payout ${payoutId} not approved — ${result.error}`)
+    }
+
+    console.log(`[PayoutBatches] ✅ ${batchId} approved by ${adminId}`)
+    return claimed
+}
+
+export async function rejectPayoutBatch(batchId: string, adminId: any, comment?: string): Promise<PayoutBatchResult> {
+    const note = comment || "Rejected by admin"
+    const claimed = await claimBatch(batchId, ["pending", "approved"], {
+        status: "rejected",
+        adminComment: note,
+        reviewedBy: adminId,
+        reviewedAt: new Date(),
+    })
+    if ("error" in claimed) return claimed
+
+    for (const payoutId of createdPayoutIds(claimed.batch)) {
+        const result = await rejectPayout(payoutId, adminId, note)
+        if ("error" in result) console.warn(`[PayoutBatches] ${batchId}: payout ${payoutId} not rejected — ${result.error}`)
+    }
+
+    console.log(`[PayoutBatches] ❌ ${batchId} rejected by ${adminId}`)
+    return claimed
+}
+
+/**
+ * Claim an approved batch for dispatch and send its bank payouts to RezoPay
+ * in the background — a batch can hold up to MAX_BATCH_ROWS gateway calls,
+ * too many for one request. Resolves with the batch in `dispatching`; it
+ * moves to `dispatched` once every row has been tried. UPI payouts stay
+ * approved for manual completion.
+ *
+ * Only one dispatch runs per batch: it holds a lease it renews after every
+ * row. A batch left in `dispatching` whose lease went stale (e.g. the server
+ * restarted mid-way) can be dispatched again; each payout is claimed before
+ * its gateway call, so the ones already sent are skipped.
+ */
+export async function dispatchPayoutBatch(batchId: string, adminId: any): Promise<PayoutBatchResult> {
+    const now = new Date()
+    const runId = crypto.randomBytes(6).toString("hex")
+    const staleBefore = new Date(now.getTime() - DISPATCH_LEASE_MS)
+
+    const batch: any = await PayoutBatch.findOneAndUpdate(
+        {
+            batchId,
+            $or: [
+                { status: "approved" },
+                { status: "dispatching", $or: [{ dispatchLeaseAt: null }, { dispatchLeaseAt: { $lt: staleBefore } }] },
+            ],
+        },
+        { $set: { status: "dispatching", dispatchRunId: runId, dispatchLeaseAt: now } },
+        { new: true }
+    )
+    if (!batch) {
+        const current: any = await PayoutBatch.findOne({ batchId }).select("status")
+        if (!current) return { error: "Payout batch not found", statusCode: 404 }
+        if (current.status === "dispatching") return { error: "Payout batch is already being dispatched", statusCode: 409 }
+        return { error: `Payout batch is already in '${current.status}' state`, statusCode: 409 }
+    }
+
+    runBatchDispatch(batch, runId, adminId).catch((err) =>
+        console.error(`[PayoutBatches] ${batchId}: dispatch stopped, batch left in 'dispatching':`, err.message)
+    )
+    return { batch }
+}
+
+async function runBatchDispatch(batch: any, runId: string, adminId: any) {
+    const { batchId } = batch
+    const payouts: any[] = await Payout.find({ _id: { $in: createdPayoutIds(batch) } }).select("status method")
+    const byId = new Map(payouts.map((p) => [String(p._id), p]))
+
+    // Write one row's result and renew the lease; false once another run took the batch over
+    const recordRow = async (row: any, dispatchError: string): Promise<boolean> => {
+        const res = await PayoutBatch.updateOne(
+            { _id: batch._id, status: "dispatching", dispatchRunId: runId, "rows.row": row.row },
+            { $set: { "rows.$.dispatchError": dispatchError, dispatchLeaseAt: new Date() } }
+        )
+        return res.matchedCount > 0
+    }
+
+    for (const row of batch.rows) {
+        const payout = row.payoutId ? byId.get(String(row.payoutId)) : null
+        if (!payout) continue
+
+        let dispatchError = ""
+        if (payout.method !== "bank_transfer") {
+            dispatchError = "UPI payouts are completed manually"
+        } else if (payout.status !== "approved") {
+            // Already sent on an earlier attempt, or taken out of the batch (e.g. rejected on its own)
+            if (!["processing", "success"].includes(payout.status)) dispatchError = `Payout is '${payout.status}'`
+        } else {
+            try {
+                const result = await dispatchPayout(payout._id, adminId)
+                dispatchError = "error" in result ? result.error : ""
+            } catch (err: any) {
+                console.error(`[PayoutBatches] ${batchId}: dispatch of ${row.orderid} failed:`, err.message)
+                dispatchError = "Dispatch failed — check the payout"
+            }
+        }
+
+        if (!(await recordRow(row, dispatchError))) {
+            console.warn(`[PayoutBatches] ${batchId}: lost the dispatch lease at row ${row.row} — stopping`)
+            return
+        }
+    }
+
+    await PayoutBatch.updateOne(
+        { _id: batch._id, status: "dispatching", dispatchRunId: runId },
+        { $set: { status: "dispatched", dispatchedAt: new Date(), dispatchLeaseAt: null } }
+    )
+
+    console.log(`[PayoutBatches] 🚀 ${batchId} dispatched by ${adminId}`)
+}
+
+// ─── Results ──────────────────────────────────────────────────────────────────
+
+/**
+ * One entry per uploaded row (keys: BATCH_RESULT_COLUMNS), with the payout's current status.
+ */
+export async function getBatchResults(batch: any): Promise<Record<string, any>[]> {
+    const payouts: any[] = await Payout.find({ _id: { $in: createdPayoutIds(batch) } })
+        .select("status utr gatewayMessage processedAt")
+        .lean()
+    const byId = new Map(payouts.map((p) => [String(p._id), p]))
+
+    return batch.rows.map((row: any) => {
+        const payout = row.payoutId ? byId.get(String(row.payoutId)) : null
+        return {
+            row: row.row,
+            reference: row.reference,
+            amount: row.amount,
+            beneficiaryId: row.beneficiaryId ? String(row.beneficiaryId) : "",
+            rowStatus: row.status,
+            errors: (row.validationErrors || []).join("; "),
+            orderid: row.orderid,
+            payoutStatus: payout?.status || "",
+            utr: payout?.utr || "",
+            gatewayMessage: payout?.gatewayMessage || "",
+            dispatchError: row.dispatchError || "",
+            processedAt: payout?.processedAt ? new Date(payout.processedAt).toISOString() : "",
+        }
+    })
+}
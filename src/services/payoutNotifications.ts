@@ -0,0 +1,60 @@
+/**
+ * Payout Notifications
+ * ====================
+ * Tells the requesting user when a gateway payout reaches success, failed or
+ * returned: an email plus a payout.* event to their webhook endpoints.
+ *
+ * Called by utils/payoutState.ts after a validated status change, so every
+ * source (callback, poller, live status check, dispatch) notifies exactly once.
+ * A failed or returned payout that held wallet funds gets its email from the
+ * reversal instead (services/payoutReversals.ts), which also says the amount
+ * is back in the wallet — one email per payout.
+ */
+
+import User from "../models/User"
+import { sendPayoutStatusEmail } from "../utils/email"
+import { firePayoutCallback } from "../utils/merchantCallback"
+
+type FinalPayoutStatus = "success" | "failed" | "returned"
+
+const FINAL_STATUSES: FinalPayoutStatus[] = ["success", "failed", "returned"]
+
+export function isNotifiablePayoutStatus(status: string): status is FinalPayoutStatus {
+    return (FINAL_STATUSES as string[]).includes(status)
+}
+
+/**
+ * Queue the webhook event and, unless a reversal email covers it, email the
+ * user. Never throws.
+ */
+export async function notifyPayoutStatus(payout: any): Promise<void> {
+    const status = payout.status
+    if (!isNotifiablePayoutStatus(status)) return
+
+    await firePayoutCallback(payout.userId, {
+        event: `payout.${status}`,
+        payoutId: payout.orderid,
+        amount: payout.amount,
+        currency: "INR",
+        status,
+        message: payout.gatewayMessage || "",
+        timestamp: new Date().toISOString(),
+        utr: payout.utr || undefined,
+    })
+
+    if (payout.walletHeld && status !== "success") return
+
+    try {
+        const user: any = await User.findById(payout.userId).select("email").lean()
+        if (!user?.email) return
+        await sendPayoutStatusEmail(user.email, {
+            orderid: payout.orderid,
+            amount: payout.amount,
+            status,
+            utr: payout.utr,
+            message: payout.gatewayMessage,
+        })
+    } catch (err: any) {
+        console.error(`[PayoutNotify] Could not email user about ${payout.orderid}:`, err.message)
+    }
+}
@@ -0,0 +1,157 @@
+/**
+ * Payout Reversals
+ * ================
+ * Gives a payout's held amount back to the merchant's wallet when the payout
+ * ends rejected, failed or returned — exactly once, with a PayoutReversal
+ * record linked from Payout.reversalId.
+ *
+ *   reversePayout          — called by utils/payoutState.ts after the status change
+ *   retryPendingReversals  — payout poller sweep for reversals that did not post,
+ *                            and for payouts whose reversal was never started
+ *
+ * Exactly once: the unique PayoutReversal.payoutId admits a single reversal per
+ * payout, the ledger journal key admits a single credit, and only the call that
+ * flips the reversal pending → posted emails the user.
+ */
+
+import crypto from "crypto"
+import Payout from "../models/Payout"
+import PayoutReversal from "../models/PayoutReversal"
+import User from "../models/User"
+import { recordPayoutReturned, recordPayoutReversed } from "./ledger"
+import { sendPayoutReversalEmail } from "../utils/email"
+
+type ReversalReason = "rejected" | "failed" | "returned"
+
+const REVERSAL_REASONS: ReversalReason[] = ["rejected", "failed", "returned"]
+
+// Leave a just-started reversal to the request that started it
+const RETRY_AFTER_MS = 60 * 1000
+
+function generateReversalId(): string {
+    return `prv_${Date.now()}${crypto.randomBytes(3).toString("hex")}`
+}
+
+/**
+ * "return" when the payout had already been settled (success → returned),
+ * otherwise the hold is simply released.
+ */
+function reversalKind(payout: any): "release" | "return" {
+    const history: any[] = payout.statusHistory || []
+    const last = [...history].reverse().find((h) => h.to === payout.status)
+    return last?.from === "success" ? "return" : "release"
+}
+
+async function notifyUser(reversal: any): Promise<void> {
+    try {
+        const user: any = await User.findById(reversal.userId).select("email").lean()
+        if (!user?.email) return
+        await sendPayoutReversalEmail(user.email, {
+            orderid: reversal.orderid,
+            amount: reversal.amount,
+            reason: reversal.reason,
+            reversalId: reversal.reversalId,
+            note: reversal.note,
+        })
+        await PayoutReversal.updateOne({ _id: reversal._id }, { $set: { notifiedAt: new Date() } })
+    } catch (err: any) {
+        console.error(`[PayoutReversal] Could not email user about ${reversal.reversalId}:`, err.message)
+    }
+}
+
+/**
+ * Post the reversal's ledger journal and mark it posted. Safe to repeat.
+ */
+async function postReversal(reversal: any): Promise<any> {
+    if (reversal.status === "posted") return reversal
+
+    try {
+        const payout = { _id: reversal.payoutId, userId: reversal.userId, amount: reversal.amount }
+        const memo = reversal.note || `Payout ${reversal.reason}`
+        // posted or duplicate — either way the credit is in the ledger now
+        if (reversal.kind === "return") {
+            await recordPayoutReturned(payout, memo)
+        } else {
+            await recordPayoutReversed(payout, memo)
+        }
+    } catch (err: any) {
+        console.error(`[PayoutReversal] 🔥 Journal failed for ${reversal.reversalId}:`, err.message)
+        await PayoutReversal.updateOne(
+            { _id: reversal._id },
+            { $set: { lastError: err.message }, $inc: { attempts: 1 } }
+        )
+        return reversal
+    }
+
+    const posted: any = await PayoutReversal.findOneAndUpdate(
+        { _id: reversal._id, status: "pending" },
+        { $set: { status: "posted", postedAt: new Date(), lastError: "" }, $inc: { attempts: 1 } },
+        { new: true }
+    )
+    await Payout.updateOne({ _id: reversal.payoutId }, { $set: { reversalId: reversal._id } })
+
+    if (!posted) return PayoutReversal.findById(reversal._id)
+
+    console.log(`[PayoutReversal] ✅ ${posted.reversalId}: ₹${posted.amount} back to wallet for payout ${posted.orderid} (${posted.reason})`)
+    await notifyUser(posted)
+    return posted
+}
+
+/**
+ * Credit a rejected/failed/returned payout's amount back to the wallet.
+ * Returns the reversal, or null when the payout held no funds or is not reversible.
+ */
+export async function reversePayout(
+    payout: any,
+    context: { source?: string; note?: string } = {}
+): Promise<any | null> {
+    if (!payout.walletHeld || !REVERSAL_REASONS.includes(payout.status)) return null
+
+    const kind = reversalKind(payout)
+    let reversal: any
+    try {
+        reversal = await PayoutReversal.create({
+            reversalId: generateReversalId(),
+            payoutId: payout._id,
+            userId: payout.userId,
+            orderid: payout.orderid,
+            amount: payout.amount,
+            reason: payout.status,
+            kind,
+            source: context.source || "",
+            note: context.note || "",
+            journalKey: `payout:${payout._id}:${kind === "return" ? "returned" : "reversal"}`,
+        })
+    } catch (err: any) {
+        if (err?.code !== 11000) throw err
+        // Already reversed (or being reversed) — never credit twice
+        reversal = await PayoutReversal.findOne({ payoutId: payout._id })
+        if (!reversal) throw err
+    }
+
+    return postReversal(reversal)
+}
+
+/**
+ * Finish reversals that did not post, and start the ones a crash skipped.
+ */
+export async function retryPendingReversals(): Promise<void> {
+    const before = new Date(Date.now() - RETRY_AFTER_MS)
+
+    const pending: any[] = await PayoutReversal.find({ status: "pending", updatedAt: { $lt: before } }).limit(50)
+    for (const reversal of pending) {
+        console.log(`[PayoutReversal] 🔁 Retrying ${reversal.reversalId} (attempt ${reversal.attempts + 1})`)
+        await postReversal(reversal)
+    }
+
+    const missed: any[] = await Payout.find({
+        status: { $in: REVERSAL_REASONS },
+        walletHeld: true,
+        reversalId: null,
+        updatedAt: { $lt: before },
+    }).limit(50)
+    for (const payout of missed) {
+        console.warn(`[PayoutReversal] ⚠️ Payout ${payout.orderid} is ${payout.status} without a reversal — reversing now`)
+        await reversePayout(payout, { source: "reversal_sweep" })
+    }
+}
@@ -0,0 +1,263 @@
+/**
+ * Payouts
+ * =======
+ * The single payout pipeline behind /api/payouts, /api/gateway-payouts and
+ * the admin queue at /api/admin/payouts:
+ *
+ *   requestPayout   — check the saved beneficiary, hold the amount in the wallet, create `pending`
+ *   approvePayout   — pending → approved
+ *   rejectPayout    — pending/approved → rejected (hold released)
+ *   dispatchPayout  — approved → processing at RezoPay (or failed if refused)
+ *   completePayoutManually — approved → success for payouts paid outside the gateway
+ *
+ * Provider status (callback, poller, live check) then moves processing payouts
+ * to success / failed / returned. Status changes and their wallet effects live
+ * in utils/payoutState.ts.
+ *
+ * Functions resolve with `{ error, statusCode }` instead of throwing for
+ * expected failures.
+ */
+
+import crypto from "crypto"
+import mongoose from "mongoose"
+import Payout from "../models/Payout"
+import { getPayableBeneficiary } from "./beneficiaries"
+import { recordPayoutRequested, recordPayoutReversed } from "./ledger"
+import { checkRezoPayoutBalance, initiateRezoPayout } from "./rezopay"
+import { transitionPayout } from "../utils/payoutState"
+
+export type PayoutMethod = "bank_transfer" | "upi"
+
+export interface PayoutBeneficiary {
+    fullName: string
+    mobile: string
+    accountNumber: string
+    ifsc: string
+    bank: string
+    upiId: string
+}
+
+export interface PayoutRequestInput {
+    amount: any
+    beneficiaryId: any
+    batchId?: any     // PayoutBatch the request came from
+}
+
+export type PayoutResult = { payout: any } | { error: string; statusCode: number; errors?: string[] }
+
+// ─── Utility ──────────────────────────────────────────────────────────────────
+
+/**
+ * Generate a unique, human-readable orderid for RezoPay.
+ * Format: POUT<timestamp><random4hex>
+ * Length: ~18 chars — well within RezoPay's limits.
+ */
+export function generatePayoutOrderId(): string {
+    const ts = Date.now().toString()
+    const rand = crypto.randomBytes(2).toString("hex").toUpperCase()
+    return `POUT${ts}${rand}`
+}
+
+/**
+ * Check a payout amount. Returns it as a number, or null if it is not payable.
+ */
+export function validatePayoutAmount(amount: any): number | null {
+    if (!amount || isNaN(Number(amount)) || Number(amount) < 1) return null
+    return Number(amount)
+}
+
+/**
+ * Payout.beneficiary snapshot of a saved beneficiary.
+ */
+export function beneficiarySnapshot(beneficiary: any): PayoutBeneficiary {
+    return {
+        fullName: beneficiary.fullName,
+        mobile: beneficiary.mobile || "",
+        accountNumber: beneficiary.accountNumber || "",
+        ifsc: beneficiary.ifsc || "",
+        bank: beneficiary.bank || "",
+        upiId: beneficiary.upiId || "",
+    }
+}
+
+// ─── Lifecycle ────────────────────────────────────────────────────────────────
+
+/**
+ * Create a payout request to a saved beneficiary and hold its amount
+ * (ledger: merchant_available → payout_clearing).
+ */
+export async function requestPayout(userId: any, input: PayoutRequestInput): Promise<PayoutResult> {
+    const amount = validatePayoutAmount(input.amount)
+    if (amount === null) {
+        return { error: "Validation failed", statusCode: 400, errors: ["amount must be a positive number (minimum ₹1)"] }
+    }
+    if (!input.beneficiaryId || !mongoose.isValidObjectId(input.beneficiaryId)) {
+        return { error: "Validation failed", statusCode: 400, errors: ["beneficiaryId must be a saved beneficiary id"] }
+    }
+
+    const payable = await getPayableBeneficiary(userId, input.beneficiaryId)
+    if ("error" in payable) return payable
+    const beneficiary = payable.beneficiary
+
+    // Atomic balance check & hold — the journal refuses to take the wallet below zero
+    const payoutId = new mongoose.Types.ObjectId()
+    const journal = await recordPayoutRequested({ _id: payoutId, userId, amount })
+    if (!journal.posted) {
+        return { error: "Insufficient wallet balance", statusCode: 400 }
+    }
+
+    try {
+        const payout = await Payout.create({
+            _id: payoutId,
+            userId,
+            orderid: generatePayoutOrderId(),
+            amount,
+            method: beneficiary.method,
+            beneficiaryId: beneficiary._id,
+            beneficiary: beneficiarySnapshot(beneficiary),
+            batchId: input.batchId || null,
+            status: "pending",
+            walletHeld: true,
+            statusHistory: [{ from: "", to: "pending", source: input.batchId ? "bulk_upload" : "merchant_request", at: new Date() }],
+        })
+        console.log(`[Payouts] ✅ Created payout request: orderid=${payout.orderid} userId=${userId} amount=${amount} beneficiary=${beneficiary._id}`)
+        return { payout }
+    } catch (createErr) {
+        await recordPayoutReversed({ _id: payoutId, userId, amount }, "Payout record could not be created")
+        throw createErr
+    }
+}
+
+function transitionError(result: { reason: string; payout: any | null }): { error: string; statusCode: number } {
+    if (result.reason === "not_found") return { error: "Payout not found", statusCode: 404 }
+    return { error: `Payout is already in '${result.payout?.status}' state`, statusCode: 409 }
+}
+
+export async function approvePayout(id: any, adminId: any, comment?: string): Promise<PayoutResult> {
+    const result = await transitionPayout({ _id: id }, {
+        to: "approved",
+        source: "admin_review",
+        actorId: adminId,
+        note: comment,
+        set: { adminComment: comment || "Approved by admin", approvedBy: adminId, approvedAt: new Date() },
+    })
+    return result.ok ? { payout: result.payout } : transitionError(result)
+}
+
+export async function rejectPayout(id: any, adminId: any, comment?: string): Promise<PayoutResult> {
+    const note = comment || "Rejected by admin"
+    const result = await transitionPayout({ _id: id }, {
+        to: "rejected",
+        source: "admin_review",
+        actorId: adminId,
+        note,
+        set: { adminComment: note },
+    })
+    return result.ok ? { payout: result.payout } : transitionError(result)
+}
+
+/**
+ * Admin paid the beneficiary outside the gateway (e.g. UPI).
+ */
+export async function completePayoutManually(id: any, adminId: any, comment?: string, utr?: string): Promise<PayoutResult> {
+    const note = comment || "Marked as completed"
+    const result = await transitionPayout({ _id: id }, {
+        to: "success",
+        source: "admin_manual",
+        actorId: adminId,
+        note,
+        set: { adminComment: note, provider: "manual", utr: utr || "" },
+    })
+    return result.ok ? { payout: result.payout } : transitionError(result)
+}
+
+/**
+ * Send an approved payout to RezoPay. A pending payout is approved by the
+ * dispatching admin first.
+ *
+ * The payout is claimed (approved → processing) before the gateway call, so two
+ * admins can never dispatch it twice. If the call errors the payout stays
+ * processing — it may have reached the bank — and the payout poller settles it.
+ */
+export async function dispatchPayout(id: any, adminId: any): Promise<PayoutResult & { gatewayStatus?: string }> {
+    const record: any = await Payout.findById(id)
+    if (!record) return { error: "Payout not found", statusCode: 404 }
+
+    if (record.method !== "bank_transfer") {
+        return { error: "Only bank transfers can be dispatched to RezoPay — complete UPI payouts manually", statusCode: 400 }
+    }
+    if (record.status === "pending") {
+        const approved = await approvePayout(record._id, adminId, "Approved on dispatch")
+        if ("error" in approved) return approved
+    } else if (record.status !== "approved") {
+        return { error: `Payout is already in '${record.status}' state. Cannot re-dispatch.`, statusCode: 409 }
+    }
+
+    // ── Balance Pre-check (non-blocking — log warning if balance API fails) ─
+    try {
+        const balance = await checkRezoPayoutBalance()
+        if (balance.status === "success" && balance.balance !== undefined && balance.balance < record.amount) {
+            console.warn(`[Payouts] ⚠️ Insufficient RezoPay balance: ${balance.balance} < ${record.amount}`)
+            return {
+                error: `Insufficient RezoPay payout balance. Available: ₹${balance.balance}, Required: ₹${record.amount}`,
+                statusCode: 400,
+            }
+        }
+    } catch (balErr: any) {
+        // Balance check failing shouldn't block dispatch
+        console.warn("[Payouts] Balance pre-check failed (non-fatal):", balErr.message)
+    }
+
+    // ── Claim ─────────────────────────────────────────────────────────────────
+    const claim = await transitionPayout({ _id: record._id }, {
+        to: "processing",
+        source: "admin_dispatch",
+        actorId: adminId,
+        set: { provider: "rezopay", initiatedAt: new Date(), retryCount: 0 },
+    })
+    if (!claim.ok) return transitionError(claim)
+
+    console.log(`[Payouts] Admin ${adminId} dispatching orderid=${record.orderid} to RezoPay...`)
+
+    let gatewayResponse: Awaited<ReturnType<typeof initiateRezoPayout>>
+    try {
+        gatewayResponse = await initiateRezoPayout({
+            orderid: record.orderid,
+            fullName: record.beneficiary.fullName,
+            amount: record.amount,
+            mobile: record.beneficiary.mobile,
+            accountNumber: record.beneficiary.accountNumber,
+            ifsc: record.beneficiary.ifsc,
+            bank: record.beneficiary.bank,
+        })
+    } catch (gatewayErr: any) {
+        console.error(`[Payouts] Gateway call failed for orderid=${record.orderid}:`, gatewayErr.message)
+        await Payout.updateOne(
+            { _id: record._id },
+            { $set: { gatewayMessage: gatewayErr.message, gatewayUpdatedAt: new Date() } }
+        )
+        return { error: `RezoPay gateway error: ${gatewayErr.message}. The payout stays processing until its status is confirmed.`, statusCode: 502 }
+    }
+
+    // RezoPay returns: { status: "pending" | "failed", message: "..." }
+    // "pending" means accepted for processing
+    if (gatewayResponse.status !== "pending") {
+        const failed = await transitionPayout({ _id: record._id }, {
+            to: "failed",
+            source: "admin_dispatch",
+            actorId: adminId,
+            note: gatewayResponse.message,
+            set: { gatewayMessage: gatewayResponse.message, gatewayUpdatedAt: new Date() },
+        })
+        console.log(`[Payouts] ❌ RezoPay refused orderid=${record.orderid}: ${gatewayResponse.message}`)
+        return { payout: failed.payout, gatewayStatus: gatewayResponse.status }
+    }
+
+    const payout = await Payout.findByIdAndUpdate(
+        record._id,
+        { $set: { gatewayMessage: gatewayResponse.message, gatewayUpdatedAt: new Date() } },
+        { new: true }
+    )
+    console.log(`[Payouts] ✅ Dispatched: orderid=${record.orderid} → gateway status=${gatewayResponse.status}`)
+    return { payout, gatewayStatus: gatewayResponse.status }
+}
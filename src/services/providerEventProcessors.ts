@@ -0,0 +1,668 @@
+/**
+ * Provider Event Processors
+ * =========================
+ * Apply a stored inbound provider event (models/ProviderEvent.ts) to our
+ * transactions, refunds and gateway payouts. The HTTP handlers only verify and store events;
+ * these processors do the work, so an event can be reprocessed later.
+ *
+ * Each processor returns a short outcome ("completed", "failed",
+ * "late_success_flagged", "not_found", "skipped:<status>", ...) and throws
+ * on unexpected errors.
+ */
+
+import crypto from "crypto"
+import Payout from "../models/Payout"
+import Refund from "../models/Refund"
+import Transaction from "../models/Transaction"
+import { UNPAY_AES_KEY, UNPAY_IV } from "../config/unpay"
+import { smepayProvider } from "../providers/smepay"
+import { applyRefundStatus } from "./refunds"
+import { checkRezoPayoutStatus } from "./rezopay"
+import { sseManager } from "../utils/sse"
+import { flagLateSuccess } from "../utils/orderExpiry"
+import { type TransactionStatus, transitionTransaction } from "../utils/transactionState"
+import { fireMerchantCallback, getMerchantCallbackUrl } from "../utils/merchantCallback"
+import { mapRezoPayoutStatus, transitionPayout } from "../utils/payoutState"
+
+export type ProviderEventProcessor = (payload: any) => Promise<string>
+
+// ─── Razorpay ─────────────────────────────────────────────────────────────────
+
+/**
+ * Razorpay webhook event (signature already verified by the handler).
+ */
+export async function processRazorpayEvent(event: any): Promise<string> {
+    if (event.event === "payment.captured" || event.event === "order.paid") {
+        const payment = event.payload?.payment?.entity
+        if (!payment) {
+            console.error("[Razorpay Webhook] ❌ Missing payment entity in payload")
+            return "missing_payment_entity"
+        }
+
+        const orderId = payment.order_id
+        const paymentId = payment.id
+        const amount = payment.amount   // in paise
+        const method = payment.method
+
+        console.log(`[Razorpay Webhook] Processing payment: orderId=${orderId}, paymentId=${paymentId}, method=${method}`)
+
+        const result = await transitionTransaction({ orderId }, {
+            to: "completed",
+            source: "razorpay_webhook",
+            rawRef: `${event.event}:${paymentId}`,
+            set: {
+                paymentId: paymentId,
+                "notes.razorpay_webhook_event": event.event,
+                "notes.razorpay_payment_method": method,
+                "notes.completed_via": "razorpay_webhook",
+            },
+        })
+
+        if (result.ok) {
+            console.log(`✅ [Razorpay Webhook] Transaction ${orderId} → completed (paymentId: ${paymentId})`)
+
+            // Notify frontend via SSE
+            sseManager.broadcast(orderId, {
+                type: "payment_success",
+                orderId: orderId,
+                status: "completed",
+                paymentId: paymentId,
+                source: "razorpay_webhook",
+            })
+            console.log(`📡 [Razorpay Webhook] SSE broadcast sent for ${orderId}`)
+
+            // 🔔 Fire merchant callback (async — non-blocking)
+            const callbackUrl = await getMerchantCallbackUrl(orderId)
+            fireMerchantCallback(callbackUrl, {
+                event: "payment.success",
+                orderId,
+                paymentId,
+                amount: amount / 100, // Convert paise → INR
+                currency: "INR",
+                status: "completed",
+                message: "Payment captured successfully",
+                timestamp: new Date().toISOString(),
+                gatewayId: paymentId,
+            }).catch(() => { }) // already logged inside utility
+            return "completed"
+        }
+
+        const existing = result.txn
+        if (!existing) {
+            console.error(`❌ [Razorpay Webhook] Transaction NOT FOUND for orderId: ${orderId}`)
+            console.error("👉 Hint: Check that the orderId in Razorpay matches the 'orderId' field in MongoDB")
+            return "not_found"
+        }
+        if (existing.status === "expired") {
+            await flagLateSuccess(orderId, {
+                source: "razorpay_webhook",
+                paymentId,
+                amount: amount / 100,
+                raw: payment,
+            })
+            return "late_success_flagged"
+        }
+        console.log(`ℹ️ [Razorpay Webhook] Transaction ${orderId} already has status=${existing.status}. Idempotency skip.`)
+        return `skipped:${existing.status}`
+    }
+
+    if (event.event === "payment.failed") {
+        const payment = event.payload?.payment?.entity
+        if (!payment) return "missing_payment_entity"
+
+        const orderId = payment.order_id
+        const result = await transitionTransaction({ orderId }, {
+            to: "failed",
+            source: "razorpay_webhook",
+            rawRef: `${event.event}:${payment.id}`,
+            set: {
+                "notes.razorpay_failure_reason": payment.error_description,
+                "notes.razorpay_failure_code": payment.error_code,
+            },
+        })
+        console.log(`[Razorpay Webhook] Payment failed for orderId: ${orderId}. Reason: ${payment.error_description}`)
+
+        if (!result.ok) return result.reason === "not_found" ? "not_found" : `skipped:${result.txn?.status}`
+
+        // 🔔 Fire merchant callback on failure
+        const callbackUrl = await getMerchantCallbackUrl(orderId)
+        fireMerchantCallback(callbackUrl, {
+            event: "payment.failed",
+            orderId,
+            paymentId: payment.id || "",
+            amount: (payment.amount || 0) / 100,
+            currency: "INR",
+            status: "failed",
+            message: payment.error_description || "Payment failed",
+            timestamp: new Date().toISOString(),
+        }).catch(() => { })
+        return "failed"
+    }
+
+    if (event.event === "refund.processed" || event.event === "refund.failed") {
+        // Refund lifecycle (refunds created via POST /:orderId/refunds)
+        const refundEntity = event.payload?.refund?.entity
+        if (!refundEntity) return "missing_refund_entity"
+
+        const refund = await Refund.findOne({
+            $or: [
+                { provider: "razorpay", providerRefundId: refundEntity.id },
+                ...(refundEntity.notes?.refund_id ? [{ refundId: refundEntity.notes.refund_id }] : []),
+            ],
+        })
+        if (!refund) {
+            console.warn(`[Razorpay Webhook] ⚠️ No refund record for Razorpay refund ${refundEntity.id}`)
+            return "refund_not_found"
+        }
+
+        const status = event.event === "refund.processed" ? "processed" : "failed"
+        await applyRefundStatus(refund.refundId, status, {
+            providerRefundId: refundEntity.id,
+            providerResponse: refundEntity,
+            failureReason: event.event === "refund.failed" ? "Refund failed at Razorpay" : undefined,
+        })
+        return `refund_${status}`
+    }
+
+    console.log(`[Razorpay Webhook] ℹ️ Unhandled event: ${event.event}`)
+    return `ignored:${event.event}`
+}
+
+// ─── UnPay ────────────────────────────────────────────────────────────────────
+
+/**
+ * PRIMARY: Decrypt using AES-256-CBC
+ * This MUST match the encryption in unpay.ts (createUnpayDynamicQR uses AES-256-CBC).
+ */
+function decryptAES256CBC(encryptedHex: string, key: string, iv: string): string {
+    try {
+        if (!key || key.length !== 32) {
+            console.error(`[UnPay CBC Decrypt]: Invalid key length: ${key?.length}. Need exactly 32 chars.`)
+            return ""
+        }
+        if (!iv || iv.length !== 16) {
+            console.error(`[UnPay CBC Decrypt]: Invalid IV length: ${iv?.length}. Need exactly 16 chars.`)
+            return ""
+        }
+        const decipher = crypto.createDecipheriv("aes-256-cbc", Buffer.from(key, "utf8"), Buffer.from(iv, "utf8"))
+        decipher.setAutoPadding(true)
+        // UnPay sends HEX UPPERCASE — toLowerCase() normalizes it
+        let decrypted = decipher.update(encryptedHex.toLowerCase(), "hex", "utf8")
+        decrypted += decipher.final("utf8")
+        return decrypted
+    } catch (err: any) {
+        console.error(`[UnPay CBC Decrypt Error]: ${err.message}`)
+        return ""
+    }
+}
+
+/**
+ * FALLBACK: Decrypt using AES-256-ECB (legacy mode)
+ */
+function decryptAES256ECB(encryptedText: string, key: string): string {
+    try {
+        if (!key) {
+            console.error("[UnPay ECB Decrypt Error]: Missing Key")
+            return ""
+        }
+        const decipher = crypto.createDecipheriv("aes-256-ecb", Buffer.from(key), null)
+        decipher.setAutoPadding(true)
+        let decrypted = decipher.update(encryptedText, "hex", "utf8")
+        decrypted += decipher.final("utf8")
+        return decrypted
+    } catch (err: any) {
+        console.error(`[UnPay ECB Decrypt Error]: ${err.message}`)
+        return ""
+    }
+}
+
+/**
+ * Decrypt an UnPay POST body ({ body: "HEX..." }); plaintext bodies pass through.
+ * Returns null when the body cannot be decrypted or parsed.
+ */
+export function decodeUnpayPayload(body: any): any | null {
+    if (!(body?.body && typeof body.body === "string")) return body
+
+    // PRIMARY: AES-256-CBC (matches QR creation in service/unpay.ts)
+    let decryptedString = decryptAES256CBC(body.body, UNPAY_AES_KEY, UNPAY_IV)
+
+    // FALLBACK: AES-256-ECB (try if CBC fails — older integration style)
+    if (!decryptedString) {
+        console.warn("[UnPay Webhook] CBC decryption failed — trying ECB fallback...")
+        decryptedString = decryptAES256ECB(body.body, UNPAY_AES_KEY)
+    }
+
+    if (!decryptedString) {
+        console.error("[UnPay Webhook] ❌ ALL decryption methods failed.")
+        console.error("[UnPay Webhook] Encrypted hex (first 80 chars):", body.body.substring(0, 80))
+        return null
+    }
+
+    try {
+        return JSON.parse(decryptedString)
+    } catch (_parseErr) {
+        console.error("[UnPay Webhook] JSON Parse Error. Decrypted string:", decryptedString.substring(0, 100))
+        return null
+    }
+}
+
+/**
+ * UnPay GET callback (query parameters).
+ */
+export async function processUnpayGetCallback(query: any): Promise<string> {
+    const { apitxnid, txnid, statuscode, utr, amount, message } = query as Record<string, string>
+    console.log(`[UnPay Webhook GET] Processing: orderId=${apitxnid} | statuscode=${statuscode} | txnid=${txnid} | utr=${utr}`)
+
+    let newStatus: TransactionStatus = "pending"
+    const updateData: any = {
+        updatedAt: new Date(),
+        "notes.webhook_response": query,
+        "notes.webhook_method": "GET",
+    }
+
+    if (statuscode === "TXN") {
+        newStatus = "completed"
+        updateData.paymentId = txnid || apitxnid
+        updateData["notes.utr"] = utr || ""
+        if (!txnid) console.warn("[UnPay Webhook GET] ⚠️ Success but txnid missing")
+    } else if (["ERR", "FAL", "REF", "FAIL", "TXF"].includes(statuscode)) {
+        newStatus = "failed"
+        updateData["notes.failure_message"] = message || ""
+        updateData["notes.failure_code"] = statuscode
+    } else {
+        console.warn(`[UnPay Webhook GET] Unknown statuscode: ${statuscode}. Keeping status=pending.`)
+    }
+
+    // Status changes go through the state machine; an unknown statuscode only records the payload
+    if (newStatus === "pending") {
+        await Transaction.updateOne({ orderId: apitxnid }, { $set: updateData })
+        return "recorded_pending"
+    }
+
+    const result = await transitionTransaction({ orderId: apitxnid }, {
+        to: newStatus,
+        source: "unpay_get_webhook",
+        rawRef: `notes.webhook_response:${txnid || apitxnid}`,
+        set: updateData,
+    })
+
+    if (result.ok) {
+        console.log(`[UnPay Webhook GET] ✅ DB Updated: ${apitxnid} → status=${newStatus}`)
+        if (newStatus === "completed") {
+            sseManager.broadcast(apitxnid, {
+                type: "payment_success",
+                orderId: apitxnid,
+                status: "completed",
+                paymentId: txnid || apitxnid,
+                utr: utr || "",
+                amount,
+                source: "unpay_get_webhook",
+            })
+            console.log(`[UnPay Webhook GET] 📡 SSE broadcast sent for orderId=${apitxnid}`)
+
+            // 🔔 Fire merchant callback (async — non-blocking)
+            const callbackUrl = await getMerchantCallbackUrl(apitxnid)
+            fireMerchantCallback(callbackUrl, {
+                event: "payment.success",
+                orderId: apitxnid,
+                paymentId: txnid || apitxnid,
+                amount: Number(amount) || 0,
+                currency: "INR",
+                status: "completed",
+                message: "Payment captured successfully via UnPay",
+                timestamp: new Date().toISOString(),
+                utr: utr || "",
+                gatewayId: txnid || apitxnid,
+            }).catch(() => { })
+        } else {
+            // 🔔 Fire merchant callback on failure
+            const callbackUrl = await getMerchantCallbackUrl(apitxnid)
+            fireMerchantCallback(callbackUrl, {
+                event: "payment.failed",
+                orderId: apitxnid,
+                paymentId: txnid || apitxnid,
+                amount: Number(amount) || 0,
+                currency: "INR",
+                status: "failed",
+                message: message || `Payment failed (statuscode: ${statuscode})`,
+                timestamp: new Date().toISOString(),
+            }).catch(() => { })
+        }
+        return newStatus
+    }
+
+    const existing = await Transaction.findOne({ orderId: apitxnid })
+    if (!existing) {
+        console.warn(`[UnPay Webhook GET] ⚠️ Order ${apitxnid} NOT FOUND in DB`)
+        return "not_found"
+    }
+    if (existing.status === "expired" && newStatus === "completed") {
+        await flagLateSuccess(apitxnid, {
+            source: "unpay_get_webhook",
+            paymentId: txnid || apitxnid,
+            utr: utr || "",
+            amount: Number(amount) || undefined,
+            raw: query,
+        })
+        return "late_success_flagged"
+    }
+    console.log(`[UnPay Webhook GET] ℹ️ Order ${apitxnid} already status=${existing.status}. Skipping.`)
+    return `skipped:${existing.status}`
+}
+
+/**
+ * UnPay POST callback (encrypted or plaintext JSON body).
+ */
+export async function processUnpayPostCallback(body: any): Promise<string> {
+    const payload = decodeUnpayPayload(body)
+    if (!payload) return "decryption_failed"
+    if (payload !== body) console.log("[UnPay Webhook] ✅ Decrypted Payload:", JSON.stringify(payload, null, 2))
+
+    const orderId = payload.apitxnid       // Our internal order ID (set when creating QR)
+    const paymentId = payload.txnid        // UnPay's transaction ID
+    const utr = payload.utr || ""          // Bank UTR reference
+    const statusCode = payload.statuscode  // "TXN" = success, "ERR"/"FAL"/"REF" = failure
+    const message = payload.message || ""
+    const amount = payload.amount
+
+    if (!orderId) {
+        console.warn("[UnPay Webhook] ⚠️ Missing 'apitxnid'. Cannot match to a transaction.")
+        return "missing_order_id"
+    }
+
+    console.log(`[UnPay Webhook] Processing: orderId=${orderId} | statuscode=${statusCode} | txnid=${paymentId} | utr=${utr}`)
+
+    let newStatus: TransactionStatus = "pending"
+    const updateData: any = {
+        updatedAt: new Date(),
+        "notes.webhook_response": payload,
+        "notes.webhook_raw": JSON.stringify(body),
+    }
+
+    if (statusCode === "TXN") {
+        newStatus = "completed"
+        updateData.paymentId = paymentId || orderId
+        updateData["notes.utr"] = utr
+        if (!paymentId) console.warn("[UnPay Webhook] ⚠️ Successful TXN is missing 'txnid'")
+    } else if (["ERR", "FAL", "REF", "FAIL"].includes(statusCode)) {
+        newStatus = "failed"
+        updateData["notes.failure_message"] = message
+        updateData["notes.failure_code"] = statusCode
+    } else {
+        // Unknown status — keep as pending but log it
+        console.warn(`[UnPay Webhook] Unknown statuscode: ${statusCode}. Keeping status=pending.`)
+    }
+
+    // Status change through the state machine (rejects e.g. completed → failed)
+    // An unknown statuscode only records the payload
+    if (newStatus === "pending") {
+        await Transaction.updateOne({ orderId }, { $set: updateData })
+        return "recorded_pending"
+    }
+
+    const result = await transitionTransaction({ orderId }, {
+        to: newStatus,
+        source: "unpay_webhook",
+        rawRef: `notes.webhook_response:${paymentId || orderId}`,
+        set: updateData,
+    })
+
+    if (result.ok) {
+        console.log(`[UnPay Webhook] ✅ DB Updated: ${orderId} → status=${newStatus}`)
+
+        // Real-time SSE notification to frontend
+        if (newStatus === "completed") {
+            sseManager.broadcast(orderId, {
+                type: "payment_success",
+                orderId: orderId,
+                status: "completed",
+                paymentId: paymentId,
+                utr: utr,
+                amount: amount
+            })
+            console.log(`[UnPay Webhook] 📡 SSE broadcast sent for orderId=${orderId}`)
+        }
+        return newStatus
+    }
+
+    // Either already completed or truly not found
+    const existing = await Transaction.findOne({ orderId })
+    if (!existing) {
+        console.warn(`[UnPay Webhook] ⚠️ Order ${orderId} NOT FOUND in DB`)
+        return "not_found"
+    }
+    if (existing.status === "expired" && newStatus === "completed") {
+        await flagLateSuccess(orderId, {
+            source: "unpay_webhook",
+            paymentId: paymentId || orderId,
+            utr,
+            amount: Number(amount) || undefined,
+            raw: payload,
+        })
+        return "late_success_flagged"
+    }
+    console.log(`[UnPay Webhook] ℹ️ Order ${orderId} already has status=${existing.status}. Skipping.`)
+    return `skipped:${existing.status}`
+}
+
+// ─── SMEPay ───────────────────────────────────────────────────────────────────
+
+/**
+ * Ask SMEPay's order-status API (getSmepayToken flow) whether a payment the
+ * webhook reports as successful really is. Never throws.
+ */
+async function confirmSmepaySuccess(txn: any, event: { amount?: number }): Promise<{ confirmed: boolean; reason: string; check?: any }> {
+    if (event.amount !== undefined && !Number.isNaN(event.amount) && Number(event.amount) !== Number(txn.amount)) {
+        return { confirmed: false, reason: `amount_mismatch: webhook ${event.amount}, order ${txn.amount}` }
+    }
+    try {
+        const check = await smepayProvider.fetchStatus(txn)
+        if (check.status === "completed") return { confirmed: true, reason: "", check }
+        return { confirmed: false, reason: `status_api_${check.status}`, check }
+    } catch (err: any) {
+        return { confirmed: false, reason: `status_api_error: ${err.message}` }
+    }
+}
+
+/**
+ * A reported failure must be confirmed by the status API too — unsigned
+ * webhooks would otherwise let anyone fail a pending order.
+ */
+async function confirmSmepayFailure(txn: any): Promise<{ confirmed: boolean; reason: string }> {
+    try {
+        const check = await smepayProvider.fetchStatus(txn)
+        if (check.status === "failed") return { confirmed: true, reason: "" }
+        return { confirmed: false, reason: `status_api_${check.status}` }
+    } catch (err: any) {
+        return { confirmed: false, reason: `status_api_error: ${err.message}` }
+    }
+}
+
+/**
+ * SMEPay webhook body: order_id (theirs), ref_id (ours), payment_status / status.
+ * A reported success is applied only once the status API confirms it; otherwise
+ * the order is left as is and flagged for admin review (reason "smepay_unconfirmed").
+ * A reported failure is applied only once the status API confirms it; otherwise
+ * it is recorded and the order stays pending for the poller.
+ */
+export async function processSmepayEvent(body: any): Promise<string> {
+    const event = smepayProvider.parseWebhook(body || {})
+    if (!event) {
+        console.error("[SMEPay Webhook] Could not determine internal Order ID from payload")
+        return "missing_order_id"
+    }
+
+    const internalOrderId = event.orderId
+    const newStatus = event.status
+
+    console.log(`[SMEPay Webhook] Processing update for Order: ${internalOrderId} -> Status: ${newStatus}`)
+
+    // Status changes go through the state machine — a "pending" webhook only records
+    // the payload and can never move a completed order backwards
+    if (newStatus === "pending") {
+        await Transaction.updateOne({ orderId: internalOrderId }, { $set: { "notes.smepay_webhook": body } })
+        return "recorded_pending"
+    }
+
+    if (newStatus === "completed") {
+        const txn: any = await Transaction.findOne({ orderId: internalOrderId })
+        if (txn && (txn.status === "pending" || txn.status === "failed")) {
+            const confirmation = await confirmSmepaySuccess(txn, event)
+            if (!confirmation.confirmed) {
+                await Transaction.updateOne(
+                    { _id: txn._id, status: txn.status },
+                    {
+                        $set: {
+                            review: {
+                                required: true,
+                                reason: "smepay_unconfirmed",
+                                source: "smepay_webhook",
+                                paymentId: event.paymentId || "",
+                                utr: event.utr || "",
+                                amount: event.amount ?? null,
+                                payload: { webhook: body, confirmation: confirmation.reason, statusCheck: confirmation.check?.raw ?? null },
+                                flaggedAt: new Date(),
+                                resolvedAt: null,
+                                resolvedBy: null,
+                                resolution: null,
+                                note: "",
+                            },
+                            "notes.smepay_webhook": body,
+                            updatedAt: new Date(),
+                        },
+                    }
+                )
+                console.warn(`[SMEPay Webhook] 🚩 Success for ${internalOrderId} not confirmed (${confirmation.reason}) — flagged for review`)
+                return "unconfirmed_flagged"
+            }
+            console.log(`[SMEPay Webhook] ✅ Status API confirmed success for ${internalOrderId}`)
+        }
+    }
+
+    if (newStatus === "failed") {
+        const txn: any = await Transaction.findOne({ orderId: internalOrderId })
+        if (txn && txn.status === "pending") {
+            const confirmation = await confirmSmepayFailure(txn)
+            if (!confirmation.confirmed) {
+                // Keep the report for audit; the SMEPay poller settles the order
+                await Transaction.updateOne(
+                    { _id: txn._id, status: "pending" },
+                    { $set: { "notes.smepay_webhook": body, "notes.smepay_unconfirmed_failure": confirmation.reason } }
+                )
+                console.warn(`[SMEPay Webhook] ⚠️ Failure for ${internalOrderId} not confirmed (${confirmation.reason}) — status left pending`)
+                return "unconfirmed_failure_recorded"
+            }
+        }
+    }
+
+    const result = await transitionTransaction({ orderId: internalOrderId }, {
+        to: newStatus,
+        source: "smepay_webhook",
+        rawRef: `notes.smepay_webhook:${event.paymentId}`,
+        set: {
+            paymentId: event.paymentId, // Use SMEPay ID as paymentId
+            "notes.smepay_webhook": body,
+        },
+    })
+
+    if (result.ok) {
+        console.log(`[SMEPay Webhook] ✅ Updated Transaction: ${result.txn._id}`)
+
+        // If completed, notify valid SSE clients
+        if (newStatus === "completed") {
+            sseManager.broadcast(internalOrderId, {
+                type: "payment_success",
+                orderId: internalOrderId,
+                status: "completed"
+            })
+        }
+        return newStatus
+    }
+
+    const existing = await Transaction.findOne({ orderId: internalOrderId })
+    if (existing?.status === "expired" && newStatus === "completed") {
+        await flagLateSuccess(internalOrderId, {
+            source: "smepay_webhook",
+            paymentId: event.paymentId,
+            utr: event.utr,
+            amount: event.amount,
+            raw: body,
+        })
+        return "late_success_flagged"
+    }
+    if (existing) {
+        console.log(`[SMEPay Webhook] ℹ️ Order ${internalOrderId} is ${existing.status}. Skipping.`)
+        return `skipped:${existing.status}`
+    }
+    console.error(`[SMEPay Webhook] ❌ Transaction not found: ${internalOrderId}`)
+    return "not_found"
+}
+
+// ─── RezoPay payouts ──────────────────────────────────────────────────────────
+
+/**
+ * RezoPay payout callback: { status, message, orderid, utr }.
+ * The callback only prompts a check — the status applied is the one RezoPay's
+ * check-status API confirms, through utils/payoutState.ts. Throws when the
+ * status API is unreachable so the stored event can be retried.
+ */
+export async function processRezopayPayoutCallback(body: any): Promise<string> {
+    const { status, message, orderid, utr } = (body || {}) as { status?: string; message?: string; orderid?: string; utr?: string }
+    if (!orderid) {
+        console.warn("[RezoPay Callback] ⚠️ Missing orderid in payload")
+        return "missing_order_id"
+    }
+
+    const payout: any = await Payout.findOne({ orderid })
+    if (!payout) {
+        console.warn(`[RezoPay Callback] ⚠️ orderid=${orderid} NOT FOUND in DB`)
+        return "not_found"
+    }
+
+    const confirmation = await checkRezoPayoutStatus(orderid)
+    const confirmed = mapRezoPayoutStatus(confirmation)
+    const checkedAt = new Date()
+
+    if (!confirmed) {
+        console.warn(`[RezoPay Callback] ⚠️ orderid=${orderid} claimed '${status}' but gateway reports '${confirmation.data?.status}' — not applied`)
+        await Payout.updateOne(
+            { _id: payout._id },
+            { $set: { callbackPayload: body, lastStatusCheck: confirmation, lastStatusCheckedAt: checkedAt } }
+        )
+        return "unconfirmed"
+    }
+    if (confirmed !== status) {
+        console.warn(`[RezoPay Callback] ⚠️ orderid=${orderid} claimed '${status}', gateway confirms '${confirmed}' — applying confirmed status`)
+    }
+
+    const result = await transitionPayout({ _id: payout._id }, {
+        to: confirmed,
+        source: "rezopay_callback",
+        rawRef: "callbackPayload",
+        set: {
+            utr: confirmation.data?.utr || utr || payout.utr || "",
+            gatewayMessage: message || confirmation.message || "",
+            callbackPayload: body,
+            lastStatusCheck: confirmation,
+            lastStatusCheckedAt: checkedAt,
+            gatewayUpdatedAt: checkedAt,
+        },
+    })
+
+    if (result.ok) {
+        console.log(`[RezoPay Callback] ✅ Updated: orderid=${orderid} → status=${confirmed} utr=${result.payout.utr || "N/A"}`)
+        return confirmed
+    }
+    if (result.reason === "illegal") return `rejected:${result.from}->${confirmed}`
+    console.log(`[RezoPay Callback] ℹ️ orderid=${orderid} already status=${result.payout?.status}. Idempotency skip.`)
+    return `skipped:${result.payout?.status}`
+}
+
+// Processor per inbound handler (ProviderEvent.source)
+export const PROVIDER_EVENT_PROCESSORS: Record<string, ProviderEventProcessor> = {
+    razorpay_webhook: processRazorpayEvent,
+    unpay_get_webhook: processUnpayGetCallback,
+    unpay_webhook: processUnpayPostCallback,
+    smepay_webhook: processSmepayEvent,
+    rezopay_payout_callback: processRezopayPayoutCallback,
+}
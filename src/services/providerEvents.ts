@@ -0,0 +1,144 @@
+/**
+ * Inbound Provider Events
+ * =======================
+ * Every provider webhook/callback is stored raw as a ProviderEvent, deduplicated
+ * and then applied by its processor (services/providerEventProcessors.ts).
+ *
+ *   ingestProviderEvent   — handlers call this after verifying the request
+ *   reprocessProviderEvent — admin re-run of a stored event (e.g. after a bug fix)
+ *
+ * A redelivered event is only processed again if its earlier run failed.
+ */
+
+import crypto from "crypto"
+import ProviderEvent from "../models/ProviderEvent"
+import { PROVIDER_EVENT_PROCESSORS } from "./providerEventProcessors"
+
+// Never store credentials that arrive with a callback
+const REDACTED_HEADERS = ["authorization", "cookie", "x-api-key"]
+const STUCK_PROCESSING_MS = 5 * 60 * 1000
+
+export interface InboundProviderEvent {
+    provider: string
+    source: string
+    payload: any
+    headers?: Record<string, any>
+    rawBody?: string
+    // Provider's own event id, when it sends one
+    eventId?: string
+    eventType?: string
+    orderId?: string
+}
+
+export interface IngestResult {
+    event: any
+    duplicate: boolean
+    outcome: string
+    error?: string
+}
+
+function redactHeaders(headers: Record<string, any> = {}): Record<string, any> {
+    const safe: Record<string, any> = {}
+    for (const [key, value] of Object.entries(headers)) {
+        if (!REDACTED_HEADERS.includes(key.toLowerCase())) safe[key] = value
+    }
+    return safe
+}
+
+export function computeDedupeKey(input: InboundProviderEvent): string {
+    if (input.eventId) return `${input.source}:${input.eventId}`
+    const body = input.rawBody || JSON.stringify(input.payload ?? null)
+    return `${input.source}:${crypto.createHash("sha256").update(body).digest("hex")}`
+}
+
+async function runProcessor(event: any): Promise<{ outcome: string; error?: string }> {
+    const processor = PROVIDER_EVENT_PROCESSORS[event.source]
+    if (!processor) {
+        const error = `No processor for source '${event.source}'`
+        await ProviderEvent.updateOne({ _id: event._id }, { $set: { status: "failed", error }, $inc: { processCount: 1 } })
+        return { outcome: "", error }
+    }
+
+    try {
+        const outcome = await processor(event.payload)
+        await ProviderEvent.updateOne(
+            { _id: event._id },
+            { $set: { status: "processed", outcome, error: "", processedAt: new Date() }, $inc: { processCount: 1 } }
+        )
+        return { outcome }
+    } catch (err: any) {
+        await ProviderEvent.updateOne(
+            { _id: event._id },
+            { $set: { status: "failed", error: err.message || String(err) }, $inc: { processCount: 1 } }
+        )
+        console.error(`[ProviderEvents] 🔥 ${event.source} ${event.dedupeKey} failed:`, err.message)
+        return { outcome: "", error: err.message || String(err) }
+    }
+}
+
+/**
+ * Store an inbound event and process it unless it was already handled.
+ */
+export async function ingestProviderEvent(input: InboundProviderEvent): Promise<IngestResult> {
+    const dedupeKey = computeDedupeKey(input)
+
+    let event: any
+    try {
+        event = await ProviderEvent.create({
+            provider: input.provider,
+            source: input.source,
+            dedupeKey,
+            eventId: input.eventId || "",
+            eventType: input.eventType || "",
+            orderId: input.orderId || "",
+            headers: redactHeaders(input.headers),
+            payload: input.payload,
+            rawBody: input.rawBody || "",
+            receivedAt: new Date(),
+            status: "processing",
+        })
+    } catch (err: any) {
+        if (err?.code !== 11000) throw err
+
+        // Seen before — retry it only if the earlier run failed
+        event = await ProviderEvent.findOneAndUpdate(
+            { dedupeKey, status: "failed" },
+            { $set: { status: "processing", lastDuplicateAt: new Date() }, $inc: { duplicateCount: 1 } },
+            { new: true }
+        )
+        if (!event) {
+            const existing: any = await ProviderEvent.findOneAndUpdate(
+                { dedupeKey },
+                { $set: { lastDuplicateAt: new Date() }, $inc: { duplicateCount: 1 } },
+                { new: true }
+            )
+            console.log(`[ProviderEvents] ♻️ Duplicate ${input.source} event ${dedupeKey} (${existing?.status}) — skipped`)
+            return { event: existing, duplicate: true, outcome: existing?.outcome || "" }
+        }
+        console.log(`[ProviderEvents] 🔁 Redelivered ${input.source} event ${dedupeKey} failed before — processing again`)
+    }
+
+    const { outcome, error } = await runProcessor(event)
+    return { event, duplicate: false, outcome, error }
+}
+
+/**
+ * Re-run a stored event through its processor, whatever its outcome.
+ * Returns null if the event is currently being processed.
+ */
+export async function reprocessProviderEvent(eventId: any, adminId: any): Promise<{ event: any; outcome: string; error?: string } | null> {
+    const event: any = await ProviderEvent.findOneAndUpdate(
+        {
+            _id: eventId,
+            // A run that has been "processing" this long died mid-way
+            $or: [{ status: { $ne: "processing" } }, { updatedAt: { $lt: new Date(Date.now() - STUCK_PROCESSING_MS) } }],
+        },
+        { $set: { status: "processing", reprocessedAt: new Date(), reprocessedBy: adminId } },
+        { new: true }
+    )
+    if (!event) return null
+
+    console.log(`[ProviderEvents] Admin ${adminId} reprocessing ${event.source} ${event.dedupeKey}`)
+    const { outcome, error } = await runProcessor(event)
+    return { event: await ProviderEvent.findById(event._id).lean(), outcome, error }
+}
@@ -0,0 +1,475 @@
+/**
+ * Provider Reconciliation
+ * =======================
+ * Matches an uploaded provider settlement/transaction report line by line
+ * against our transactions and records every discrepancy for an admin.
+ *
+ * Each report row is matched on Transaction.orderId, then paymentId, then
+ * notes.utr. Completed transactions of the same provider inside the report
+ * period that no row matched are reported as missing at the provider.
+ *
+ * Report columns are recognised by common names (order_id, payment_id, utr,
+ * amount, status, date, ...); `columns` maps our field names to the report's
+ * headers when a provider uses something else.
+ */
+
+import crypto from "crypto"
+import ReconciliationItem from "../models/ReconciliationItem"
+import ReconciliationRun from "../models/ReconciliationRun"
+import Transaction from "../models/Transaction"
+import { getTransactionProvider } from "../providers"
+import { recordAdjustment } from "./ledger"
+import { fireMerchantCallback, getMerchantCallbackUrl } from "../utils/merchantCallback"
+import { sseManager } from "../utils/sse"
+import { transitionTransaction } from "../utils/transactionState"
+
+const LOOKUP_CHUNK_SIZE = 500
+const AMOUNT_TOLERANCE = 0.01
+
+export type ReportField = "orderId" | "paymentId" | "utr" | "amount" | "status" | "date"
+
+// Header names (lower-cased, spaces/dashes as "_") recognised for each field
+const COLUMN_ALIASES: Record<ReportField, string[]> = {
+    orderId: ["order_id", "orderid", "merchant_order_id", "client_txn_id", "apitxnid", "reference_id", "merchant_reference"],
+    paymentId: ["payment_id", "paymentid", "entity_id", "transaction_id", "txn_id", "txnid", "gateway_txn_id"],
+    utr: ["utr", "utr_no", "utr_number", "rrn", "bank_rrn", "bank_reference", "bank_ref_no"],
+    amount: ["amount", "txn_amount", "transaction_amount", "gross_amount", "credit", "paid_amount"],
+    status: ["status", "txn_status", "transaction_status", "payment_status"],
+    date: ["created_at", "date", "txn_date", "transaction_date", "payment_date", "settled_at"],
+}
+
+// Provider wording → success | failed | pending | refunded
+const STATUS_ALIASES: Record<string, string> = {
+    success: "success",
+    successful: "success",
+    captured: "success",
+    completed: "success",
+    settled: "success",
+    paid: "success",
+    processed: "success",
+    failed: "failed",
+    failure: "failed",
+    declined: "failed",
+    rejected: "failed",
+    cancelled: "failed",
+    expired: "failed",
+    pending: "pending",
+    created: "pending",
+    initiated: "pending",
+    authorized: "pending",
+    processing: "pending",
+    refunded: "refunded",
+    reversed: "refunded",
+}
+
+const INTERNAL_STATUS: Record<string, string> = {
+    completed: "success",
+    refunded: "refunded",
+    failed: "failed",
+    expired: "failed",
+    pending: "pending",
+}
+
+export interface ReportRow {
+    rowNumber: number
+    orderId: string
+    paymentId: string
+    utr: string
+    amount: number | null
+    status: string
+    date: Date | null
+    raw: Record<string, any>
+}
+
+export interface ReconciliationInput {
+    provider: string
+    format: "csv" | "json"
+    records: Record<string, any>[]
+    fileName?: string
+    columns?: Partial<Record<ReportField, string>>
+    // Report amounts in paise (e.g. Razorpay API exports)
+    amountUnit?: "rupees" | "paise"
+    from?: Date | null
+    to?: Date | null
+    uploadedBy?: any
+}
+
+function generateRunId(): string {
+    return `rec_${Date.now()}${crypto.randomBytes(3).toString("hex")}`
+}
+
+function round2(n: number): number {
+    return Math.round(n * 100) / 100
+}
+
+function normalizeKey(key: string): string {
+    return key.trim().toLowerCase().replace(/[\s-]+/g, "_")
+}
+
+export function normalizeReportStatus(status: string): string {
+    return STATUS_ALIASES[normalizeKey(status || "")] || ""
+}
+
+// ─── Parsing ──────────────────────────────────────────────────────────────────
+
+/**
+ * Pick our fields out of raw report records.
+ */
+export function normalizeReportRows(
+    records: Record<string, any>[],
+    columns: Partial<Record<ReportField, string>> = {},
+    amountUnit: "rupees" | "paise" = "rupees"
+): ReportRow[] {
+    return records.map((raw, i) => {
+        const byKey = new Map(Object.entries(raw || {}).map(([k, v]) => [normalizeKey(k), v]))
+
+        const pick = (field: ReportField): any => {
+            const explicit = columns[field]
+            if (explicit) return raw?.[explicit]
+            for (const alias of COLUMN_ALIASES[field]) {
+                const value = byKey.get(alias)
+                if (value !== undefined && value !== null && value !== "") return value
+            }
+            return undefined
+        }
+
+        const rawAmount = pick("amount")
+        const parsedAmount = rawAmount === undefined ? NaN : Number(String(rawAmount).replace(/[₹,\s]/g, ""))
+        const amount = Number.isFinite(parsedAmount)
+            ? round2(amountUnit === "paise" ? parsedAmount / 100 : parsedAmount)
+            : null
+
+        const rawDate = pick("date")
+        const date = rawDate ? new Date(rawDate) : null
+
+        return {
+            rowNumber: i + 1,
+            orderId: String(pick("orderId") ?? "").trim(),
+            paymentId: String(pick("paymentId") ?? "").trim(),
+            utr: String(pick("utr") ?? "").trim(),
+            amount,
+            status: String(pick("status") ?? "").trim(),
+            date: date && !isNaN(date.getTime()) ? date : null,
+            raw,
+        }
+    })
+}
+
+// ─── Matching ─────────────────────────────────────────────────────────────────
+
+async function loadCandidates(rows: ReportRow[]) {
+    const byOrderId = new Map<string, any>()
+    const byPaymentId = new Map<string, any>()
+    const byUtr = new Map<string, any>()
+
+    const ids = (key: "orderId" | "paymentId" | "utr") => Array.from(new Set(rows.map((r) => r[key]).filter(Boolean)))
+    const orderIds = ids("orderId")
+    const paymentIds = ids("paymentId")
+    const utrs = ids("utr")
+
+    const fields = "userId orderId paymentId amount currency status provider notes createdAt review"
+    const load = async (filterKey: string, values: string[]) => {
+        for (let i = 0; i < values.length; i += LOOKUP_CHUNK_SIZE) {
+            const chunk = values.slice(i, i + LOOKUP_CHUNK_SIZE)
+            const txns: any[] = await Transaction.find({ [filterKey]: { $in: chunk } }).select(fields).lean()
+            for (const t of txns) {
+                byOrderId.set(t.orderId, t)
+                if (t.paymentId) byPaymentId.set(t.paymentId, t)
+                if (t.notes?.utr) byUtr.set(String(t.notes.utr), t)
+            }
+        }
+    }
+
+    await load("orderId", orderIds)
+    await load("paymentId", paymentIds)
+    await load("notes.utr", utrs)
+
+    return { byOrderId, byPaymentId, byUtr }
+}
+
+/**
+ * Create a run for an uploaded report and record its discrepancies.
+ */
+export async function runReconciliation(input: ReconciliationInput) {
+    const rows = normalizeReportRows(input.records, input.columns, input.amountUnit)
+    const { byOrderId, byPaymentId, byUtr } = await loadCandidates(rows)
+
+    const items: any[] = []
+    const matchedIds = new Set<string>()
+    let matched = 0
+
+    for (const row of rows) {
+        const txn =
+            (row.orderId && byOrderId.get(row.orderId)) ||
+            (row.paymentId && byPaymentId.get(row.paymentId)) ||
+            (row.utr && byUtr.get(row.utr)) ||
+            null
+
+        const base = {
+            rowNumber: row.rowNumber,
+            row: row.raw,
+            orderId: txn?.orderId || row.orderId,
+            paymentId: row.paymentId || txn?.paymentId || "",
+            utr: row.utr || txn?.notes?.utr || "",
+            providerAmount: row.amount,
+            providerStatus: row.status,
+        }
+
+        if (!txn) {
+            items.push({ ...base, type: "missing_internal" })
+            continue
+        }
+
+        matchedIds.add(String(txn._id))
+        const withTxn = { ...base, transactionId: txn._id, internalAmount: txn.amount, internalStatus: txn.status }
+        let clean = true
+
+        if (row.amount !== null && Math.abs(row.amount - txn.amount) > AMOUNT_TOLERANCE) {
+            items.push({ ...withTxn, type: "amount_mismatch" })
+            clean = false
+        }
+
+        const providerOutcome = normalizeReportStatus(row.status)
+        const internalOutcome = INTERNAL_STATUS[txn.status]
+        // A refund after capture still means the provider collected the payment
+        const refundedAfterSuccess = providerOutcome === "success" && internalOutcome === "refunded"
+        if (providerOutcome && providerOutcome !== internalOutcome && !refundedAfterSuccess) {
+            items.push({ ...withTxn, type: "status_mismatch" })
+            clean = false
+        }
+
+        if (clean) matched++
+    }
+
+    // Period the report covers: explicit, else the span of its row dates
+    const rowDates = rows.map((r) => r.date).filter((d): d is Date => !!d).map((d) => d.getTime())
+    const periodFrom = input.from || (rowDates.length ? new Date(Math.min(...rowDates)) : null)
+    const periodTo = input.to || (rowDates.length ? new Date(Math.max(...rowDates)) : null)
+
+    if (periodFrom && periodTo) {
+        const cursor = Transaction.find({
+            status: { $in: ["completed", "refunded"] },
+            createdAt: { $gte: periodFrom, $lte: periodTo },
+        })
+            .select("orderId paymentId amount status provider notes")
+            .lean()
+            .cursor()
+
+        for await (const txn of cursor as any) {
+            if (matchedIds.has(String(txn._id))) continue
+            if (getTransactionProvider(txn)?.name !== input.provider) continue
+            items.push({
+                type: "missing_provider",
+                transactionId: txn._id,
+                orderId: txn.orderId,
+                paymentId: txn.paymentId || "",
+                utr: txn.notes?.utr || "",
+                internalAmount: txn.amount,
+                internalStatus: txn.status,
+            })
+        }
+    }
+
+    const count = (type: string) => items.filter((i) => i.type === type).length
+    const run: any = await ReconciliationRun.create({
+        runId: generateRunId(),
+        provider: input.provider,
+        fileName: input.fileName || "",
+        format: input.format,
+        periodFrom,
+        periodTo,
+        uploadedBy: input.uploadedBy || null,
+        totals: {
+            rows: rows.length,
+            matched,
+            discrepancies: items.length,
+            open: items.length,
+            missingInternal: count("missing_internal"),
+            missingProvider: count("missing_provider"),
+            amountMismatch: count("amount_mismatch"),
+            statusMismatch: count("status_mismatch"),
+        },
+    })
+
+    for (let i = 0; i < items.length; i += LOOKUP_CHUNK_SIZE) {
+        await ReconciliationItem.insertMany(items.slice(i, i + LOOKUP_CHUNK_SIZE).map((item) => ({ ...item, runId: run._id })))
+    }
+
+    console.log(
+        `[Reconciliation] 📊 ${run.runId} (${input.provider}): ${rows.length} rows, ${matched} matched, ${items.length} discrepancies`
+    )
+    return run
+}
+
+// ─── Resolution ───────────────────────────────────────────────────────────────
+
+export interface ResolveOptions {
+    action: string
+    note?: string
+    // link: our order the provider row belongs to
+    orderId?: string
+    adminId: any
+}
+
+export type ResolveResult = { item: any } | { error: string; statusCode: number }
+
+/**
+ * Which resolve actions make sense for a discrepancy.
+ */
+export function allowedActions(item: any): string[] {
+    const actions = ["ignore"]
+    if (item.type === "missing_internal") actions.push("link")
+    if (item.transactionId) actions.push("flag_for_review")
+    if (
+        item.type === "status_mismatch" &&
+        normalizeReportStatus(item.providerStatus) === "success" &&
+        ["pending", "failed", "expired"].includes(item.internalStatus)
+    ) {
+        actions.push("accept_provider")
+    }
+    if (item.type === "amount_mismatch" && item.providerAmount !== null) actions.push("adjust_balance")
+    return actions
+}
+
+async function acceptProviderStatus(item: any, options: ResolveOptions): Promise<string | null> {
+    const result = await transitionTransaction({ _id: item.transactionId }, {
+        to: "completed",
+        source: "reconciliation",
+        note: options.note || "",
+        set: {
+            ...(item.paymentId ? { paymentId: item.paymentId } : {}),
+            ...(item.utr ? { "notes.utr": item.utr } : {}),
+            "notes.completed_via": "reconciliation",
+        },
+    })
+    if (!result.ok) return `Transaction could not be completed (${result.reason})`
+
+    const txn: any = result.txn
+    sseManager.broadcast(txn.orderId, {
+        type: "payment_success",
+        orderId: txn.orderId,
+        status: "completed",
+        paymentId: txn.paymentId,
+        source: "reconciliation",
+    })
+
+    const callbackUrl = await getMerchantCallbackUrl(txn.orderId)
+    fireMerchantCallback(callbackUrl, {
+        event: "payment.success",
+        orderId: txn.orderId,
+        paymentId: txn.paymentId || "",
+        amount: txn.amount,
+        currency: txn.currency || "INR",
+        status: "completed",
+        message: "Payment confirmed by provider reconciliation",
+        timestamp: new Date().toISOString(),
+        utr: txn.notes?.utr || undefined,
+    }).catch(() => { })
+
+    return null
+}
+
+async function flagForReview(item: any): Promise<string | null> {
+    const updated = await Transaction.updateOne(
+        { _id: item.transactionId, "review.required": { $ne: true } },
+        {
+            $set: {
+                review: {
+                    required: true,
+                    reason: `reconciliation_${item.type}`,
+                    source: "reconciliation",
+                    paymentId: item.paymentId,
+                    utr: item.utr,
+                    amount: item.providerAmount,
+                    payload: item.row,
+                    flaggedAt: new Date(),
+                },
+            },
+        }
+    )
+    return updated.modifiedCount > 0 ? null : "Transaction is already awaiting review"
+}
+
+async function linkTransaction(item: any, orderId?: string): Promise<string | null> {
+    if (!orderId) return "orderId is required to link"
+
+    const txn: any = await Transaction.findOne({ orderId }).select("_id orderId paymentId amount status notes")
+    if (!txn) return "Order not found"
+
+    const $set: Record<string, any> = {}
+    if (item.paymentId && !txn.paymentId) $set.paymentId = item.paymentId
+    if (item.utr && !txn.notes?.utr) $set["notes.utr"] = item.utr
+    if (Object.keys($set).length) await Transaction.updateOne({ _id: txn._id }, { $set })
+
+    await ReconciliationItem.updateOne(
+        { _id: item._id },
+        { $set: { transactionId: txn._id, orderId: txn.orderId, internalAmount: txn.amount, internalStatus: txn.status } }
+    )
+    return null
+}
+
+async function adjustBalance(item: any, options: ResolveOptions): Promise<string | null> {
+    const txn: any = await Transaction.findById(item.transactionId).select("userId orderId")
+    if (!txn?.userId) return "Transaction has no merchant to adjust"
+
+    const difference = round2(item.providerAmount - item.internalAmount)
+    const result = await recordAdjustment({
+        userId: txn.userId,
+        amount: difference,
+        memo: `Reconciliation amount correction for ${txn.orderId}${options.note ? ` — ${options.note}` : ""}`,
+        createdBy: options.adminId,
+    })
+    return result.posted ? null : `Adjustment not posted (${result.reason})`
+}
+
+/**
+ * Apply an admin action to an open discrepancy and close it.
+ */
+export async function resolveDiscrepancy(itemId: any, options: ResolveOptions): Promise<ResolveResult> {
+    const item: any = await ReconciliationItem.findById(itemId)
+    if (!item) return { error: "Discrepancy not found", statusCode: 404 }
+    if (item.status !== "open") return { error: "Discrepancy is already resolved", statusCode: 409 }
+
+    const actions = allowedActions(item)
+    if (!actions.includes(options.action)) {
+        return { error: `action must be one of: ${actions.join(", ")}`, statusCode: 400 }
+    }
+
+    // Claim first so two admins cannot apply actions to the same discrepancy
+    const claimed: any = await ReconciliationItem.findOneAndUpdate(
+        { _id: item._id, status: "open" },
+        {
+            $set: {
+                status: "resolved",
+                resolution: {
+                    action: options.action,
+                    note: options.note || "",
+                    resolvedBy: options.adminId,
+                    resolvedAt: new Date(),
+                },
+            },
+        },
+        { new: true }
+    )
+    if (!claimed) return { error: "Discrepancy is already resolved", statusCode: 409 }
+
+    let failure: string | null = null
+    try {
+        if (options.action === "accept_provider") failure = await acceptProviderStatus(item, options)
+        else if (options.action === "flag_for_review") failure = await flagForReview(item)
+        else if (options.action === "link") failure = await linkTransaction(item, options.orderId)
+        else if (options.action === "adjust_balance") failure = await adjustBalance(item, options)
+    } catch (err: any) {
+        failure = err.message
+    }
+
+    if (failure) {
+        await ReconciliationItem.updateOne({ _id: item._id }, { $set: { status: "open", resolution: null } })
+        return { error: failure, statusCode: 409 }
+    }
+
+    await ReconciliationRun.updateOne({ _id: item.runId }, { $inc: { "totals.open": -1 } })
+    console.log(`[Reconciliation] Admin ${options.adminId} resolved ${item.type} ${item._id} (${options.action})`)
+
+    return { item: await ReconciliationItem.findById(item._id).lean() }
+}
@@ -0,0 +1,257 @@
+/**
+ * Refund Service
+ * ==============
+ * Creates and settles refunds against completed pay-in Transactions.
+ *
+ * Accounting rules:
+ * - Transaction.refundAmount holds the total of all non-failed refunds. It is
+ *   reserved atomically before the gateway is called, so concurrent partial
+ *   refunds can never exceed the captured amount.
+ * - The merchant's available balance is debited when the refund is created and
+ *   credited back if it fails (ledger journals refund:<id>:created /
+ *   refund:<id>:failed). A refund the available balance cannot cover is refused
+ *   (402) — captured funds still in the T+N pending bucket cannot fund it.
+ * - The full refund amount is debited: the payer gets back what they paid, and
+ *   the pay-in fee charged on the original payment is not returned.
+ * - Transaction.status becomes "refunded" once processed refunds cover the
+ *   full amount.
+ *
+ * Providers without a refund API (supportsRefunds: false) get "manual"
+ * refunds that stay pending until an admin marks them processed/failed.
+ */
+
+import crypto from "crypto"
+import mongoose from "mongoose"
+import Refund from "../models/Refund"
+import Transaction from "../models/Transaction"
+import { getTransactionProvider } from "../providers"
+import { recordRefundCreated, recordRefundFailed } from "./ledger"
+import { fireMerchantCallback, getMerchantCallbackUrl } from "../utils/merchantCallback"
+import { transitionTransaction } from "../utils/transactionState"
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function generateRefundId(): string {
+    return `rfnd_${Date.now()}${crypto.randomBytes(3).toString("hex")}`
+}
+
+function round2(n: number): number {
+    return Math.round(n * 100) / 100
+}
+
+async function notifyMerchant(refund: any, txn: any, event: "refund.created" | "refund.processed" | "refund.failed") {
+    const status = event === "refund.processed" ? "processed" : event === "refund.failed" ? "failed" : "pending"
+    const message =
+        event === "refund.processed"
+            ? "Refund processed successfully"
+            : event === "refund.failed"
+                ? refund.failureReason || "Refund failed"
+                : "Refund initiated"
+
+    const callbackUrl = await getMerchantCallbackUrl(refund.orderId)
+    fireMerchantCallback(callbackUrl, {
+        event,
+        orderId: refund.orderId,
+        paymentId: txn?.paymentId || "",
+        amount: refund.amount,
+        currency: refund.currency,
+        status,
+        message,
+        timestamp: new Date().toISOString(),
+        refundId: refund.refundId,
+        gatewayId: refund.providerRefundId || undefined,
+    }).catch(() => { }) // already logged inside utility
+}
+
+/**
+ * Amount still refundable on a transaction.
+ */
+export function getRefundableAmount(txn: { amount: number; refundAmount?: number | null }): number {
+    return round2(Math.max(0, txn.amount - (txn.refundAmount || 0)))
+}
+
+// ─── Lifecycle ────────────────────────────────────────────────────────────────
+
+/**
+ * Move a pending refund to processed or failed. Idempotent — a refund that
+ * already left "pending" is returned unchanged.
+ */
+export async function applyRefundStatus(
+    refundId: string,
+    status: "processed" | "failed",
+    details: { providerRefundId?: string; providerResponse?: any; failureReason?: string; note?: string } = {}
+) {
+    const $set: Record<string, any> = { status }
+    if (details.providerRefundId) $set.providerRefundId = details.providerRefundId
+    if (details.providerResponse !== undefined) $set.providerResponse = details.providerResponse
+    if (status === "processed") $set.processedAt = new Date()
+    if (status === "failed") $set.failureReason = details.failureReason || "Refund failed"
+
+    const refund: any = await Refund.findOneAndUpdate(
+        { refundId, status: "pending" },
+        {
+            $set,
+            $push: { history: { status, at: new Date(), note: details.note || details.failureReason || "" } },
+        },
+        { new: true }
+    )
+
+    if (!refund) {
+        console.log(`[Refunds] ${refundId} is not pending — skipping transition to ${status}`)
+        return Refund.findOne({ refundId })
+    }
+
+    let txn: any
+    if (status === "failed") {
+        // Release the reservation and give the merchant their balance back
+        txn = await Transaction.findByIdAndUpdate(
+            refund.transactionId,
+            { $inc: { refundAmount: -refund.amount }, $set: { updatedAt: new Date() } },
+            { new: true }
+        )
+        if (refund.userId) {
+            await recordRefundFailed(refund)
+        }
+    } else {
+        txn = await Transaction.findById(refund.transactionId)
+        const processed = await Refund.aggregate([
+            { $match: { transactionId: refund.transactionId, status: "processed" } },
+            { $group: { _id: null, total: { $sum: "$amount" } } },
+        ])
+        const processedTotal = round2(processed[0]?.total || 0)
+
+        if (txn && processedTotal >= txn.amount) {
+            const result = await transitionTransaction({ _id: refund.transactionId }, {
+                to: "refunded",
+                source: "refund",
+                rawRef: refund.refundId,
+                set: { refundId: refund.refundId },
+            })
+            if (result.txn) txn = result.txn
+        } else {
+            txn = await Transaction.findByIdAndUpdate(
+                refund.transactionId,
+                { $set: { refundId: refund.refundId, updatedAt: new Date() } },
+                { new: true }
+            )
+        }
+    }
+
+    console.log(`[Refunds] ✅ ${refund.refundId} → ${status} (orderId=${refund.orderId} amount=${refund.amount})`)
+    await notifyMerchant(refund, txn, status === "processed" ? "refund.processed" : "refund.failed")
+
+    return refund
+}
+
+/**
+ * Create a refund for a completed transaction and, when the provider supports
+ * it, submit it to the gateway right away.
+ *
+ * Resolves with `{ error, statusCode }` if the amount could not be reserved
+ * (already fully refunded, or a concurrent refund used it up — 409) or the
+ * merchant's available balance cannot fund it (402).
+ */
+export async function createRefund(params: {
+    txn: any
+    amount: number
+    reason?: string
+    requestedBy?: string | null
+    requestedVia: "api_key" | "jwt" | "admin"
+}): Promise<{ refund: any } | { error: string; statusCode: number }> {
+    const { txn, reason, requestedBy, requestedVia } = params
+    const amount = round2(params.amount)
+
+    const provider = getTransactionProvider(txn)
+    if (!provider) {
+        throw new Error(`Cannot determine the payment provider for order ${txn.orderId}`)
+    }
+
+    // ── Atomic reservation — refunds can never exceed the captured amount ─────
+    const reserved = await Transaction.findOneAndUpdate(
+        {
+            _id: txn._id,
+            status: "completed",
+            $expr: { $lte: [{ $add: [{ $ifNull: ["$refundAmount", 0] }, amount] }, "$amount"] },
+        },
+        { $inc: { refundAmount: amount }, $set: { updatedAt: new Date() } },
+        { new: true }
+    )
+    if (!reserved) {
+        return { error: "Refund could not be reserved — the order was refunded concurrently. Check refunds and retry.", statusCode: 409 }
+    }
+
+    const releaseReservation = () =>
+        Transaction.updateOne({ _id: txn._id }, { $inc: { refundAmount: -amount }, $set: { updatedAt: new Date() } })
+
+    // ── Fund it from the merchant's available balance before anything else ───
+    const refundDoc = { _id: new mongoose.Types.ObjectId(), refundId: generateRefundId(), userId: txn.userId, amount, currency: txn.currency || "INR" }
+    if (txn.userId) {
+        const journal = await recordRefundCreated(refundDoc)
+        if (!journal.posted) {
+            await releaseReservation()
+            return { error: `Insufficient available balance to fund a ₹${amount} refund`, statusCode: 402 }
+        }
+    }
+
+    const mode = provider.supportsRefunds ? "api" : "manual"
+    let refund: any
+    try {
+        refund = await Refund.create({
+            _id: refundDoc._id,
+            refundId: refundDoc.refundId,
+            transactionId: txn._id,
+            orderId: txn.orderId,
+            userId: txn.userId || null,
+            amount,
+            currency: refundDoc.currency,
+            reason: reason || "",
+            status: "pending",
+            mode,
+            provider: provider.name,
+            requestedBy: requestedBy || null,
+            requestedVia,
+            history: [{ status: "pending", at: new Date(), note: mode === "manual" ? "Awaiting manual processing" : "Created" }],
+        })
+    } catch (createErr) {
+        await releaseReservation()
+        if (txn.userId) await recordRefundFailed(refundDoc)
+        throw createErr
+    }
+
+    console.log(`[Refunds] Created ${refund.refundId} orderId=${txn.orderId} amount=${amount} provider=${provider.name} mode=${mode}`)
+    await notifyMerchant(refund, reserved, "refund.created")
+
+    if (mode === "manual") return { refund }
+
+    // ── Submit to gateway ─────────────────────────────────────────────────────
+    try {
+        const result = await provider.refund({
+            orderId: txn.orderId,
+            paymentId: txn.paymentId,
+            amount,
+            notes: { refund_id: refund.refundId },
+        })
+
+        if (result.status === "pending") {
+            // Final status arrives via webhook (e.g. Razorpay refund.processed)
+            const updated = await Refund.findOneAndUpdate(
+                { _id: refund._id },
+                { $set: { providerRefundId: result.refundId, providerResponse: result.raw } },
+                { new: true }
+            )
+            return { refund: updated }
+        }
+
+        return { refund: await applyRefundStatus(refund.refundId, result.status, {
+            providerRefundId: result.refundId,
+            providerResponse: result.raw,
+            failureReason: result.status === "failed" ? "Rejected by gateway" : undefined,
+        }) }
+    } catch (err: any) {
+        console.error(`[Refunds] ${provider.label} refund failed for ${refund.refundId}:`, err.message)
+        return { refund: await applyRefundStatus(refund.refundId, "failed", {
+            failureReason: `${provider.label} error: ${err.message}`,
+            providerResponse: err?.response?.data || err?.error || null,
+        }) }
+    }
+}
@@ -11,6 +11,8 @@
  *   POST https://pg.sdmrc.in/api/v2/bank/check-status   — Check payout status
  *   POST https://pg.sdmrc.in/api/check-balance           — Balance check (no /v2)
  *
+ * Inbound payout callbacks are authenticated by verifyRezoPayCallback.
+ *
  * Design:
  * - Env vars validated at call time — server starts even if keys not set
  * - 20s timeout on payout initiation (bank APIs are slow)
@@ -19,6 +21,7 @@
  */
 
 import axios, { AxiosError } from "axios"
+import crypto from "crypto"
 import https from "https"
 
 // Force IPv4 — avoids IPv6 routing issues common on VPS/cloud
@@ -269,3 +272,49 @@ export async function checkRezoPayoutBalance(): Promise<RezopayBalanceResponse>
         throw sanitizeGatewayError(error, "checkRezoPayoutBalance")
     }
 }
+
+// ─── Callback Verification ────────────────────────────────────────────────────
+
+function normalizeIp(ip: string): string {
+    return ip.trim().replace(/^::ffff:/, "")
+}
+
+/**
+ * Decide whether a payout callback really comes from RezoPay.
+ *
+ * Accepted when the caller IP is in REZOPAY_CALLBACK_IPS (comma-separated) or the
+ * X-RezoPay-Signature header is the hex HMAC-SHA256 of the raw body with
+ * REZOPAY_CALLBACK_SECRET. With neither configured every caller passes ("unverified")
+ * and the status confirmation in the callback processor is the only check.
+ *
+ * The IP allowlist is only as good as `ip`: pass req.ip with TRUST_PROXY set to
+ * the real proxy hop count or proxy list, so a client-sent X-Forwarded-For
+ * cannot spoof it.
+ */
+export function verifyRezoPayCallback(input: {
+    ip: string | undefined
+    rawBody: string
+    signature: string | undefined
+}): { ok: boolean; method: "ip_allowlist" | "signature" | "unverified" | "rejected" } {
+    const allowedIps = (process.env.REZOPAY_CALLBACK_IPS || "")
+        .split(",")
+        .map(normalizeIp)
+        .filter(Boolean)
+    const secret = process.env.REZOPAY_CALLBACK_SECRET || ""
+
+    if (allowedIps.length === 0 && !secret) return { ok: true, method: "unverified" }
+
+    if (input.ip && allowedIps.includes(normalizeIp(input.ip))) {
+        return { ok: true, method: "ip_allowlist" }
+    }
+
+    if (secret && input.signature) {
+        const expected = crypto.createHmac("sha256", secret).update(input.rawBody).digest("hex")
+        const received = input.signature.trim().replace(/^sha256=/i, "").toLowerCase()
+        if (received.length === expected.length && crypto.timingSafeEqual(Buffer.from(received), Buffer.from(expected))) {
+            return { ok: true, method: "signature" }
+        }
+    }
+
+    return { ok: false, method: "rejected" }
+}
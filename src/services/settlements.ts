@@ -0,0 +1,261 @@
+/**
+ * Settlement Service
+ * ==================
+ * Groups captured pay-ins into per-merchant settlement batches and moves the
+ * batches through scheduled → processing → paid | failed.
+ *
+ * Only merchants on auto-settlement (User.autoSettlement, set by an admin)
+ * get batches; everyone else withdraws released funds through payouts.
+ *
+ * Precedence: payout holds and refunds debit merchant_available the moment
+ * they are requested, so a due batch reserves only from what they left. If
+ * that can't cover the batch net, the batch stays scheduled and is retried
+ * every RESERVE_RETRY_MS until it can.
+ *
+ * Ledger journals:
+ *   settlement:<id>:reserve  — processing: merchant_available → payout_clearing
+ *   settlement:<id>:paid     — paid:       payout_clearing → provider_clearing
+ *   settlement:<id>:reversal — failed:     payout_clearing → merchant_available
+ */
+
+import crypto from "crypto"
+import Settlement from "../models/Settlement"
+import Transaction from "../models/Transaction"
+import User from "../models/User"
+import { postJournal } from "./ledger"
+
+function generateSettlementId(): string {
+    return `stl_${Date.now()}${crypto.randomBytes(3).toString("hex")}`
+}
+
+function startOfDay(d: Date): Date {
+    const day = new Date(d)
+    day.setHours(0, 0, 0, 0)
+    return day
+}
+
+function round2(n: number): number {
+    return Math.round(n * 100) / 100
+}
+
+const PROCESS_INTERVAL_MS = 30 * 60 * 1000 // Every 30 minutes
+const RESERVE_RETRY_MS = 6 * 60 * 60 * 1000
+
+// ─── Batching ─────────────────────────────────────────────────────────────────
+
+/**
+ * Add a captured transaction to its merchant's open batch for the release day.
+ */
+export async function addToSettlementBatch(
+    txn: any,
+    amounts: { gross: number; fee: number; tax: number; net: number },
+    releaseAt: Date
+) {
+    const cycleDate = startOfDay(releaseAt)
+    const update = {
+        $setOnInsert: {
+            settlementId: generateSettlementId(),
+            currency: txn.currency || "INR",
+            history: [{ status: "scheduled", at: new Date(), note: "Batch opened" }],
+        },
+        $inc: {
+            gross: amounts.gross,
+            fee: amounts.fee,
+            tax: amounts.tax,
+            net: amounts.net,
+            transactionCount: 1,
+        },
+        $addToSet: { transactionIds: txn._id },
+    }
+
+    let batch: any
+    try {
+        batch = await Settlement.findOneAndUpdate(
+            { userId: txn.userId, cycleDate, status: "scheduled", transactionIds: { $ne: txn._id } },
+            update,
+            { upsert: true, new: true }
+        )
+    } catch (err: any) {
+        // Two captures opened the same batch at once — the loser joins it
+        if (err?.code !== 11000) throw err
+        batch = await Settlement.findOneAndUpdate(
+            { userId: txn.userId, cycleDate, status: "scheduled", transactionIds: { $ne: txn._id } },
+            update,
+            { new: true }
+        )
+    }
+
+    if (batch) {
+        await Transaction.updateOne({ _id: txn._id }, { $set: { "walletCredit.settlementId": batch._id } })
+    }
+    return batch
+}
+
+// ─── Processing ───────────────────────────────────────────────────────────────
+
+/**
+ * Move batches whose release day has come (and whose funds are all released)
+ * to processing, reserving the batch net from the merchant's available balance.
+ * Batches of merchants who left auto-settlement stay scheduled.
+ */
+export async function processDueSettlements(): Promise<number> {
+    const now = new Date()
+    const due: any[] = await Settlement.find({
+        status: "scheduled",
+        cycleDate: { $lte: now },
+        $or: [{ nextAttemptAt: null }, { nextAttemptAt: { $lte: now } }],
+    }).limit(100)
+    if (due.length === 0) return 0
+
+    const optedIn = new Set(
+        (await User.find({ _id: { $in: due.map((b) => b.userId) }, autoSettlement: true }).select("_id").lean())
+            .map((u: any) => String(u._id))
+    )
+
+    let processed = 0
+    for (const batch of due) {
+        if (!optedIn.has(String(batch.userId))) continue
+
+        const stillHeld = await Transaction.countDocuments({
+            _id: { $in: batch.transactionIds },
+            "walletCredit.status": { $ne: "released" },
+        })
+        if (stillHeld > 0) continue
+
+        const claimed: any = await Settlement.findOneAndUpdate(
+            { _id: batch._id, status: "scheduled" },
+            {
+                $set: { status: "processing" },
+                $push: { history: { status: "processing", at: new Date(), note: "Release day reached" } },
+            },
+            { new: true }
+        )
+        if (!claimed) continue
+
+        const net = round2(claimed.net)
+        if (net > 0) {
+            const reserve = await postJournal({
+                key: `settlement:${claimed._id}:reserve`,
+                requireFunds: true,
+                currency: claimed.currency,
+                reference: { type: "payout", id: claimed._id, ref: claimed.settlementId },
+                memo: `Settlement ${claimed.settlementId} (${claimed.transactionCount} payments)`,
+                lines: [
+                    { account: "merchant_available", userId: claimed.userId, direction: "debit", amount: net },
+                    { account: "payout_clearing", direction: "credit", amount: net },
+                ],
+            })
+
+            if (!reserve.posted && reserve.reason === "insufficient_funds") {
+                // Payouts or refunds got there first — wait for more funds to be released
+                const nextAttemptAt = new Date(Date.now() + RESERVE_RETRY_MS)
+                await Settlement.updateOne(
+                    { _id: claimed._id, status: "processing" },
+                    {
+                        $set: { status: "scheduled", nextAttemptAt },
+                        $inc: { reserveAttempts: 1 },
+                        $push: {
+                            history: {
+                                status: "scheduled",
+                                at: new Date(),
+                                note: `Available balance below ₹${net} — retrying at ${nextAttemptAt.toISOString()}`,
+                            },
+                        },
+                    }
+                )
+                console.warn(`[Settlements] ⚠️ ${claimed.settlementId} requeued — insufficient available balance for ₹${net}`)
+                continue
+            }
+        }
+
+        processed++
+        console.log(`[Settlements] 📦 ${claimed.settlementId} → processing (₹${net}, ${claimed.transactionCount} payments)`)
+    }
+
+    return processed
+}
+
+/**
+ * Admin recorded the bank transfer for a processing batch.
+ * Returns null if the batch is not processing.
+ */
+export async function markSettlementPaid(settlementId: string, utr: string, adminId: any) {
+    const batch: any = await Settlement.findOneAndUpdate(
+        { settlementId, status: "processing" },
+        {
+            $set: { status: "paid", utr, paidAt: new Date(), processedBy: adminId },
+            $push: { history: { status: "paid", at: new Date(), note: `UTR ${utr}` } },
+        },
+        { new: true }
+    )
+    if (!batch) return null
+
+    if (round2(batch.net) > 0) {
+        await postJournal({
+            key: `settlement:${batch._id}:paid`,
+            currency: batch.currency,
+            reference: { type: "payout", id: batch._id, ref: batch.settlementId },
+            memo: `Settlement ${batch.settlementId} paid (UTR ${utr})`,
+            createdBy: adminId,
+            lines: [
+                { account: "payout_clearing", direction: "debit", amount: round2(batch.net) },
+                { account: "provider_clearing", direction: "credit", amount: round2(batch.net) },
+            ],
+        })
+    }
+
+    console.log(`[Settlements] ✅ ${batch.settlementId} paid (UTR ${utr})`)
+    return batch
+}
+
+/**
+ * Bank transfer failed — return the reserved funds to the merchant.
+ * Returns null if the batch is not processing.
+ */
+export async function markSettlementFailed(settlementId: string, reason: string, adminId: any) {
+    const batch: any = await Settlement.findOneAndUpdate(
+        { settlementId, status: "processing" },
+        {
+            $set: { status: "failed", failureReason: reason, processedBy: adminId },
+            $push: { history: { status: "failed", at: new Date(), note: reason } },
+        },
+        { new: true }
+    )
+    if (!batch) return null
+
+    if (round2(batch.net) > 0) {
+        await postJournal({
+            key: `settlement:${batch._id}:reversal`,
+            currency: batch.currency,
+            reference: { type: "payout", id: batch._id, ref: batch.settlementId },
+            memo: `Settlement ${batch.settlementId} failed — ${reason}`,
+            createdBy: adminId,
+            lines: [
+                { account: "payout_clearing", direction: "debit", amount: round2(batch.net) },
+                { account: "merchant_available", userId: batch.userId, direction: "credit", amount: round2(batch.net) },
+            ],
+        })
+    }
+
+    console.warn(`[Settlements] ❌ ${batch.settlementId} failed — ${reason}`)
+    return batch
+}
+
+// ─── Job ──────────────────────────────────────────────────────────────────────
+
+let processInterval: NodeJS.Timeout | null = null
+
+export function startSettlementJob(): void {
+    console.log(`[Settlements] 🚀 Starting settlement job (interval: ${PROCESS_INTERVAL_MS / 60000}m)`)
+
+    processDueSettlements().catch((e) => console.error("[Settlements] Startup error:", e.message))
+
+    processInterval = setInterval(() => {
+        processDueSettlements().catch((e) => console.error("[Settlements] Interval error:", e.message))
+    }, PROCESS_INTERVAL_MS)
+}
+
+export function stopSettlementJob(): void {
+    if (processInterval) clearInterval(processInterval)
+    console.log("[Settlements] 🛑 Stopped.")
+}
@@ -47,7 +47,7 @@ export async function createSmepayTransaction(payload: {
   description?: string
   customer?: { name?: string; email?: string; phone?: string }
   metadata?: Record<string, any>
-}) {
+}, options: { signal?: AbortSignal } = {}) {
   console.log("[SMEPay] Creating transaction with payload:", payload)
 
   // Extra: Log callback_url and SMEPAY_BASE_URL for debugging
@@ -79,6 +79,8 @@ export async function createSmepayTransaction(payload: {
       headers: {
         Authorization: `Bearer ${token}`,
       },
+      // Failover passes its own deadline as the signal
+      ...(options.signal ? { timeout: 0, signal: options.signal } : {}),
     });
   } catch (err) {
     const error = err as any;
@@ -91,7 +93,7 @@ export async function createSmepayTransaction(payload: {
       // Log full error response for debugging
       console.error("[SMEPay] Full error response:", JSON.stringify(error.response.data, null, 2));
     }
-    throw new Error(`SMEPay create-order failed: ${error.response?.data?.message || error.message}`);
+    throw new Error(`SMEPay create-order failed: ${error.response?.data?.message || error.message}`, { cause: error });
   }
 
   console.log("[SMEPay] Create order response:", JSON.stringify(resp.data, null, 2));
@@ -167,3 +169,46 @@ export async function createSmepayTransaction(payload: {
     }
   }
 }
+
+/**
+ * Fetch the current status of a SMEPay order via the validate-order API.
+ * `slug` is the order slug returned by createSmepayTransaction (notes.smepay.slug).
+ */
+export async function checkSmepayOrderStatus(payload: { slug: string; amount: number }) {
+  const token = await getSmepayToken()
+
+  const body = {
+    client_id: SMEPAY_CLIENT_ID,
+    amount: String(payload.amount || 0),
+    slug: payload.slug,
+  }
+
+  let resp
+  try {
+    resp = await smepayApiClient.post("/wiz/external/order/validate", body, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    })
+  } catch (err) {
+    const error = err as any
+    console.error("[SMEPay] Order status error:", {
+      status: error.response?.status,
+      data: error.response?.data,
+      message: error.message
+    })
+    throw new Error(`SMEPay order-status failed: ${error.response?.data?.message || error.message}`)
+  }
+
+  console.log(`[SMEPay] Order status response for ${payload.slug}:`, JSON.stringify(resp.data))
+
+  const raw = resp.data
+  const data = raw?.data || raw
+
+  return {
+    raw,
+    payment_status: String(data?.payment_status || data?.status || "").toUpperCase(),
+    order_id: data?.order_id,
+    utr: data?.utr || data?.bank_ref_no,
+  }
+}
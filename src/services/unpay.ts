@@ -54,7 +54,7 @@ export async function createUnpayDynamicQR(payload: {
   amount: number
   apitxnid: string
   webhook?: string
-}) {
+}, options: { signal?: AbortSignal } = {}) {
   console.log("[UnPay QR] Starting Creation Process (AES-256-CBC)...")
 
   if (!UNPAY_PARTNER_ID || !UNPAY_API_KEY) {
@@ -121,8 +121,10 @@ export async function createUnpayDynamicQR(payload: {
           "Accept": "application/json",
           "api-key": UNPAY_API_KEY.trim()
         },
-        timeout: 15000,
-        httpsAgent: httpsAgent
+        // Failover passes its own deadline as the signal
+        timeout: options.signal ? 0 : 15000,
+        httpsAgent: httpsAgent,
+        signal: options.signal
       }
     )
 
@@ -141,7 +143,8 @@ export async function createUnpayDynamicQR(payload: {
       error.response?.data || error.message
     )
     throw new Error(
-      error.response?.data?.message || error.message
+      error.response?.data?.message || error.message,
+      { cause: error }
     )
   }
 }
@@ -184,4 +187,56 @@ export async function createUnpayTransaction(payload: {
   } catch (err: any) {
     throw new Error("UnPay order creation failed")
   }
-}
\ No newline at end of file
+}
+// ======================
+// Pay-In Order Status
+// ======================
+
+/**
+ * Check a pay-in order's status by apitxnid.
+ * Tries /payin/order/status first, then /payout/order/status (some accounts
+ * only expose the latter). Returns { statuscode: "PERMISSION_DENIED" } when
+ * neither endpoint is allowed for this partner.
+ */
+export async function checkUnpayOrderStatus(apitxnid: string): Promise<{
+  statuscode: string
+  txnid?: string
+  utr?: string
+  amount?: number
+  status?: string
+  message?: string
+}> {
+  if (!UNPAY_PARTNER_ID || !UNPAY_API_KEY) throw new Error("UnPay credentials missing")
+
+  const requestBody = {
+    body: encryptAES256CBC(JSON.stringify({ partner_id: String(UNPAY_PARTNER_ID), apitxnid: String(apitxnid) })),
+  }
+  const baseUrl = (process.env.UNPAY_BASE_URL || "https://unpay.in/tech/api").replace(/\/$/, "")
+  const endpoints = [`${baseUrl}/payin/order/status`, `${baseUrl}/payout/order/status`]
+
+  let lastError: any = null
+  for (const url of endpoints) {
+    try {
+      const response = await axios.post(url, requestBody, {
+        headers: {
+          "Content-Type": "application/json",
+          "Accept": "application/json",
+          "api-key": UNPAY_API_KEY.trim()
+        },
+        timeout: 10000,
+        httpsAgent: httpsAgent
+      })
+
+      if (response.data?.message === "Permission Not Allowed") continue
+      return response.data
+    } catch (error: any) {
+      console.error(`[UnPay Status] API error for ${apitxnid} at ${url}:`, error.response?.data || error.message)
+      lastError = error
+    }
+  }
+
+  if (lastError) {
+    throw new Error(lastError.response?.data?.message || lastError.message)
+  }
+  return { statuscode: "PERMISSION_DENIED", message: "Permission Not Allowed" }
+}
@@ -0,0 +1,249 @@
+/**
+ * Wallet Crediting & Settlement Hold
+ * ==================================
+ * Completed pay-ins are credited to the merchant in two steps:
+ *
+ *   1. capture — when a Transaction reaches "completed" (any source), its fees
+ *      are priced under the merchant's PricingPlan and stored on
+ *      Transaction.pricing; the net amount (gross − fee − tax) is credited to
+ *      merchant_pending and the fees to platform_fees.
+ *                                                journal: txn:<id>:capture
+ *   2. release — after the merchant's settlement delay (T+N business days) the
+ *      net amount moves from merchant_pending to merchant_available, where it
+ *      can be paid out.                          journal: txn:<id>:release
+ *
+ * The delay is User.settlementDelayDays, falling back to SETTLEMENT_DELAY_DAYS
+ * (default 1). Weekends and the dates in SETTLEMENT_HOLIDAYS (comma-separated
+ * YYYY-MM-DD) are not business days.
+ *
+ * For merchants on auto-settlement (User.autoSettlement) each capture also
+ * joins the settlement batch for its release day (services/settlements.ts,
+ * which runs its own job). A background job releases due funds and retries
+ * captures that failed.
+ */
+
+import Transaction from "../models/Transaction"
+import User from "../models/User"
+import { postJournal } from "./ledger"
+import { calculatePayinFees } from "./fees"
+import { addToSettlementBatch } from "./settlements"
+
+const DEFAULT_SETTLEMENT_DELAY_DAYS = 1
+export const MAX_SETTLEMENT_DELAY_DAYS = 30
+
+const RELEASE_INTERVAL_MS = 10 * 60 * 1000 // Every 10 minutes
+const RELEASE_BATCH_SIZE = 200
+
+// ─── Business days ────────────────────────────────────────────────────────────
+
+function holidays(): Set<string> {
+    return new Set(
+        (process.env.SETTLEMENT_HOLIDAYS || "")
+            .split(",")
+            .map((d) => d.trim())
+            .filter(Boolean)
+    )
+}
+
+function toDateKey(d: Date): string {
+    const month = String(d.getMonth() + 1).padStart(2, "0")
+    const day = String(d.getDate()).padStart(2, "0")
+    return `${d.getFullYear()}-${month}-${day}`
+}
+
+export function isBusinessDay(d: Date, holidaySet: Set<string> = holidays()): boolean {
+    const weekday = d.getDay()
+    return weekday !== 0 && weekday !== 6 && !holidaySet.has(toDateKey(d))
+}
+
+/**
+ * T+N: start of the Nth business day after `from`. T+0 releases immediately.
+ */
+export function computeReleaseDate(from: Date, delayDays: number): Date {
+    if (delayDays <= 0) return new Date(from)
+
+    const holidaySet = holidays()
+    const d = new Date(from)
+    d.setHours(0, 0, 0, 0)
+
+    let added = 0
+    while (added < delayDays) {
+        d.setDate(d.getDate() + 1)
+        if (isBusinessDay(d, holidaySet)) added++
+    }
+    return d
+}
+
+export function getDefaultSettlementDelayDays(): number {
+    const fromEnv = Number(process.env.SETTLEMENT_DELAY_DAYS)
+    return Number.isInteger(fromEnv) && fromEnv >= 0 ? fromEnv : DEFAULT_SETTLEMENT_DELAY_DAYS
+}
+
+export function isValidSettlementDelay(days: unknown): days is number {
+    return typeof days === "number" && Number.isInteger(days) && days >= 0 && days <= MAX_SETTLEMENT_DELAY_DAYS
+}
+
+// ─── Capture ──────────────────────────────────────────────────────────────────
+
+/**
+ * Price a completed transaction and credit it to the merchant's pending balance.
+ * Idempotent — a transaction is only ever priced and captured once.
+ */
+export async function creditCompletedPayment(txn: any): Promise<void> {
+    if (!txn || txn.walletCredit) return
+
+    let fees = txn.pricing
+    if (!fees) {
+        fees = await calculatePayinFees(txn)
+        await Transaction.updateOne(
+            { _id: txn._id, pricing: null },
+            { $set: { pricing: { ...fees, calculatedAt: new Date() } } }
+        )
+    }
+
+    if (!txn.userId) return
+
+    const merchant: any = await User.findById(txn.userId).select("settlementDelayDays autoSettlement")
+    if (!merchant) {
+        console.warn(`[WalletCredit] Merchant ${txn.userId} not found for ${txn.orderId} — not credited`)
+        return
+    }
+
+    const delayDays = isValidSettlementDelay(merchant.settlementDelayDays)
+        ? merchant.settlementDelayDays
+        : getDefaultSettlementDelayDays()
+    const capturedAt = new Date()
+
+    const lines: any[] = [
+        { account: "provider_clearing", direction: "debit", amount: fees.gross },
+    ]
+    if (fees.net > 0) lines.push({ account: "merchant_pending", userId: txn.userId, direction: "credit", amount: fees.net })
+    if (fees.fee + fees.tax > 0) lines.push({ account: "platform_fees", direction: "credit", amount: fees.fee + fees.tax })
+
+    const result = await postJournal({
+        key: `txn:${txn._id}:capture`,
+        currency: txn.currency,
+        reference: { type: "transaction", id: txn._id, ref: txn.orderId },
+        memo: `Payment ${txn.orderId} captured (fee ${fees.fee}, tax ${fees.tax})`,
+        lines,
+    })
+
+    const releaseAt = computeReleaseDate(capturedAt, delayDays)
+    const marked = await Transaction.updateOne(
+        { _id: txn._id, walletCredit: null },
+        {
+            $set: {
+                walletCredit: {
+                    status: "held",
+                    net: fees.net,
+                    delayDays,
+                    creditedAt: capturedAt,
+                    releaseAt,
+                    releasedAt: null,
+                    settlementId: null,
+                },
+            },
+        }
+    )
+
+    if (marked.modifiedCount > 0 && merchant.autoSettlement) {
+        await addToSettlementBatch(txn, fees, releaseAt)
+    }
+
+    if (result.posted) {
+        console.log(`[WalletCredit] 💰 ${txn.orderId}: ₹${fees.net} pending for merchant ${txn.userId} (T+${delayDays})`)
+    }
+}
+
+// ─── Release ──────────────────────────────────────────────────────────────────
+
+async function releaseHeldFunds(txn: any): Promise<boolean> {
+    // Claim first so two job runs cannot release the same transaction
+    const claimed = await Transaction.findOneAndUpdate(
+        { _id: txn._id, "walletCredit.status": "held" },
+        { $set: { "walletCredit.status": "releasing" } },
+        { new: true }
+    )
+    if (!claimed) return false
+
+    const net = claimed.walletCredit.net
+    try {
+        if (net > 0) {
+            await postJournal({
+                key: `txn:${txn._id}:release`,
+                currency: txn.currency,
+                reference: { type: "transaction", id: txn._id, ref: txn.orderId },
+                memo: `Settlement hold released for ${txn.orderId}`,
+                lines: [
+                    { account: "merchant_pending", userId: txn.userId, direction: "debit", amount: net },
+                    { account: "merchant_available", userId: txn.userId, direction: "credit", amount: net },
+                ],
+            })
+        }
+        await Transaction.updateOne(
+            { _id: txn._id },
+            { $set: { "walletCredit.status": "released", "walletCredit.releasedAt": new Date() } }
+        )
+        return true
+    } catch (err) {
+        await Transaction.updateOne({ _id: txn._id }, { $set: { "walletCredit.status": "held" } })
+        throw err
+    }
+}
+
+/**
+ * Release every hold that is due, and capture completed transactions whose
+ * credit failed earlier (only ones completed through the state machine, so
+ * pre-ledger history is never credited twice).
+ */
+export async function runSettlementRelease(): Promise<void> {
+    const missed: any[] = await Transaction.find({
+        status: { $in: ["completed", "refunded"] },
+        userId: { $ne: null },
+        walletCredit: null,
+        "statusHistory.to": "completed",
+    }).limit(RELEASE_BATCH_SIZE)
+
+    for (const txn of missed) {
+        try {
+            await creditCompletedPayment(txn)
+        } catch (err: any) {
+            console.error(`[WalletCredit] Capture retry failed for ${txn.orderId}:`, err.message)
+        }
+    }
+
+    const due: any[] = await Transaction.find({
+        "walletCredit.status": "held",
+        "walletCredit.releaseAt": { $lte: new Date() },
+    }).limit(RELEASE_BATCH_SIZE)
+
+    let released = 0
+    for (const txn of due) {
+        try {
+            if (await releaseHeldFunds(txn)) released++
+        } catch (err: any) {
+            console.error(`[WalletCredit] Release failed for ${txn.orderId}:`, err.message)
+        }
+    }
+
+    if (missed.length || released) {
+        console.log(`[WalletCredit] Captured ${missed.length} missed, released ${released} hold(s)`)
+    }
+}
+
+let releaseInterval: NodeJS.Timeout | null = null
+
+export function startSettlementReleaseJob(): void {
+    console.log(`[WalletCredit] 🚀 Starting release job (interval: ${RELEASE_INTERVAL_MS / 1000}s, default T+${getDefaultSettlementDelayDays()})`)
+
+    runSettlementRelease().catch((e) => console.error("[WalletCredit] Startup error:", e.message))
+
+    releaseInterval = setInterval(() => {
+        runSettlementRelease().catch((e) => console.error("[WalletCredit] Interval error:", e.message))
+    }, RELEASE_INTERVAL_MS)
+}
+
+export function stopSettlementReleaseJob(): void {
+    if (releaseInterval) clearInterval(releaseInterval)
+    console.log("[WalletCredit] 🛑 Stopped.")
+}
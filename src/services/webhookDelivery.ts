@@ -0,0 +1,344 @@
+/**
+ * Webhook Delivery Queue
+ * ======================
+ * Merchant callbacks are stored as WebhookDelivery documents and delivered
+ * with retries, so a merchant endpoint that is briefly down still learns
+ * about every payment.
+ *
+ * The first attempt is made right away. A failed attempt (no response, or a
+ * non-2xx status) is retried with exponential backoff:
+ *   WEBHOOK_RETRY_BASE_SECONDS (default 30) × 2^(attempt − 1), capped at 6h
+ * up to WEBHOOK_MAX_ATTEMPTS (default 8) attempts. After that the delivery
+ * is "dead" and the merchant is emailed.
+ *
+ * Every attempt records the request headers, HTTP status, latency, response
+ * headers and the start of the response body.
+ *
+ * Deliveries to a registered WebhookEndpoint are signed with the endpoint's
+ * secret and are dropped once the endpoint is disabled or deleted. Per-order
+ * callbacks are signed with the secret of the API key the order was created
+ * with (else the merchant's newest active key):
+ *   X-VersaiPay-Signature: t=<unix seconds>,v1=<HMAC-SHA256(secret, "<t>.<body>")>
+ * The timestamp is fresh on every attempt; verifyWebhookSignature in
+ * utils/crypto.ts is the reference check.
+ */
+
+import axios from "axios"
+import crypto from "crypto"
+import ApiKey from "../models/ApiKey"
+import Transaction from "../models/Transaction"
+import User from "../models/User"
+import WebhookDelivery from "../models/WebhookDelivery"
+import WebhookEndpoint from "../models/WebhookEndpoint"
+import { signWebhookPayload } from "../utils/crypto"
+import { sendWebhookDeadEmail } from "../utils/email"
+
+const DEFAULT_MAX_ATTEMPTS = 8
+const DEFAULT_RETRY_BASE_SECONDS = 30
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000
+
+const REQUEST_TIMEOUT_MS = 8000
+// How long a claimed delivery is hidden from other workers
+const ATTEMPT_LEASE_MS = 2 * 60 * 1000
+const RESPONSE_SNIPPET_LENGTH = 2000
+
+const WORKER_INTERVAL_MS = 30 * 1000 // Every 30 seconds
+const WORKER_BATCH_SIZE = 50
+
+export interface WebhookDeliveryInput {
+    url: string
+    event: string
+    payload: Record<string, any>
+    orderId?: string
+    // Registered endpoint the delivery is for (null = per-order callbackUrl)
+    endpointId?: any
+    // Merchant to attribute the delivery to when orderId is not a pay-in order (payouts)
+    userId?: any
+}
+
+function generateDeliveryId(): string {
+    return `whd_${Date.now()}${crypto.randomBytes(3).toString("hex")}`
+}
+
+function positiveIntFromEnv(name: string, fallback: number): number {
+    const value = Number(process.env[name])
+    return Number.isInteger(value) && value > 0 ? value : fallback
+}
+
+export function getMaxDeliveryAttempts(): number {
+    return positiveIntFromEnv("WEBHOOK_MAX_ATTEMPTS", DEFAULT_MAX_ATTEMPTS)
+}
+
+/**
+ * Delay before retrying after the given (1-based) failed attempt.
+ */
+export function retryDelayMs(attempt: number): number {
+    const base = positiveIntFromEnv("WEBHOOK_RETRY_BASE_SECONDS", DEFAULT_RETRY_BASE_SECONDS) * 1000
+    return Math.min(base * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS)
+}
+
+function snippet(data: any): string {
+    if (data === undefined || data === null) return ""
+    const text = typeof data === "string" ? data : JSON.stringify(data)
+    return text.length > RESPONSE_SNIPPET_LENGTH ? `${text.slice(0, RESPONSE_SNIPPET_LENGTH)}…` : text
+}
+
+// ─── Enqueue ──────────────────────────────────────────────────────────────────
+
+/**
+ * Store a delivery and make its first attempt.
+ */
+export async function enqueueWebhookDelivery(input: WebhookDeliveryInput) {
+    let userId = input.userId || null
+    let transactionId = null
+    let apiKeyId = null
+    if (input.orderId) {
+        const txn: any = await Transaction.findOne({ orderId: input.orderId }).select("_id userId apiKeyId").lean()
+        userId = txn?.userId || userId
+        transactionId = txn?._id || null
+        apiKeyId = txn?.apiKeyId || null
+    }
+
+    const delivery: any = await WebhookDelivery.create({
+        deliveryId: generateDeliveryId(),
+        userId,
+        transactionId,
+        orderId: input.orderId || "",
+        apiKeyId,
+        endpointId: input.endpointId || null,
+        event: input.event,
+        url: input.url,
+        payload: input.payload,
+        maxAttempts: getMaxDeliveryAttempts(),
+        nextAttemptAt: new Date(),
+    })
+
+    await attemptDelivery(delivery._id)
+    return delivery
+}
+
+/**
+ * Re-send a delivery as a new delivery (same URL, event and payload), e.g.
+ * after the merchant fixed their endpoint. The original is left untouched.
+ */
+export async function replayWebhookDelivery(original: any) {
+    const delivery: any = await WebhookDelivery.create({
+        deliveryId: generateDeliveryId(),
+        userId: original.userId,
+        transactionId: original.transactionId,
+        orderId: original.orderId,
+        endpointId: original.endpointId,
+        apiKeyId: original.apiKeyId,
+        event: original.event,
+        url: original.url,
+        payload: original.payload,
+        replayOf: original._id,
+        maxAttempts: getMaxDeliveryAttempts(),
+        nextAttemptAt: new Date(),
+    })
+
+    console.log(`[WebhookDelivery] 🔁 ${original.deliveryId} replayed as ${delivery.deliveryId}`)
+    await attemptDelivery(delivery._id)
+    return WebhookDelivery.findById(delivery._id).lean()
+}
+
+// ─── Attempts ─────────────────────────────────────────────────────────────────
+
+function isUsableKey(key: any): boolean {
+    return !!key?.isActive && (!key.expiresAt || new Date(key.expiresAt) > new Date())
+}
+
+/**
+ * Secret to sign a per-order callback with: its order's API key, else the
+ * merchant's newest active key. Null when the merchant has no usable key.
+ */
+async function resolveApiKeySecret(delivery: any): Promise<string | null> {
+    if (delivery.apiKeyId) {
+        const key: any = await ApiKey.findById(delivery.apiKeyId).select("secret isActive expiresAt").lean()
+        if (isUsableKey(key)) return key.secret
+    }
+    if (!delivery.userId) return null
+
+    const keys: any[] = await ApiKey.find({ userId: delivery.userId, isActive: true })
+        .select("secret isActive expiresAt")
+        .sort({ createdAt: -1 })
+        .lean()
+    return keys.find(isUsableKey)?.secret || null
+}
+
+async function notifyMerchant(delivery: any): Promise<void> {
+    if (!delivery.userId) return
+
+    const merchant: any = await User.findById(delivery.userId).select("email")
+    if (!merchant?.email) return
+
+    try {
+        await sendWebhookDeadEmail(merchant.email, {
+            deliveryId: delivery.deliveryId,
+            event: delivery.event,
+            orderId: delivery.orderId,
+            url: delivery.url,
+            attempts: delivery.attemptCount,
+            lastError: delivery.lastError,
+        })
+        await WebhookDelivery.updateOne({ _id: delivery._id }, { $set: { merchantNotifiedAt: new Date() } })
+    } catch (err: any) {
+        console.error(`[WebhookDelivery] Could not email merchant about ${delivery.deliveryId}:`, err.message)
+    }
+}
+
+/**
+ * Make one attempt if the delivery is due. Returns false if another worker
+ * holds it or it is no longer pending.
+ */
+export async function attemptDelivery(id: any): Promise<boolean> {
+    const now = new Date()
+    const delivery: any = await WebhookDelivery.findOneAndUpdate(
+        { _id: id, status: "pending", nextAttemptAt: { $lte: now } },
+        { $set: { nextAttemptAt: new Date(now.getTime() + ATTEMPT_LEASE_MS) } },
+        { new: true }
+    )
+    if (!delivery) return false
+
+    const number = delivery.attemptCount + 1
+    let secret: string | null = null
+    if (delivery.endpointId) {
+        const endpoint: any = await WebhookEndpoint.findById(delivery.endpointId).select("secret enabled").lean()
+        if (!endpoint?.enabled) {
+            await WebhookDelivery.updateOne(
+                { _id: delivery._id },
+                { $set: { status: "dead", deadAt: now, lastError: "Endpoint disabled or deleted" } }
+            )
+            console.warn(`[WebhookDelivery] ${delivery.deliveryId} dropped — endpoint ${delivery.endpointId} disabled or deleted`)
+            return true
+        }
+        secret = endpoint.secret
+    } else {
+        secret = await resolveApiKeySecret(delivery)
+    }
+
+    let startedAt = Date.now()
+    let requestHeaders: Record<string, string> = {}
+    let httpStatus: number | null = null
+    let responseHeaders: Record<string, any> = {}
+    let responseSnippet = ""
+    let error = ""
+
+    try {
+        // Sign the exact bytes we send
+        const body = JSON.stringify(delivery.payload)
+        const headers: Record<string, string> = {
+            "Content-Type": "application/json",
+            "User-Agent": "VersaiPay-Webhook/1.0",
+            "X-VersaiPay-Event": delivery.event,
+            "X-VersaiPay-Delivery": delivery.deliveryId,
+        }
+        if (secret) {
+            headers["X-VersaiPay-Signature"] = signWebhookPayload(body, secret)
+        } else {
+            console.warn(`[WebhookDelivery] No active API key to sign ${delivery.deliveryId} — sending unsigned`)
+        }
+        requestHeaders = headers
+
+        startedAt = Date.now()
+        const response = await axios.post(delivery.url, body, {
+            headers,
+            timeout: REQUEST_TIMEOUT_MS,
+            validateStatus: () => true,
+        })
+        httpStatus = response.status
+        responseHeaders = { ...response.headers }
+        responseSnippet = snippet(response.data)
+        if (httpStatus < 200 || httpStatus >= 300) error = `HTTP ${httpStatus}`
+    } catch (err: any) {
+        error = err.code ? `${err.code}: ${err.message}` : err.message
+    }
+
+    const attempt = {
+        number,
+        at: now,
+        requestHeaders,
+        httpStatus,
+        latencyMs: Date.now() - startedAt,
+        responseHeaders,
+        responseSnippet,
+        error,
+    }
+
+    if (!error) {
+        await WebhookDelivery.updateOne(
+            { _id: delivery._id },
+            {
+                $set: { status: "succeeded", deliveredAt: new Date(), lastAttemptAt: now, lastError: "" },
+                $inc: { attemptCount: 1 },
+                $push: { attempts: attempt },
+            }
+        )
+        console.log(`[WebhookDelivery] ✅ ${delivery.deliveryId} ${delivery.event} → ${delivery.url} http=${httpStatus} (attempt ${number})`)
+        return true
+    }
+
+    if (number >= delivery.maxAttempts) {
+        const dead: any = await WebhookDelivery.findOneAndUpdate(
+            { _id: delivery._id },
+            {
+                $set: { status: "dead", deadAt: new Date(), lastAttemptAt: now, lastError: error },
+                $inc: { attemptCount: 1 },
+                $push: { attempts: attempt },
+            },
+            { new: true }
+        )
+        console.error(`[WebhookDelivery] ☠️ ${delivery.deliveryId} ${delivery.event} → ${delivery.url} dead after ${number} attempts: ${error}`)
+        await notifyMerchant(dead)
+        return true
+    }
+
+    const nextAttemptAt = new Date(Date.now() + retryDelayMs(number))
+    await WebhookDelivery.updateOne(
+        { _id: delivery._id },
+        {
+            $set: { nextAttemptAt, lastAttemptAt: now, lastError: error },
+            $inc: { attemptCount: 1 },
+            $push: { attempts: attempt },
+        }
+    )
+    console.warn(
+        `[WebhookDelivery] ⚠️ ${delivery.deliveryId} ${delivery.event} → ${delivery.url} failed (attempt ${number}/${delivery.maxAttempts}): ${error}. Retry at ${nextAttemptAt.toISOString()}`
+    )
+    return true
+}
+
+// ─── Worker ───────────────────────────────────────────────────────────────────
+
+export async function runWebhookDeliveries(): Promise<void> {
+    const due: any[] = await WebhookDelivery.find({ status: "pending", nextAttemptAt: { $lte: new Date() } })
+        .select("_id")
+        .sort({ nextAttemptAt: 1 })
+        .limit(WORKER_BATCH_SIZE)
+        .lean()
+
+    for (const delivery of due) {
+        try {
+            await attemptDelivery(delivery._id)
+        } catch (err: any) {
+            console.error(`[WebhookDelivery] Attempt failed for ${delivery._id}:`, err.message)
+        }
+    }
+}
+
+let workerInterval: NodeJS.Timeout | null = null
+
+export function startWebhookDeliveryWorker(): void {
+    console.log(`[WebhookDelivery] 🚀 Starting worker (interval: ${WORKER_INTERVAL_MS / 1000}s, max attempts: ${getMaxDeliveryAttempts()})`)
+
+    runWebhookDeliveries().catch((e) => console.error("[WebhookDelivery] Startup error:", e.message))
+
+    workerInterval = setInterval(() => {
+        runWebhookDeliveries().catch((e) => console.error("[WebhookDelivery] Interval error:", e.message))
+    }, WORKER_INTERVAL_MS)
+}
+
+export function stopWebhookDeliveryWorker(): void {
+    if (workerInterval) clearInterval(workerInterval)
+    console.log("[WebhookDelivery] 🛑 Stopped.")
+}
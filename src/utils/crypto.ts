@@ -8,3 +8,43 @@ export function verifySignature(orderId: string, paymentId: string, signature: s
   const expectedSignature = generateSignature(orderId, paymentId, secret)
   return expectedSignature === signature
 }
+
+// Replay window for signed merchant callbacks
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 300
+
+/**
+ * X-VersaiPay-Signature header for a callback body: "t=<unix seconds>,v1=<hex>"
+ * where v1 = HMAC-SHA256(secret, "<t>.<raw body>").
+ */
+export function signWebhookPayload(body: string, secret: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const signature = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")
+  return `t=${timestamp},v1=${signature}`
+}
+
+/**
+ * Reference check for a signed callback, as a merchant would do it: recompute
+ * v1 over the raw body and reject timestamps outside the tolerance window.
+ */
+export function verifyWebhookSignature(
+  body: string,
+  header: string,
+  secret: string,
+  toleranceSeconds: number = WEBHOOK_SIGNATURE_TOLERANCE_SECONDS,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = new Map<string, string[]>()
+  for (const item of String(header || "").split(",")) {
+    const [key, value] = item.split("=", 2).map((x) => x?.trim())
+    if (!key || !value) continue
+    parts.set(key, [...(parts.get(key) || []), value])
+  }
+
+  const timestamp = Number(parts.get("t")?.[0])
+  if (!Number.isInteger(timestamp) || Math.abs(now - timestamp) > toleranceSeconds) return false
+
+  const expected = Buffer.from(signWebhookPayload(body, secret, timestamp).split("v1=")[1], "hex")
+  return (parts.get("v1") || []).some((candidate) => {
+    const received = Buffer.from(candidate, "hex")
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected)
+  })
+}
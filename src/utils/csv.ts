@@ -0,0 +1,80 @@
+/**
+ * CSV Helpers
+ * ===========
+ * Minimal RFC 4180 reader/writer: quoted fields, "" escapes, embedded
+ * commas/newlines, CRLF line endings and a leading BOM.
+ */
+
+/**
+ * Split CSV text into rows of fields. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = []
+    let row: string[] = []
+    let field = ""
+    let inQuotes = false
+
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+    for (let i = 0; i < input.length; i++) {
+        const ch = input[i]
+
+        if (inQuotes) {
+            if (ch === '"') {
+                if (input[i + 1] === '"') {
+                    field += '"'
+                    i++
+                } else {
+                    inQuotes = false
+                }
+            } else {
+                field += ch
+            }
+            continue
+        }
+
+        if (ch === '"') {
+            inQuotes = true
+        } else if (ch === ",") {
+            row.push(field)
+            field = ""
+        } else if (ch === "\n" || ch === "\r") {
+            if (ch === "\r" && input[i + 1] === "\n") i++
+            row.push(field)
+            if (row.some((f) => f.trim() !== "")) rows.push(row)
+            row = []
+            field = ""
+        } else {
+            field += ch
+        }
+    }
+
+    row.push(field)
+    if (row.some((f) => f.trim() !== "")) rows.push(row)
+    return rows
+}
+
+/**
+ * Parse CSV with a header row into one object per line, keyed by header.
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+    const [header, ...lines] = parseCsv(text)
+    if (!header) return []
+
+    const keys = header.map((h) => h.trim())
+    return lines.map((line) => {
+        const record: Record<string, string> = {}
+        keys.forEach((key, i) => {
+            record[key] = (line[i] ?? "").trim()
+        })
+        return record
+    })
+}
+
+/**
+ * Build CSV text; every field is quoted.
+ */
+export function toCsv(header: string[], rows: any[][]): string {
+    const quote = (c: any) => `"${String(c ?? "").replace(/"/g, '""')}"`
+    return [header.join(","), ...rows.map((r) => r.map(quote).join(","))].join("\n")
+}
@@ -159,4 +159,236 @@ export async function sendOTPEmail(email: string, otp: string) {
     console.error("Error sending OTP email:", error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Send "webhook delivery failed" notice to a merchant
+ */
+export async function sendWebhookDeadEmail(
+  email: string,
+  details: { deliveryId: string; event: string; orderId: string; url: string; attempts: number; lastError: string }
+) {
+  try {
+    const transporter = await getTransporter();
+
+    const info = await transporter.sendMail({
+      from: EMAIL_FROM || "Versai Tech <no-reply@localhost>",
+      to: email,
+      subject: `Webhook delivery failed: ${details.event}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #333;">Webhook Delivery Failed</h2>
+          <p>We could not deliver a <strong>${details.event}</strong> notification to your endpoint after ${details.attempts} attempts.</p>
+          <table style="border-collapse: collapse; margin: 20px 0; font-size: 14px;">
+            <tr><td style="padding: 4px 12px 4px 0; color: #666;">Order ID</td><td>${details.orderId || "-"}</td></tr>
+            <tr><td style="padding: 4px 12px 4px 0; color: #666;">Endpoint</td><td>${details.url}</td></tr>
+            <tr><td style="padding: 4px 12px 4px 0; color: #666;">Delivery ID</td><td>${details.deliveryId}</td></tr>
+            <tr><td style="padding: 4px 12px 4px 0; color: #666;">Last error</td><td>${details.lastError || "-"}</td></tr>
+          </table>
+          <p style="color: #666;">Please check that your endpoint is reachable and returns a 2xx response, then confirm the payment status from your dashboard or the order status API.</p>
+        </div>
+      `,
+    });
+
+    if (usingEthereal) {
+      console.info(
+        "Ethereal webhook failure preview:",
+        nodemailer.getTestMessageUrl(info)
+      );
+    }
+
+    return info;
+  } catch (error: any) {
+    console.error("Error sending webhook failure email:", error);
+    throw error;
+  }
+}
+
+/**
+ * Send "payouts stuck in processing" notice to platform admins
+ */
+export async function sendPayoutEscalationEmail(
+  emails: string[],
+  payouts: { orderid: string; amount: number; initiatedAt: Date | null; retryCount: number; reason: string }[]
+) {
+  try {
+    const transporter = await getTransporter();
+
+    const rows = payouts
+      .map(
+        (p) => `<tr>
+              <td style="padding: 4px 12px 4px 0;">${p.orderid}</td>
+              <td style="padding: 4px 12px 4px 0;">₹${p.amount}</td>
+              <td style="padding: 4px 12px 4px 0;">${p.initiatedAt ? new Date(p.initiatedAt).toISOString() : "-"}</td>
+              <td style="padding: 4px 12px 4px 0;">${p.retryCount}</td>
+              <td>${p.reason}</td>
+            </tr>`
+      )
+      .join("");
+
+    const info = await transporter.sendMail({
+      from: EMAIL_FROM || "Versai Tech <no-reply@localhost>",
+      to: emails.join(", "),
+      subject: `${payouts.length} payout(s) stuck in processing`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #333;">Payouts Need Attention</h2>
+          <p>These RezoPay payouts are still processing past the escalation deadline or have used up their automatic status checks.</p>
+          <table style="border-collapse: collapse; margin: 20px 0; font-size: 14px;">
+            <tr style="color: #666;"><td>Order ID</td><td>Amount</td><td>Dispatched</td><td>Checks</td><td>Reason</td></tr>
+            ${rows}
+          </table>
+          <p style="color: #666;">Confirm each payout with RezoPay support, then check it again from the admin panel.</p>
+        </div>
+      `,
+    });
+
+    if (usingEthereal) {
+      console.info(
+        "Ethereal payout escalation preview:",
+        nodemailer.getTestMessageUrl(info)
+      );
+    }
+
+    return info;
+  } catch (error: any) {
+    console.error("Error sending payout escalation email:", error);
+    throw error;
+  }
+}
+
+/**
+ * Send payout status update (success / failed / returned) to the requesting user
+ */
+export async function sendPayoutStatusEmail(
+  email: string,
+  details: { orderid: string; amount: number; status: "success" | "failed" | "returned"; utr?: string; message?: string }
+) {
+  const headings = {
+    success: "Payout Successful",
+    failed: "Payout Failed",
+    returned: "Payout Returned",
+  };
+  const summaries = {
+    success: "has been credited to the beneficiary account.",
+    failed: "could not be completed.",
+    returned: "was returned by the beneficiary's bank.",
+  };
+
+  try {
+    const transporter = await getTransporter();
+
+    const info = await transporter.sendMail({
+      from: EMAIL_FROM || "Versai Tech <no-reply@localhost>",
+      to: email,
+      subject: `${headings[details.status]}: ₹${details.amount} (${details.orderid})`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #333;">${headings[details.status]}</h2>
+          <p>Your payout of <strong>₹${details.amount}</strong> ${summaries[details.status]}</p>
+          <table style="border-collapse: collapse; margin: 20px 0; font-size: 14px;">
+            <tr><td style="padding: 4px 12px 4px 0; color: #666;">Payout ID</td><td>${details.orderid}</td></tr>
+            <tr><td style="padding: 4px 12px 4px 0; color: #666;">UTR</td><td>${details.utr || "-"}</td></tr>
+            <tr><td style="padding: 4px 12px 4px 0; color: #666;">Gateway message</td><td>${details.message || "-"}</td></tr>
+          </table>
+        </div>
+      `,
+    });
+
+    if (usingEthereal) {
+      console.info(
+        "Ethereal payout status preview:",
+        nodemailer.getTestMessageUrl(info)
+      );
+    }
+
+    return info;
+  } catch (error: any) {
+    console.error("Error sending payout status email:", error);
+    throw error;
+  }
+}
+
+/**
+ * Send "payout amount credited back to your wallet" notice to the requesting user
+ */
+export async function sendPayoutReversalEmail(
+  email: string,
+  details: { orderid: string; amount: number; reason: "rejected" | "failed" | "returned"; reversalId: string; note?: string }
+) {
+  const reasons = {
+    rejected: "was rejected",
+    failed: "failed",
+    returned: "was returned by the beneficiary's bank",
+  };
+
+  try {
+    const transporter = await getTransporter();
+
+    const info = await transporter.sendMail({
+      from: EMAIL_FROM || "Versai Tech <no-reply@localhost>",
+      to: email,
+      subject: `₹${details.amount} credited back to your wallet (${details.orderid})`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #333;">Payout Amount Returned to Wallet</h2>
+          <p>Your payout <strong>${details.orderid}</strong> ${reasons[details.reason]}, so <strong>₹${details.amount}</strong> has been credited back to your wallet balance.</p>
+          <table style="border-collapse: collapse; margin: 20px 0; font-size: 14px;">
+            <tr><td style="padding: 4px 12px 4px 0; color: #666;">Reversal ID</td><td>${details.reversalId}</td></tr>
+            <tr><td style="padding: 4px 12px 4px 0; color: #666;">Reason</td><td>${details.note || "-"}</td></tr>
+          </table>
+        </div>
+      `,
+    });
+
+    if (usingEthereal) {
+      console.info(
+        "Ethereal payout reversal preview:",
+        nodemailer.getTestMessageUrl(info)
+      );
+    }
+
+    return info;
+  } catch (error: any) {
+    console.error("Error sending payout reversal email:", error);
+    throw error;
+  }
+}
+
+/**
+ * Tell the merchant a payout beneficiary was added to their account
+ */
+export async function sendBeneficiaryAddedEmail(
+  email: string,
+  details: { name: string; destination: string; coolingOffUntil: Date }
+) {
+  try {
+    const transporter = await getTransporter();
+
+    const info = await transporter.sendMail({
+      from: EMAIL_FROM || "Versai Tech <no-reply@localhost>",
+      to: email,
+      subject: `New payout beneficiary added: ${details.name}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #333;">New Payout Beneficiary</h2>
+          <p><strong>${details.name}</strong> (${details.destination}) was added as a payout beneficiary on your account.</p>
+          <p>Payouts to this beneficiary are allowed from <strong>${details.coolingOffUntil.toUTCString()}</strong>.</p>
+          <p style="color: #c0392b;">If you did not add this beneficiary, remove it and contact support immediately.</p>
+        </div>
+      `,
+    });
+
+    if (usingEthereal) {
+      console.info(
+        "Ethereal beneficiary added preview:",
+        nodemailer.getTestMessageUrl(info)
+      );
+    }
+
+    return info;
+  } catch (error: any) {
+    console.error("Error sending beneficiary added email:", error);
+    throw error;
+  }
+}
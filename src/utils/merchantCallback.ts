@@ -2,75 +2,160 @@
  * Merchant Callback Utility
  * =========================
  * Fires async HTTP POST callbacks to merchant-specified URLs when
- * a payment is completed or failed.
+ * a payment is completed, failed or expired, a refund changes state, or a
+ * payout reaches a final status (payout.* — endpoints only, see firePayoutCallback).
  *
- * Merchants pass `callbackUrl` when creating an order; we POST to it
- * when payment status changes.
+ * Where callbacks go:
+ *   1. per order    — `callbackUrl` passed on create-order (overrides 2)
+ *   2. per merchant — every enabled WebhookEndpoint subscribed to the event
  *
  * Security: Only fires to valid https:// URLs (or http:// for localhost/dev).
- * Timeout: 8s
+ * Delivery: queued and retried with backoff (services/webhookDelivery.ts).
  */
 
-import axios from "axios"
 import Transaction from "../models/Transaction"
+import WebhookEndpoint from "../models/WebhookEndpoint"
+import { enqueueWebhookDelivery } from "../services/webhookDelivery"
+
+export const MERCHANT_CALLBACK_EVENTS = [
+    "payment.success",
+    "payment.failed",
+    "payment.pending",
+    "payment.expired",
+    "refund.created",
+    "refund.processed",
+    "refund.failed",
+    "payout.success",
+    "payout.failed",
+    "payout.returned",
+] as const
+
+export type MerchantCallbackEvent = (typeof MERCHANT_CALLBACK_EVENTS)[number]
 
 export interface MerchantCallbackPayload {
-    event: "payment.success" | "payment.failed" | "payment.pending"
+    event: MerchantCallbackEvent
     orderId: string
     paymentId: string
     amount: number
     currency: string
-    status: "completed" | "failed" | "pending"
+    status: "completed" | "failed" | "pending" | "processed" | "expired"
     message: string
     timestamp: string
     utr?: string
     gatewayId?: string
+    refundId?: string   // refund.* events only
+}
+
+export interface PayoutCallbackPayload {
+    event: "payout.success" | "payout.failed" | "payout.returned"
+    payoutId: string    // our orderid (POUT...)
+    amount: number
+    currency: string
+    status: "success" | "failed" | "returned"
+    message: string
+    timestamp: string
+    utr?: string
 }
 
 /**
- * Fire a POST request to the merchant's callback URL.
- * Non-blocking — errors are logged but never thrown.
+ * A subscription pattern is an event name, "<group>.*" or "*".
  */
-export async function fireMerchantCallback(
-    callbackUrl: string | null | undefined,
-    payload: MerchantCallbackPayload
-): Promise<void> {
-    if (!callbackUrl) return
+export function isValidEventPattern(pattern: string): boolean {
+    if (pattern === "*") return true
+    if (pattern.endsWith(".*")) {
+        const group = pattern.slice(0, -2)
+        return MERCHANT_CALLBACK_EVENTS.some((e) => e.startsWith(`${group}.`))
+    }
+    return (MERCHANT_CALLBACK_EVENTS as readonly string[]).includes(pattern)
+}
+
+export function eventMatches(patterns: string[], event: string): boolean {
+    return patterns.some(
+        (p) => p === "*" || p === event || (p.endsWith(".*") && event.startsWith(p.slice(0, -1)))
+    )
+}
 
-    // Validate URL format
+/**
+ * Only https:// URLs (and http://localhost for dev) receive callbacks.
+ */
+export function isAllowedCallbackUrl(url: string): boolean {
     let parsedUrl: URL
     try {
-        parsedUrl = new URL(callbackUrl)
+        parsedUrl = new URL(url)
     } catch (_e) {
-        console.warn(`[MerchantCallback] Invalid callback URL: ${callbackUrl}`)
-        return
+        return false
     }
 
-    // Only allow https:// (and http://localhost for dev)
     const isLocalhost =
         parsedUrl.hostname === "localhost" || parsedUrl.hostname === "127.0.0.1"
-    if (parsedUrl.protocol !== "https:" && !isLocalhost) {
-        console.warn(`[MerchantCallback] Blocked non-HTTPS callback URL: ${callbackUrl}`)
-        return
-    }
+    return parsedUrl.protocol === "https:" || (parsedUrl.protocol === "http:" && isLocalhost)
+}
 
-    console.log(
-        `[MerchantCallback] Firing callback → ${callbackUrl} event=${payload.event} orderId=${payload.orderId}`
-    )
+/**
+ * Queue a POST to the order's callback URL — or, without one, to the
+ * merchant's subscribed endpoints — and make the first attempt.
+ * Non-blocking — errors are logged but never thrown.
+ */
+export async function fireMerchantCallback(
+    callbackUrl: string | null | undefined,
+    payload: MerchantCallbackPayload
+): Promise<void> {
+    try {
+        if (callbackUrl) {
+            if (!isAllowedCallbackUrl(callbackUrl)) {
+                console.warn(`[MerchantCallback] Blocked invalid or non-HTTPS callback URL: ${callbackUrl}`)
+                return
+            }
+
+            console.log(
+                `[MerchantCallback] Queueing callback → ${callbackUrl} event=${payload.event} orderId=${payload.orderId}`
+            )
+            await enqueueWebhookDelivery({
+                url: callbackUrl,
+                event: payload.event,
+                payload,
+                orderId: payload.orderId,
+            })
+            return
+        }
 
+        const tx = await Transaction.findOne({ orderId: payload.orderId }).select("userId").lean() as any
+        if (!tx?.userId) return
+
+        await queueForEndpoints(tx.userId, payload.orderId, payload)
+    } catch (err: any) {
+        console.warn(`[MerchantCallback] ⚠️ Could not queue ${payload.event} for ${payload.orderId}: ${err.message}`)
+    }
+}
+
+/**
+ * Queue a payout event to the requesting user's subscribed endpoints.
+ * Non-blocking — errors are logged but never thrown.
+ */
+export async function firePayoutCallback(userId: any, payload: PayoutCallbackPayload): Promise<void> {
     try {
-        const response = await axios.post(callbackUrl, payload, {
-            headers: {
-                "Content-Type": "application/json",
-                "User-Agent": "VersaiPay-Webhook/1.0",
-                "X-VersaiPay-Event": payload.event,
-            },
-            timeout: 8000,
-        })
-        console.log(`[MerchantCallback] ✅ Success → ${callbackUrl} http=${response.status}`)
+        await queueForEndpoints(userId, payload.payoutId, payload)
     } catch (err: any) {
-        const status = err?.response?.status || "no-response"
-        console.warn(`[MerchantCallback] ⚠️ Failed → ${callbackUrl} status=${status} error=${err.message}`)
+        console.warn(`[MerchantCallback] ⚠️ Could not queue ${payload.event} for ${payload.payoutId}: ${err.message}`)
+    }
+}
+
+async function queueForEndpoints(userId: any, reference: string, payload: MerchantCallbackPayload | PayoutCallbackPayload) {
+    const endpoints: any[] = await WebhookEndpoint.find({ userId, enabled: true }).lean()
+    for (const endpoint of endpoints) {
+        if (!eventMatches(endpoint.events || [], payload.event)) continue
+
+        console.log(
+            `[MerchantCallback] Queueing endpoint ${endpoint._id} → ${endpoint.url} event=${payload.event} ref=${reference}`
+        )
+        await enqueueWebhookDelivery({
+            url: endpoint.url,
+            event: payload.event,
+            payload,
+            orderId: reference,
+            endpointId: endpoint._id,
+            userId,
+        })
     }
 }
 
@@ -0,0 +1,199 @@
+/**
+ * Order Expiry
+ * ============
+ * Every pay-in order gets an `expiresAt` when it is created:
+ *   1. per request  — `expiresInMinutes` or `expiresAt` in the create-order body
+ *   2. per merchant — User.orderExpiryMinutes (set by an admin)
+ *   3. platform     — ORDER_EXPIRY_MINUTES (default 30)
+ *
+ * A background sweeper moves unpaid orders past their deadline to the terminal
+ * "expired" status, pushes the change over SSE and fires a `payment.expired`
+ * merchant callback.
+ *
+ * A success that arrives after expiry (late webhook / poll) is NOT applied —
+ * the order stays "expired" and is flagged for admin review instead.
+ *
+ * Orders from before expiry tracking get their `expiresAt` from
+ * scripts/backfill-order-expiry.ts, marked `notes.expiry_backfilled`; the
+ * sweeper expires those without a merchant callback.
+ */
+
+import Transaction from "../models/Transaction"
+import { sseManager } from "./sse"
+import { fireMerchantCallback, getMerchantCallbackUrl } from "./merchantCallback"
+import { transitionTransaction } from "./transactionState"
+
+const DEFAULT_EXPIRY_MINUTES = 30
+const MIN_EXPIRY_MINUTES = 1
+const MAX_EXPIRY_MINUTES = 7 * 24 * 60 // 7 days
+
+const SWEEP_INTERVAL_MS = 60 * 1000 // Every minute
+const SWEEP_BATCH_SIZE = 100
+
+// ─── Expiry resolution ────────────────────────────────────────────────────────
+
+export function getDefaultExpiryMinutes(): number {
+    const fromEnv = Number(process.env.ORDER_EXPIRY_MINUTES)
+    return Number.isFinite(fromEnv) && fromEnv >= MIN_EXPIRY_MINUTES ? fromEnv : DEFAULT_EXPIRY_MINUTES
+}
+
+export function isValidExpiryMinutes(minutes: unknown): minutes is number {
+    return typeof minutes === "number" && Number.isFinite(minutes) && minutes >= MIN_EXPIRY_MINUTES && minutes <= MAX_EXPIRY_MINUTES
+}
+
+/**
+ * Work out when a new order expires.
+ * Returns { error } when the merchant sent an unusable value.
+ */
+export function resolveOrderExpiry(
+    requested: { expiresInMinutes?: unknown; expiresAt?: unknown },
+    merchantMinutes?: number | null,
+    now: Date = new Date()
+): { expiresAt: Date; error?: undefined } | { expiresAt?: undefined; error: string } {
+    if (requested.expiresAt !== undefined && requested.expiresAt !== null) {
+        const at = new Date(requested.expiresAt as any)
+        if (isNaN(at.getTime())) {
+            return { error: "expiresAt must be an ISO 8601 date" }
+        }
+        const minutes = (at.getTime() - now.getTime()) / 60000
+        if (minutes < MIN_EXPIRY_MINUTES || minutes > MAX_EXPIRY_MINUTES) {
+            return { error: `expiresAt must be between ${MIN_EXPIRY_MINUTES} minute and ${MAX_EXPIRY_MINUTES / 1440} days from now` }
+        }
+        return { expiresAt: at }
+    }
+
+    if (requested.expiresInMinutes !== undefined && requested.expiresInMinutes !== null) {
+        const minutes = Number(requested.expiresInMinutes)
+        if (!isValidExpiryMinutes(minutes)) {
+            return { error: `expiresInMinutes must be between ${MIN_EXPIRY_MINUTES} and ${MAX_EXPIRY_MINUTES}` }
+        }
+        return { expiresAt: new Date(now.getTime() + minutes * 60000) }
+    }
+
+    const minutes = isValidExpiryMinutes(merchantMinutes) ? merchantMinutes : getDefaultExpiryMinutes()
+    return { expiresAt: new Date(now.getTime() + minutes * 60000) }
+}
+
+// ─── Late payments ────────────────────────────────────────────────────────────
+
+/**
+ * Record a success that arrived for an already-expired order.
+ * The order keeps status "expired"; an admin accepts or rejects it from the
+ * review queue (GET /api/admin/transactions?review=open).
+ *
+ * An admin's decision is final: an order whose review was already resolved,
+ * or that is already flagged for a late success, is left as it is.
+ *
+ * Returns the flagged transaction, or null if nothing was flagged.
+ */
+export async function flagLateSuccess(
+    orderId: string,
+    details: { source: string; paymentId?: string; utr?: string; amount?: number; raw?: any }
+) {
+    const flagged = await Transaction.findOneAndUpdate(
+        {
+            orderId,
+            status: "expired",
+            "review.resolvedAt": null,
+            $nor: [{ "review.required": true, "review.reason": "late_success" }],
+        },
+        {
+            $set: {
+                review: {
+                    required: true,
+                    reason: "late_success",
+                    source: details.source,
+                    paymentId: details.paymentId || "",
+                    utr: details.utr || "",
+                    amount: details.amount ?? null,
+                    payload: details.raw ?? null,
+                    flaggedAt: new Date(),
+                    resolvedAt: null,
+                    resolvedBy: null,
+                    resolution: null,
+                    note: "",
+                },
+                updatedAt: new Date(),
+            },
+        },
+        { new: true }
+    )
+
+    if (flagged) {
+        console.warn(`[Order Expiry] 🚩 Late success for expired order ${orderId} via ${details.source} — flagged for review`)
+    }
+    return flagged
+}
+
+// ─── Sweeper ──────────────────────────────────────────────────────────────────
+
+/**
+ * Expire every pending order whose deadline has passed. Orders without an
+ * expiresAt are left alone until the backfill script has given them one.
+ */
+export async function runExpirySweep(): Promise<number> {
+    const now = new Date()
+
+    const due: any[] = await Transaction.find({ status: "pending", expiresAt: { $lte: now } })
+        .select("_id orderId")
+        .limit(SWEEP_BATCH_SIZE)
+        .lean()
+
+    if (due.length === 0) return 0
+
+    let expired = 0
+    for (const { _id, orderId } of due) {
+        // Atomic — a webhook that completes the order first wins
+        const result = await transitionTransaction({ _id }, {
+            to: "expired",
+            source: "expiry_sweeper",
+            set: { expiredAt: now },
+        })
+        if (!result.ok) continue
+        const txn = result.txn
+        expired++
+
+        sseManager.broadcast(orderId, {
+            type: "payment_expired",
+            orderId,
+            status: "expired",
+            expiresAt: txn.expiresAt,
+            source: "expiry_sweeper",
+        })
+
+        // Merchants gave up on pre-expiry orders long ago — don't flood them with callbacks
+        if (txn.notes?.expiry_backfilled) continue
+
+        const callbackUrl = await getMerchantCallbackUrl(orderId)
+        fireMerchantCallback(callbackUrl, {
+            event: "payment.expired",
+            orderId,
+            paymentId: txn.paymentId || "",
+            amount: txn.amount,
+            currency: txn.currency || "INR",
+            status: "expired",
+            message: "Order expired before payment was received",
+            timestamp: now.toISOString(),
+        }).catch(() => { }) // already logged inside utility
+    }
+
+    console.log(`[Order Expiry] ⏰ Expired ${expired} order(s)`)
+    return expired
+}
+
+let sweepInterval: NodeJS.Timeout | null = null
+
+export function startOrderExpirySweeper(): void {
+    console.log(`[Order Expiry] 🚀 Starting sweeper (interval: ${SWEEP_INTERVAL_MS / 1000}s, default expiry: ${getDefaultExpiryMinutes()}m)`)
+
+    runExpirySweep().catch((e) => console.error("[Order Expiry] Startup error:", e.message))
+
+    sweepInterval = setInterval(() => {
+        runExpirySweep().catch((e) => console.error("[Order Expiry] Interval error:", e.message))
+    }, SWEEP_INTERVAL_MS)
+}
+
+export function stopOrderExpirySweeper(): void {
+    if (sweepInterval) clearInterval(sweepInterval)
+    console.log("[Order Expiry] 🛑 Stopped.")
+}
@@ -3,11 +3,17 @@
  * ================================
  * This service acts as a SAFETY NET when webhooks fail to arrive.
  *
- * It runs two background jobs:
+ * It runs three background jobs:
  *  1. UnPay Poller  — polls UnPay's payin order status API for pending QR transactions
  *  2. Razorpay Poller — polls Razorpay's order API for pending transactions
+ *  3. SMEPay Poller — polls SMEPay's order status API (cached token in services/smepay.ts)
  *
- * Both jobs run every 2 minutes and skip transactions already older than 24 hours.
+ * All jobs run every 2 minutes and skip transactions already older than 24 hours.
+ * Status changes go through utils/transactionState.ts, so orders the expiry
+ * sweeper has already moved to "expired" are never overwritten. Expired orders
+ * inside the 24-hour window are still polled: a success found for one is
+ * flagged for admin review (flagLateSuccess). Every status a poller applies
+ * fires the merchant callback, as the webhook would have.
  *
  * NOTE: UnPay's /payout/order/status returns "Permission Not Allowed" for payin orders.
  *       The correct endpoint for QR pay-in is /payin/order/status (tried first).
@@ -19,6 +25,11 @@ import axios from "axios"
 import https from "https"
 import Transaction from "../models/Transaction"
 import { sseManager } from "./sse"
+import { flagLateSuccess } from "./orderExpiry"
+import { fireMerchantCallback, getMerchantCallbackUrl } from "./merchantCallback"
+import { smepayProvider } from "../providers/smepay"
+import type { ProviderStatusResult } from "../providers/types"
+import { type TransactionStatus, transitionTransaction } from "./transactionState"
 
 // ─────────────────────────────────────────────
 // AES-256-CBC Encrypt (for UnPay order status request)
@@ -122,6 +133,58 @@ async function pollRazorpayStatus(
     }
 }
 
+// ─────────────────────────────────────────────
+// Orders to poll — pending first, then expired ones still in the window
+// ─────────────────────────────────────────────
+const POLL_BATCH_SIZE = 20
+
+/**
+ * Pending orders matching `filter`, topped up with expired ones so a payment
+ * that lands after expiry (webhook missed) still reaches flagLateSuccess.
+ * Expired orders already flagged are skipped; the rest are polled in turn
+ * (notes.late_poll_at) so they never crowd out pending orders.
+ */
+async function findOrdersToPoll(filter: Record<string, any>): Promise<any[]> {
+    const pending = await Transaction.find({ ...filter, status: "pending" }).limit(POLL_BATCH_SIZE)
+    const room = POLL_BATCH_SIZE - pending.length
+    if (room <= 0) return pending
+
+    const expired = await Transaction.find({ ...filter, status: "expired", "review.reason": { $ne: "late_success" } })
+        .sort({ "notes.late_poll_at": 1 })
+        .limit(room)
+    if (expired.length > 0) {
+        await Transaction.updateMany(
+            { _id: { $in: expired.map((t) => t._id) } },
+            { $set: { "notes.late_poll_at": new Date() } }
+        )
+    }
+    return [...pending, ...expired]
+}
+
+/**
+ * Tell the merchant about a status a poller applied (async — non-blocking).
+ */
+async function notifyMerchant(
+    txn: any,
+    status: "completed" | "failed",
+    gateway: string,
+    details: { paymentId?: string; utr?: string; gatewayId?: string } = {}
+) {
+    const callbackUrl = await getMerchantCallbackUrl(txn.orderId)
+    fireMerchantCallback(callbackUrl, {
+        event: status === "completed" ? "payment.success" : "payment.failed",
+        orderId: txn.orderId,
+        paymentId: details.paymentId || "",
+        amount: txn.amount,
+        currency: txn.currency || "INR",
+        status,
+        message: status === "completed" ? `Payment confirmed via ${gateway} status check` : `Payment failed (${gateway} status check)`,
+        timestamp: new Date().toISOString(),
+        utr: details.utr || undefined,
+        gatewayId: details.gatewayId || undefined,
+    }).catch(() => { }) // already logged inside utility
+}
+
 // ─────────────────────────────────────────────
 // MAIN POLL LOOP — UnPay
 // ─────────────────────────────────────────────
@@ -141,13 +204,12 @@ async function runUnpayPolling() {
 
     let pendingTransactions: any[]
     try {
-        pendingTransactions = await Transaction.find({
-            status: "pending",
+        pendingTransactions = await findOrdersToPoll({
             "notes.unpay": { $exists: true },
             // Skip transactions already marked as "poll permission denied"
             "notes.poll_permission_denied": { $ne: true },
             createdAt: { $gte: cutoff },
-        }).limit(20) // Reduced from 50 to avoid rate limiting
+        })
     } catch (err: any) {
         console.error("[UnPay Poller] DB query failed:", err.message)
         return
@@ -191,7 +253,7 @@ async function runUnpayPolling() {
         }
 
         const statusCode = result.statuscode
-        let newStatus: string | null = null
+        let newStatus: TransactionStatus | null = null
         const updateData: Record<string, any> = {
             updatedAt: new Date(),
             "notes.poll_result": result,
@@ -214,13 +276,14 @@ async function runUnpayPolling() {
         }
 
         try {
-            const updated = await Transaction.findOneAndUpdate(
-                { orderId: apitxnid, status: { $ne: "completed" } },
-                { $set: { status: newStatus, ...updateData } },
-                { new: true }
-            )
+            const transition = await transitionTransaction({ orderId: apitxnid }, {
+                to: newStatus,
+                source: "polling",
+                rawRef: "notes.poll_result",
+                set: updateData,
+            })
 
-            if (updated) {
+            if (transition.ok) {
                 console.log(`[UnPay Poller] ✅ UPDATED ${apitxnid} → ${newStatus} (via polling)`)
 
                 if (newStatus === "completed") {
@@ -233,6 +296,11 @@ async function runUnpayPolling() {
                         source: "polling",
                     })
                 }
+
+                await notifyMerchant(txn, newStatus, "UnPay", { paymentId: updateData.paymentId, utr: result.utr, gatewayId: result.txnid })
+            } else if (newStatus === "completed") {
+                // Expired (before or since our query) — a late success goes to admin review
+                await flagLateSuccess(apitxnid, { source: "polling", paymentId: result.txnid, utr: result.utr, amount: result.amount, raw: result })
             }
         } catch (dbErr: any) {
             console.error(`[UnPay Poller] DB update failed for ${apitxnid}:`, dbErr.message)
@@ -259,12 +327,12 @@ async function runRazorpayPolling() {
 
     let pendingTransactions: any[]
     try {
-        pendingTransactions = await Transaction.find({
-            status: "pending",
-            // Razorpay orders start with "order_"
+        pendingTransactions = await findOrdersToPoll({
+            // Razorpay orders start with "order_" — SMEPay orders reuse that id, so skip them
             orderId: { $regex: /^order_/ },
+            "notes.smepay": { $exists: false },
             createdAt: { $gte: cutoff },
-        }).limit(20)
+        })
     } catch (err: any) {
         console.error("[Razorpay Poller] DB query failed:", err.message)
         return
@@ -286,7 +354,7 @@ async function runRazorpayPolling() {
 
         console.log(`[Razorpay Poller] ${orderId}: status=${result.status}`)
 
-        let newStatus: string | null = null
+        let newStatus: TransactionStatus | null = null
         const updateData: Record<string, any> = {
             updatedAt: new Date(),
             "notes.razorpay_poll_result": result,
@@ -305,13 +373,14 @@ async function runRazorpayPolling() {
         if (!newStatus) continue
 
         try {
-            const updated = await Transaction.findOneAndUpdate(
-                { orderId: orderId, status: { $ne: "completed" } },
-                { $set: { status: newStatus, ...updateData } },
-                { new: true }
-            )
+            const transition = await transitionTransaction({ orderId }, {
+                to: newStatus,
+                source: "polling",
+                rawRef: "notes.razorpay_poll_result",
+                set: updateData,
+            })
 
-            if (updated) {
+            if (transition.ok) {
                 console.log(`[Razorpay Poller] ✅ UPDATED ${orderId} → ${newStatus} (via polling)`)
 
                 if (newStatus === "completed") {
@@ -322,6 +391,11 @@ async function runRazorpayPolling() {
                         source: "polling",
                     })
                 }
+
+                await notifyMerchant(txn, newStatus, "Razorpay")
+            } else if (newStatus === "completed") {
+                // Expired (before or since our query) — a late success goes to admin review
+                await flagLateSuccess(orderId, { source: "polling", raw: result })
             }
         } catch (dbErr: any) {
             console.error(`[Razorpay Poller] DB update failed for ${orderId}:`, dbErr.message)
@@ -331,12 +405,117 @@ async function runRazorpayPolling() {
     }
 }
 
+// ─────────────────────────────────────────────
+// MAIN POLL LOOP — SMEPay
+// ─────────────────────────────────────────────
+async function runSmepayPolling() {
+    const configError = smepayProvider.checkConfig()
+    if (configError) {
+        console.warn(`[SMEPay Poller] Skipping — ${configError}`)
+        return
+    }
+
+    const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000)
+
+    let pendingTransactions: any[]
+    try {
+        pendingTransactions = await findOrdersToPoll({
+            // The status API needs the order slug returned at creation
+            $or: [{ "notes.smepay.order_slug": { $exists: true } }, { "notes.smepay.slug": { $exists: true } }],
+            createdAt: { $gte: cutoff },
+        })
+    } catch (err: any) {
+        console.error("[SMEPay Poller] DB query failed:", err.message)
+        return
+    }
+
+    if (pendingTransactions.length === 0) {
+        console.log("[SMEPay Poller] No pending SMEPay transactions to poll.")
+        return
+    }
+
+    console.log(`[SMEPay Poller] 🔄 Polling ${pendingTransactions.length} pending SMEPay transaction(s)...`)
+
+    for (const txn of pendingTransactions) {
+        const orderId = txn.orderId
+        if (!orderId) continue
+
+        let result: ProviderStatusResult
+        try {
+            result = await smepayProvider.fetchStatus(txn)
+        } catch (err: any) {
+            console.error(`[SMEPay Poller] API error for ${orderId}:`, err.message)
+            continue
+        }
+
+        console.log(`[SMEPay Poller] ${orderId}: status=${result.status}`)
+
+        if (result.status === "pending") {
+            console.log(`[SMEPay Poller] ${orderId} still unpaid`)
+            await new Promise((r) => setTimeout(r, 500))
+            continue
+        }
+
+        const newStatus: TransactionStatus = result.status
+        const updateData: Record<string, any> = {
+            updatedAt: new Date(),
+            "notes.smepay_poll_result": result.raw,
+            "notes.completed_via": "polling",
+        }
+        if (newStatus === "completed") {
+            updateData.paymentId = result.paymentId || txn.paymentId || orderId
+            updateData["notes.utr"] = result.utr || ""
+            // The status API is the confirmation an unconfirmed webhook was waiting for
+            if (txn.review?.required && txn.review.reason === "smepay_unconfirmed") {
+                updateData["review.required"] = false
+                updateData["review.resolvedAt"] = new Date()
+                updateData["review.resolution"] = "accepted"
+                updateData["review.note"] = "Confirmed by SMEPay status poll"
+            }
+        }
+
+        try {
+            const transition = await transitionTransaction({ orderId }, {
+                to: newStatus,
+                source: "polling",
+                rawRef: "notes.smepay_poll_result",
+                set: updateData,
+            })
+
+            if (transition.ok) {
+                console.log(`[SMEPay Poller] ✅ UPDATED ${orderId} → ${newStatus} (via polling)`)
+
+                if (newStatus === "completed") {
+                    sseManager.broadcast(orderId, {
+                        type: "payment_success",
+                        orderId: orderId,
+                        status: "completed",
+                        paymentId: updateData.paymentId,
+                        utr: result.utr,
+                        source: "polling",
+                    })
+                }
+
+                await notifyMerchant(txn, newStatus, "SMEPay", { paymentId: updateData.paymentId, utr: result.utr, gatewayId: result.paymentId })
+            } else if (newStatus === "completed") {
+                // Expired (before or since our query) — a late success goes to admin review
+                await flagLateSuccess(orderId, { source: "polling", paymentId: result.paymentId, utr: result.utr, amount: txn.amount, raw: result.raw })
+            }
+        } catch (dbErr: any) {
+            console.error(`[SMEPay Poller] DB update failed for ${orderId}:`, dbErr.message)
+        }
+
+        await new Promise((r) => setTimeout(r, 500))
+    }
+}
+
 // ─────────────────────────────────────────────
 // SCHEDULER
 // ─────────────────────────────────────────────
 
 let unpayPollInterval: NodeJS.Timeout | null = null
 let razorpayPollInterval: NodeJS.Timeout | null = null
+let smepayPollInterval: NodeJS.Timeout | null = null
 
 export function startPaymentPolling(): void {
     const POLL_INTERVAL_MS = 2 * 60 * 1000 // Every 2 minutes
@@ -346,6 +525,7 @@ export function startPaymentPolling(): void {
     // Run immediately once on startup, then on interval
     runUnpayPolling().catch((e) => console.error("[UnPay Poller] Startup error:", e.message))
     runRazorpayPolling().catch((e) => console.error("[Razorpay Poller] Startup error:", e.message))
+    runSmepayPolling().catch((e) => console.error("[SMEPay Poller] Startup error:", e.message))
 
     unpayPollInterval = setInterval(() => {
         runUnpayPolling().catch((e) => console.error("[UnPay Poller] Interval error:", e.message))
@@ -354,10 +534,15 @@ export function startPaymentPolling(): void {
     razorpayPollInterval = setInterval(() => {
         runRazorpayPolling().catch((e) => console.error("[Razorpay Poller] Interval error:", e.message))
     }, POLL_INTERVAL_MS)
+
+    smepayPollInterval = setInterval(() => {
+        runSmepayPolling().catch((e) => console.error("[SMEPay Poller] Interval error:", e.message))
+    }, POLL_INTERVAL_MS)
 }
 
 export function stopPaymentPolling(): void {
     if (unpayPollInterval) clearInterval(unpayPollInterval)
     if (razorpayPollInterval) clearInterval(razorpayPollInterval)
+    if (smepayPollInterval) clearInterval(smepayPollInterval)
     console.log("[Payment Poller] 🛑 Stopped.")
 }
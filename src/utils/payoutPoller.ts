@@ -0,0 +1,207 @@
+/**
+ * Payout Status Polling Service
+ * =============================
+ * Safety net for RezoPay payout callbacks that never arrive.
+ *
+ * Every 5 minutes:
+ *  1. Polls checkRezoPayoutStatus for payouts that have been `processing`
+ *     longer than PAYOUT_POLL_STUCK_MINUTES, writing lastStatusCheck /
+ *     lastStatusCheckedAt and applying a final status through
+ *     utils/payoutState.ts. Each inconclusive check counts against retryCount.
+ *  2. Escalates payouts still processing past PAYOUT_ESCALATE_AFTER_HOURS, or
+ *     out of checks (PAYOUT_POLL_MAX_RETRIES), to admins by email — once per payout.
+ *     Escalated payouts show up under GET /api/admin/payouts?escalated=true.
+ *  3. Finishes wallet reversals that did not post (services/payoutReversals.ts).
+ */
+
+import Payout from "../models/Payout"
+import User from "../models/User"
+import { retryPendingReversals } from "../services/payoutReversals"
+import { checkRezoPayoutStatus } from "../services/rezopay"
+import { sendPayoutEscalationEmail } from "./email"
+import { mapRezoPayoutStatus, transitionPayout } from "./payoutState"
+
+const POLL_INTERVAL_MS = 5 * 60 * 1000
+const BATCH_SIZE = 20
+
+const DEFAULT_STUCK_MINUTES = 15
+const DEFAULT_MAX_RETRIES = 24
+const DEFAULT_ESCALATE_AFTER_HOURS = 24
+
+function positiveNumberFromEnv(name: string, fallback: number): number {
+    const value = Number(process.env[name])
+    return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+export function getPayoutPollSettings() {
+    return {
+        stuckMinutes: positiveNumberFromEnv("PAYOUT_POLL_STUCK_MINUTES", DEFAULT_STUCK_MINUTES),
+        maxRetries: positiveNumberFromEnv("PAYOUT_POLL_MAX_RETRIES", DEFAULT_MAX_RETRIES),
+        escalateAfterHours: positiveNumberFromEnv("PAYOUT_ESCALATE_AFTER_HOURS", DEFAULT_ESCALATE_AFTER_HOURS),
+    }
+}
+
+// Payouts dispatched before `before` (older records without initiatedAt use createdAt)
+function dispatchedBefore(before: Date) {
+    return {
+        $or: [
+            { initiatedAt: { $lt: before } },
+            { initiatedAt: null, createdAt: { $lt: before } },
+        ],
+    }
+}
+
+// ─── Status checks ────────────────────────────────────────────────────────────
+
+async function pollStuckPayouts(stuckMinutes: number, maxRetries: number) {
+    const stuckBefore = new Date(Date.now() - stuckMinutes * 60 * 1000)
+
+    const payouts: any[] = await Payout.find({
+        status: "processing",
+        retryCount: { $lt: maxRetries },
+        ...dispatchedBefore(stuckBefore),
+    })
+        .sort({ lastStatusCheckedAt: 1 })
+        .limit(BATCH_SIZE)
+
+    if (payouts.length === 0) {
+        console.log("[Payout Poller] No stuck payouts to poll.")
+        return
+    }
+
+    console.log(`[Payout Poller] 🔄 Polling ${payouts.length} stuck payout(s)...`)
+
+    for (const payout of payouts) {
+        const checkedAt = new Date()
+
+        let response: Awaited<ReturnType<typeof checkRezoPayoutStatus>>
+        try {
+            response = await checkRezoPayoutStatus(payout.orderid)
+        } catch (err: any) {
+            console.error(`[Payout Poller] Status check failed for ${payout.orderid}:`, err.message)
+            await Payout.updateOne(
+                { _id: payout._id },
+                {
+                    $set: { lastStatusCheck: { error: err.message }, lastStatusCheckedAt: checkedAt },
+                    $inc: { retryCount: 1 },
+                }
+            )
+            continue
+        }
+
+        const newStatus = mapRezoPayoutStatus(response)
+        if (!newStatus) {
+            console.log(`[Payout Poller] ${payout.orderid} still ${response.data?.status || "unknown"} at gateway`)
+            await Payout.updateOne(
+                { _id: payout._id },
+                { $set: { lastStatusCheck: response, lastStatusCheckedAt: checkedAt }, $inc: { retryCount: 1 } }
+            )
+        } else {
+            const result = await transitionPayout({ _id: payout._id }, {
+                to: newStatus,
+                source: "payout_poller",
+                rawRef: "lastStatusCheck",
+                set: {
+                    utr: response.data?.utr || payout.utr || "",
+                    gatewayMessage: response.message || "",
+                    lastStatusCheck: response,
+                    lastStatusCheckedAt: checkedAt,
+                    gatewayUpdatedAt: checkedAt,
+                },
+            })
+            if (result.ok) {
+                console.log(`[Payout Poller] ✅ UPDATED ${payout.orderid} → ${newStatus} (via polling)`)
+            } else {
+                await Payout.updateOne(
+                    { _id: payout._id },
+                    { $set: { lastStatusCheck: response, lastStatusCheckedAt: checkedAt } }
+                )
+            }
+        }
+
+        // Brief pause between API calls — be a polite consumer
+        await new Promise((r) => setTimeout(r, 500))
+    }
+}
+
+// ─── Escalation ───────────────────────────────────────────────────────────────
+
+async function escalateStuckPayouts(maxRetries: number, escalateAfterHours: number) {
+    const deadline = new Date(Date.now() - escalateAfterHours * 60 * 60 * 1000)
+
+    const candidates: any[] = await Payout.find({
+        status: "processing",
+        escalatedAt: null,
+        $and: [{ $or: [{ retryCount: { $gte: maxRetries } }, dispatchedBefore(deadline)] }],
+    }).limit(100)
+
+    const escalated: any[] = []
+    for (const candidate of candidates) {
+        const reason = candidate.retryCount >= maxRetries
+            ? `No final status after ${candidate.retryCount} status checks`
+            : `Still processing after ${escalateAfterHours}h`
+
+        // Guard on escalatedAt so a payout is only escalated once
+        const payout = await Payout.findOneAndUpdate(
+            { _id: candidate._id, status: "processing", escalatedAt: null },
+            { $set: { escalatedAt: new Date(), escalationReason: reason } },
+            { new: true }
+        )
+        if (payout) escalated.push(payout)
+    }
+
+    if (escalated.length === 0) return
+
+    console.warn(`[Payout Poller] 🚨 Escalating ${escalated.length} stuck payout(s) to admins`)
+
+    const admins: any[] = await User.find({ isAdmin: true }).select("email").lean()
+    const emails = admins.map((a) => a.email).filter(Boolean)
+    if (emails.length === 0) {
+        console.warn("[Payout Poller] ⚠️ No admin email addresses to escalate to")
+        return
+    }
+
+    await sendPayoutEscalationEmail(
+        emails,
+        escalated.map((p) => ({
+            orderid: p.orderid,
+            amount: p.amount,
+            initiatedAt: p.initiatedAt,
+            retryCount: p.retryCount,
+            reason: p.escalationReason,
+        }))
+    ).catch((err) => console.error("[Payout Poller] Escalation email failed:", err.message))
+}
+
+export async function runPayoutPolling(): Promise<void> {
+    // Ledger-only, so it runs even without RezoPay keys
+    await retryPendingReversals()
+
+    if (!process.env.REZOPAY_SALT_KEY || !process.env.REZOPAY_SECRET_KEY) {
+        console.warn("[Payout Poller] Skipping — REZOPAY_SALT_KEY or REZOPAY_SECRET_KEY not set")
+        return
+    }
+
+    const { stuckMinutes, maxRetries, escalateAfterHours } = getPayoutPollSettings()
+    await pollStuckPayouts(stuckMinutes, maxRetries)
+    await escalateStuckPayouts(maxRetries, escalateAfterHours)
+}
+
+// ─── Scheduler ────────────────────────────────────────────────────────────────
+
+let payoutPollInterval: NodeJS.Timeout | null = null
+
+export function startPayoutPolling(): void {
+    console.log(`[Payout Poller] 🚀 Starting (interval: ${POLL_INTERVAL_MS / 1000}s)`)
+
+    runPayoutPolling().catch((e) => console.error("[Payout Poller] Startup error:", e.message))
+
+    payoutPollInterval = setInterval(() => {
+        runPayoutPolling().catch((e) => console.error("[Payout Poller] Interval error:", e.message))
+    }, POLL_INTERVAL_MS)
+}
+
+export function stopPayoutPolling(): void {
+    if (payoutPollInterval) clearInterval(payoutPollInterval)
+    console.log("[Payout Poller] 🛑 Stopped.")
+}
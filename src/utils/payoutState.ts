@@ -0,0 +1,150 @@
+/**
+ * Payout State Machine
+ * ====================
+ * The only place a Payout's `status` may change.
+ *
+ *   pending    → approved | rejected
+ *   approved   → processing | failed | rejected | success (admin_manual only)
+ *   processing → success | failed | returned
+ *   success    → returned                 (bank returned the credit)
+ *   rejected, failed, returned → (terminal)
+ *
+ * Same rules as utils/transactionState.ts: every accepted change is applied
+ * atomically (guarded on the status it was read in) and appends a
+ * `statusHistory` entry; illegal changes such as success → pending are
+ * rejected and logged, never written.
+ *
+ * For payouts that held wallet funds, reaching success finalizes the hold and
+ * rejected/failed/returned credits it back once (services/payoutReversals.ts). Reaching success,
+ * failed or returned notifies the user (services/payoutNotifications.ts).
+ */
+
+import Payout from "../models/Payout"
+import type { RezopayStatusResponse } from "../services/rezopay"
+import { recordPayoutSettled } from "../services/ledger"
+import { reversePayout } from "../services/payoutReversals"
+import { notifyPayoutStatus } from "../services/payoutNotifications"
+
+export type PayoutStatus = "pending" | "approved" | "rejected" | "processing" | "success" | "failed" | "returned"
+
+export const PAYOUT_TRANSITIONS: Record<PayoutStatus, PayoutStatus[]> = {
+    pending: ["approved", "rejected"],
+    approved: ["processing", "failed", "rejected", "success"],
+    processing: ["success", "failed", "returned"],
+    success: ["returned"],
+    rejected: [],
+    failed: [],
+    returned: [],
+}
+
+// Transitions that only specific sources may perform
+const RESTRICTED_TRANSITIONS: Record<string, string[]> = {
+    "approved->success": ["admin_manual"],
+}
+
+const RELEASED_STATUSES: PayoutStatus[] = ["rejected", "failed", "returned"]
+const FINAL_STATUSES: PayoutStatus[] = ["rejected", "success", "failed", "returned"]
+
+// Attempts before giving up when the status keeps changing underneath us
+const MAX_ATTEMPTS = 3
+
+export interface PayoutTransitionRequest {
+    to: PayoutStatus
+    // Who is asking, e.g. "admin_review", "admin_dispatch", "rezopay_callback", "payout_poller", "status_check"
+    source: string
+    // Admin or user behind the change, recorded on ledger journals
+    actorId?: any
+    // Extra fields written in the same update (utr, gatewayMessage, ...)
+    set?: Record<string, any>
+    rawRef?: string
+    note?: string
+}
+
+export type PayoutTransitionResult =
+    | { ok: true; payout: any; from: PayoutStatus }
+    | { ok: false; reason: "not_found" | "unchanged" | "illegal" | "conflict"; payout: any | null; from?: PayoutStatus }
+
+export function canTransitionPayout(from: PayoutStatus, to: PayoutStatus, source?: string): boolean {
+    if (!PAYOUT_TRANSITIONS[from]?.includes(to)) return false
+    const allowedSources = RESTRICTED_TRANSITIONS[`${from}->${to}`]
+    return !allowedSources || (!!source && allowedSources.includes(source))
+}
+
+/**
+ * Finalize or reverse the wallet hold for a payout that just changed status.
+ * Ledger journal keys and the one-per-payout reversal make this safe to repeat.
+ */
+async function applyWalletEffect(payout: any, request: PayoutTransitionRequest) {
+    if (!payout.walletHeld) return
+
+    if (payout.status === "success") {
+        await recordPayoutSettled(payout, request.actorId)
+    } else if (RELEASED_STATUSES.includes(payout.status)) {
+        await reversePayout(payout, { source: request.source, note: request.note })
+    }
+}
+
+/**
+ * Map a RezoPay check-status response to our payout status.
+ * Returns null while the gateway has no final answer yet.
+ */
+export function mapRezoPayoutStatus(response: RezopayStatusResponse): PayoutStatus | null {
+    const inner = String(response.data?.status || "").toLowerCase()
+    if (inner === "success") return "success"
+    if (inner === "failed") return "failed"
+    if (inner === "returned") return "returned"
+    return null
+}
+
+/**
+ * Move the payout matching `filter` (orderid or _id) to `request.to`.
+ * Resolves with ok: false instead of throwing when the change is not allowed.
+ */
+export async function transitionPayout(
+    filter: { orderid: string } | { _id: any },
+    request: PayoutTransitionRequest
+): Promise<PayoutTransitionResult> {
+    const { to, source, set = {}, rawRef = "", note = "" } = request
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+        const current: any = await Payout.findOne(filter)
+        if (!current) return { ok: false, reason: "not_found", payout: null }
+
+        const from = current.status as PayoutStatus
+        if (from === to) return { ok: false, reason: "unchanged", payout: current, from }
+
+        if (!canTransitionPayout(from, to, source)) {
+            console.warn(`[PayoutState] ❌ Rejected ${current.orderid}: ${from} → ${to} (source=${source})`)
+            return { ok: false, reason: "illegal", payout: current, from }
+        }
+
+        const now = new Date()
+        const updated = await Payout.findOneAndUpdate(
+            { _id: current._id, status: from },
+            {
+                $set: { ...(FINAL_STATUSES.includes(to) ? { processedAt: now } : {}), ...set, status: to },
+                $push: { statusHistory: { from, to, source, at: now, rawRef, note } },
+            },
+            { new: true }
+        )
+
+        if (updated) {
+            console.log(`[PayoutState] ${current.orderid}: ${from} → ${to} (source=${source})`)
+
+            await applyWalletEffect(updated, request).catch((err) =>
+                console.error(`[PayoutState] Wallet update failed for ${current.orderid}:`, err.message)
+            )
+
+            // Non-blocking — email and webhook delivery have their own retries/logging
+            notifyPayoutStatus(updated).catch((err) =>
+                console.error(`[PayoutState] Notification failed for ${current.orderid}:`, err.message)
+            )
+            return { ok: true, payout: updated, from }
+        }
+        // Status changed between read and write — re-read and re-validate
+    }
+
+    const latest = await Payout.findOne(filter)
+    console.warn(`[PayoutState] ⚠️ Gave up on ${JSON.stringify(filter)} → ${to} after ${MAX_ATTEMPTS} concurrent changes`)
+    return { ok: false, reason: "conflict", payout: latest }
+}
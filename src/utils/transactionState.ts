@@ -0,0 +1,111 @@
+/**
+ * Transaction State Machine
+ * =========================
+ * The only place a pay-in Transaction's `status` may change.
+ *
+ *   pending   → completed | failed | expired
+ *   failed    → completed            (Razorpay allows a retry on the same order)
+ *   expired   → completed            (admin accepting a late payment only)
+ *   completed → refunded
+ *   refunded  → (terminal)
+ *
+ * Every accepted change is applied atomically (guarded on the status it was
+ * read in) and appends a `statusHistory` entry to the Transaction. Illegal
+ * changes — e.g. a webhook trying to move completed → pending — are rejected
+ * and logged, never written.
+ *
+ * Reaching "completed" credits the merchant (services/walletCredit.ts).
+ */
+
+import Transaction from "../models/Transaction"
+import { creditCompletedPayment } from "../services/walletCredit"
+
+export type TransactionStatus = "pending" | "completed" | "failed" | "refunded" | "expired"
+
+export const TRANSACTION_TRANSITIONS: Record<TransactionStatus, TransactionStatus[]> = {
+    pending: ["completed", "failed", "expired"],
+    failed: ["completed"],
+    expired: ["completed"],
+    completed: ["refunded"],
+    refunded: [],
+}
+
+// Transitions that only specific sources may perform
+const RESTRICTED_TRANSITIONS: Record<string, string[]> = {
+    "expired->completed": ["admin_review", "reconciliation"],
+}
+
+// Attempts before giving up when the status keeps changing underneath us
+const MAX_ATTEMPTS = 3
+
+export interface TransitionRequest {
+    to: TransactionStatus
+    // Who is asking, e.g. "razorpay_webhook", "unpay_webhook", "polling", "expiry_sweeper"
+    source: string
+    // Extra fields written in the same update (paymentId, notes.*, ...)
+    set?: Record<string, any>
+    // Pointer to the raw event that caused the change (gateway event/payment id, notes key, ...)
+    rawRef?: string
+    note?: string
+}
+
+export type TransitionResult =
+    | { ok: true; txn: any; from: TransactionStatus }
+    | { ok: false; reason: "not_found" | "unchanged" | "illegal" | "conflict"; txn: any | null; from?: TransactionStatus }
+
+export function canTransition(from: TransactionStatus, to: TransactionStatus, source?: string): boolean {
+    if (!TRANSACTION_TRANSITIONS[from]?.includes(to)) return false
+    const allowedSources = RESTRICTED_TRANSITIONS[`${from}->${to}`]
+    return !allowedSources || (!!source && allowedSources.includes(source))
+}
+
+/**
+ * Move the transaction matching `filter` (orderId or _id) to `request.to`.
+ * Resolves with ok: false instead of throwing when the change is not allowed.
+ */
+export async function transitionTransaction(
+    filter: { orderId: string } | { _id: any },
+    request: TransitionRequest
+): Promise<TransitionResult> {
+    const { to, source, set = {}, rawRef = "", note = "" } = request
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+        const current: any = await Transaction.findOne(filter)
+        if (!current) return { ok: false, reason: "not_found", txn: null }
+
+        const from = current.status as TransactionStatus
+        if (from === to) return { ok: false, reason: "unchanged", txn: current, from }
+
+        if (!canTransition(from, to, source)) {
+            console.warn(`[TxnState] ❌ Rejected ${current.orderId}: ${from} → ${to} (source=${source})`)
+            return { ok: false, reason: "illegal", txn: current, from }
+        }
+
+        const now = new Date()
+        const updated = await Transaction.findOneAndUpdate(
+            { _id: current._id, status: from },
+            {
+                $set: { ...set, status: to, updatedAt: now },
+                $push: { statusHistory: { from, to, source, at: now, rawRef, note } },
+            },
+            { new: true }
+        )
+
+        if (updated) {
+            console.log(`[TxnState] ${current.orderId}: ${from} → ${to} (source=${source})`)
+
+            if (to === "completed") {
+                // A failure here is retried by the settlement release job
+                await creditCompletedPayment(updated).catch((err) =>
+                    console.error(`[TxnState] Wallet credit failed for ${current.orderId}:`, err.message)
+                )
+            }
+            return { ok: true, txn: updated, from }
+        }
+        // Status changed between read and write — re-read and re-validate
+    }
+
+    const latest = await Transaction.findOne(filter)
+    console.warn(`[TxnState] ⚠️ Gave up on ${JSON.stringify(filter)} → ${to} after ${MAX_ATTEMPTS} concurrent changes`)
+    return { ok: false, reason: "conflict", txn: latest }
+}
@@ -0,0 +1,34 @@
+/**
+ * Validators
+ * ==========
+ * Shared format checks for payout beneficiaries (services/beneficiaries.ts)
+ * and anything else that takes Indian bank or UPI details.
+ */
+
+/**
+ * Validate Indian mobile number (10 digits, starts 6-9).
+ */
+export function isValidMobile(mobile: string): boolean {
+    return /^[6-9]\d{9}$/.test(mobile.trim())
+}
+
+/**
+ * Validate IFSC code (4 alpha + 0 + 6 alphanumeric).
+ */
+export function isValidIFSC(ifsc: string): boolean {
+    return /^[A-Z]{4}0[A-Z0-9]{6}$/.test(ifsc.trim().toUpperCase())
+}
+
+/**
+ * Validate UPI VPA (handle@psp).
+ */
+export function isValidUpiId(upiId: string): boolean {
+    return /^[\w.-]{2,}@[a-zA-Z]{2,}$/.test(upiId.trim())
+}
+
+/**
+ * Validate bank account number (9-18 digits).
+ */
+export function isValidAccountNumber(accountNumber: string): boolean {
+    return /^\d{9,18}$/.test(accountNumber.trim())
+}